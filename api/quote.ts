@@ -1,48 +1,35 @@
-export const config = {
-  runtime: 'edge',
-};
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { TokenInfo, getTokenRegistry } from '../src/lib/tokens';
 
-const TOKENS: Record<string, string> = {
-  SOL: 'So11111111111111111111111111111111111111112',
-  USDC: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
-  USDT: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
-  MSOL: 'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So',
-  JITOSOL: 'J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn',
-  JLP: '27G8MtK7VtTcCHkpASjSDdkWWYfoqT6ggEuKidVJidD4',
-  BONK: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
-  JUP: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN',
-};
+// Node runtime: the token registry can load a list from TOKEN_LIST_PATH
 
-export default async function handler(request: Request) {
-  const headers = { 
-    'Content-Type': 'application/json', 
-    'Access-Control-Allow-Origin': '*' 
-  };
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
 
-  const url = new URL(request.url);
-  const from = (url.searchParams.get('from') || 'SOL').toUpperCase();
-  const to = (url.searchParams.get('to') || 'USDC').toUpperCase();
-  const amount = parseFloat(url.searchParams.get('amount') || '1');
+  const from = String(req.query.from || 'SOL');
+  const to = String(req.query.to || 'USDC');
+  const amount = parseFloat(String(req.query.amount || '1'));
 
-  const inputMint = TOKENS[from];
-  const outputMint = TOKENS[to];
-
-  if (!inputMint || !outputMint) {
-    return new Response(JSON.stringify({ 
-      error: `Unknown token. Supported: ${Object.keys(TOKENS).join(', ')}` 
-    }), { status: 400, headers });
+  const registry = getTokenRegistry();
+  let input: TokenInfo, output: TokenInfo;
+  try {
+    input = registry.require(from);
+    output = registry.require(to);
+  } catch (err: any) {
+    return res.status(400).json({
+      error: `${err.message}. Supported: ${registry.symbols().join(', ')}`
+    });
   }
 
   try {
-    const decimals = from === 'USDC' || from === 'USDT' ? 6 : 9;
-    const amountBase = Math.floor(amount * Math.pow(10, decimals));
+    const amountBase = registry.toBaseUnits(input.symbol, amount);
 
     // Add timeout using AbortController
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 8000);
 
     const response = await fetch(
-      `https://quote-api.jup.ag/v6/quote?inputMint=${inputMint}&outputMint=${outputMint}&amount=${amountBase}&slippageBps=50`,
+      `https://quote-api.jup.ag/v6/quote?inputMint=${input.mint}&outputMint=${output.mint}&amount=${amountBase}&slippageBps=50`,
       { signal: controller.signal }
     );
     clearTimeout(timeoutId);
@@ -52,18 +39,17 @@ export default async function handler(request: Request) {
     }
 
     const quote = await response.json();
-    const outDecimals = to === 'USDC' || to === 'USDT' ? 6 : 9;
-    
-    return new Response(JSON.stringify({
-      from,
-      to,
+
+    return res.status(200).json({
+      from: input.symbol,
+      to: output.symbol,
       inputAmount: amount,
-      outputAmount: parseInt(quote.outAmount) / Math.pow(10, outDecimals),
+      outputAmount: registry.fromBaseUnits(output.symbol, quote.outAmount),
       priceImpact: quote.priceImpactPct,
       route: quote.routePlan?.map((r: any) => r.swapInfo?.label).filter(Boolean).join(' → ') || 'direct',
-    }), { headers });
+    });
   } catch (err: any) {
     const errorMsg = err.name === 'AbortError' ? 'Request timeout' : err.message || 'Quote failed';
-    return new Response(JSON.stringify({ error: errorMsg }), { status: 500, headers });
+    return res.status(500).json({ error: errorMsg });
   }
 }
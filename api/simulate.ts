@@ -1,5 +1,6 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { Connection, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { preflightTransaction } from '../src/lib/preflight';
 
 const SOLANA_RPC = process.env.SOLANA_RPC || 'https://api.mainnet-beta.solana.com';
 
@@ -12,6 +13,7 @@ interface SimulationRequest {
   }>;
   signers?: string[];
   recentBlockhash?: string;
+  wallet?: string; // base58 pubkey: report this wallet's balance changes
 }
 
 interface SimulationResult {
@@ -36,6 +38,13 @@ interface SimulationResult {
     sol: number;
     usd?: number;
   };
+  balanceChanges?: Array<{
+    mint: string;
+    before: string;
+    after: string;
+    delta: string;
+  }>;
+  violations?: string[];
 }
 
 /**
@@ -51,7 +60,8 @@ interface SimulationResult {
  * 
  * Body (base64 transaction):
  * {
- *   "transaction": "base64_encoded_transaction"
+ *   "transaction": "base64_encoded_transaction",
+ *   "wallet": "base58_pubkey" // optional: include wallet balance changes
  * }
  * 
  * OR (instruction-level):
@@ -181,6 +191,20 @@ export default async function handler(
       }));
     }
 
+    // Same balance-diff check the executor runs before sending, with no trade expectations
+    if (body.wallet && transaction instanceof VersionedTransaction && result.success) {
+      const preflight = await preflightTransaction(connection, transaction, new PublicKey(body.wallet), {
+        balances: [],
+      });
+      result.balanceChanges = preflight.changes.map(c => ({
+        mint: c.mint,
+        before: c.before.toString(),
+        after: c.after.toString(),
+        delta: c.delta.toString(),
+      }));
+      result.violations = preflight.violations;
+    }
+
     return res.status(200).json(result);
 
   } catch (error) {
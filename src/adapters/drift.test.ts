@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { decodePerpMarket } from './drift';
+
+// SOL-PERP PerpMarket account (1216 bytes) laid out per the Drift IDL, with
+// every other field filled so misplaced offsets read the wrong values
+const SOL_PERP = Buffer.from(
+  readFileSync(join(__dirname, 'fixtures/drift-sol-perp-market.b64'), 'utf-8').trim(),
+  'base64'
+);
+
+describe('decodePerpMarket', () => {
+  it('decodes prices, funding and open interest from a PerpMarket account', () => {
+    const market = decodePerpMarket(0, SOL_PERP);
+
+    expect(market.symbol).toBe('SOL-PERP');
+    expect(market.oraclePrice).toBeCloseTo(187.2543, 6);
+    expect(market.oracleTwap).toBeCloseTo(186.9, 6);
+    expect(market.markTwap).toBeCloseTo(187.05, 6);
+    expect(market.fundingPeriodSeconds).toBe(3600);
+    expect(market.lastFundingTime).toBe(1_760_742_000_000);
+    expect(market.openInterestLong).toBeCloseTo(1_523_456.789, 3);
+    expect(market.openInterestShort).toBeCloseTo(1_498_765.4321, 3);
+  });
+
+  it('reports funding as a percentage of the oracle TWAP per period', () => {
+    const market = decodePerpMarket(0, SOL_PERP);
+
+    // 0.0028035 and -0.0009345 quote per base, against a 186.9 TWAP
+    expect(market.lastFundingRate).toBeCloseTo(0.0015, 6);
+    expect(market.avgFundingRate24h).toBeCloseTo(-0.0005, 6);
+  });
+});
@@ -1,7 +1,151 @@
-import { Connection, PublicKey } from '@solana/web3.js';
-import { YieldOpportunity, Position } from '../types';
+import {
+  AccountMeta,
+  Connection,
+  PublicKey,
+  SystemProgram,
+  SYSVAR_RENT_PUBKEY,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import {
+  YieldOpportunity,
+  Position,
+  ProtocolAdapter,
+  ProtocolAdapterMetadata,
+  AdapterInstructionParams,
+} from '../types';
+import {
+  getAccountFirstSeen,
+  getAssociatedTokenAddress,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  buildWrapSolInstructions,
+  uiToBaseUnits,
+  readU128LE,
+  readI128LE,
+  NATIVE_MINT,
+} from '../lib/spl';
+import { anchorDiscriminator, encodeBool, encodeU16, encodeU64 } from '../lib/instructions';
+import { getProgramId } from '../lib/cluster';
+import { dataFetch } from '../lib/data-source';
+
+export const DRIFT_PROGRAM_ID = getProgramId('drift', 'dRiftyHA39MWEi3m9aunc5MzRF1JYuBsbn6VPcn33UH');
+
+// User account layout
+const USER_ACCOUNT_SIZE = 4376;
+const USER_AUTHORITY_OFFSET = 8;
+const USER_SPOT_POSITIONS_OFFSET = 104;
+const SPOT_POSITION_SIZE = 40;
+const MAX_SPOT_POSITIONS = 8;
+const USER_PERP_POSITIONS_OFFSET = 424;
+const PERP_POSITION_SIZE = 96;      // Orders follow the 8 perp positions at 1192
+const MAX_PERP_POSITIONS = 8;
+const MAX_SUB_ACCOUNTS = 32;
+const MAX_SPOT_MARKET_SCAN = 64;    // Upper bound when resolving a spot market by symbol
+
+// Spot market account layout
+const SPOT_MARKET_ORACLE_OFFSET = 40;
+const SPOT_MARKET_MINT_OFFSET = 72;
+const SPOT_MARKET_VAULT_OFFSET = 104;
+const SPOT_MARKET_NAME_OFFSET = 136;
+const SPOT_MARKET_ORACLE_PRICE_OFFSET = 168;
+const SPOT_MARKET_DEPOSIT_INTEREST_OFFSET = 464;
+const SPOT_MARKET_BORROW_INTEREST_OFFSET = 480;
+const SPOT_MARKET_DECIMALS_OFFSET = 680;
+
+// Perp market account layout (offsets into the embedded AMM struct)
+const PERP_MARKET_ORACLE_OFFSET = 40;                // amm.oracle
+const PERP_MARKET_ORACLE_PRICE_OFFSET = 72;          // historicalOracleData.lastOraclePrice
+const PERP_MARKET_ORACLE_TWAP_OFFSET = 96;           // historicalOracleData.lastOraclePriceTwap
+const PERP_MARKET_BASE_LONG_OFFSET = 304;            // baseAssetAmountLong i128
+const PERP_MARKET_BASE_SHORT_OFFSET = 320;           // baseAssetAmountShort i128
+const PERP_MARKET_LAST_FUNDING_RATE_OFFSET = 480;    // lastFundingRate i64
+const PERP_MARKET_AVG_FUNDING_RATE_OFFSET = 504;     // last24hAvgFundingRate i64
+const PERP_MARKET_MARK_TWAP_OFFSET = 752;            // lastMarkPriceTwap u64
+const PERP_MARKET_LAST_FUNDING_TS_OFFSET = 792;      // lastFundingRateTs i64
+const PERP_MARKET_FUNDING_PERIOD_OFFSET = 800;       // fundingPeriod i64 (seconds)
+
+// Drift fixed-point precisions
+const PRICE_PRECISION = 1e6;
+const QUOTE_PRECISION = 1e6;
+const BASE_PRECISION = 1e9;
+const FUNDING_RATE_PRECISION = 1e9;           // Quote per base, per funding period
+const SPOT_TOKEN_AMOUNT_PRECISION_EXP = 19; // balance (1e9) * cumulative interest (1e10)
+
+// Perp market indexes are stable; names live deep in the AMM struct
+export const PERP_MARKET_SYMBOLS: Record<number, string> = {
+  0: 'SOL',
+  1: 'BTC',
+  2: 'ETH',
+  3: 'APT',
+  4: '1MBONK',
+  5: 'POL',
+  6: 'ARB',
+  7: 'DOGE',
+  8: 'BNB',
+  9: 'SUI',
+  10: '1MPEPE',
+  11: 'OP',
+  12: 'RENDER',
+  13: 'XRP',
+  14: 'HNT',
+  15: 'INJ',
+  16: 'LINK',
+  17: 'RLB',
+  18: 'PYTH',
+  19: 'TIA',
+  20: 'JTO',
+  21: 'SEI',
+  22: 'AVAX',
+  23: 'WIF',
+  24: 'JUP',
+};
+
+export interface DriftSpotMarket {
+  marketIndex: number;
+  symbol: string;
+  oracle: PublicKey;
+  mint: PublicKey;
+  vault: PublicKey;
+  oraclePrice: number;
+  decimals: number;
+  cumulativeDepositInterest: bigint;
+  cumulativeBorrowInterest: bigint;
+}
+
+export interface DriftPerpMarket {
+  marketIndex: number;
+  symbol: string;                 // e.g. SOL-PERP
+  oraclePrice: number;
+  oracleTwap: number;
+  markTwap: number;
+  lastFundingRate: number;        // % per funding period
+  avgFundingRate24h: number;      // % per funding period
+  fundingPeriodSeconds: number;
+  lastFundingTime: number;        // Unix ms
+  openInterestLong: number;       // Base units
+  openInterestShort: number;      // Base units (positive)
+}
+
+interface DriftUserAccount {
+  address: PublicKey;
+  subAccountId: number;
+  spotPositions: { marketIndex: number; scaledBalance: bigint; isBorrow: boolean }[];
+  perpPositions: {
+    marketIndex: number;
+    baseAssetAmount: bigint;
+    quoteAssetAmount: bigint;
+    quoteEntryAmount: bigint;
+  }[];
+}
+
+export class DriftAdapter implements ProtocolAdapter {
+  readonly metadata: ProtocolAdapterMetadata = {
+    id: 'drift',
+    name: 'Drift Protocol',
+    riskProfileId: 'drift',
+    types: ['lending'],
+  };
 
-export class DriftAdapter {
   private connection: Connection;
 
   constructor(connection: Connection) {
@@ -11,7 +155,7 @@ export class DriftAdapter {
   async getYields(): Promise<YieldOpportunity[]> {
     try {
       // Drift spot lending rates
-      const response = await fetch('https://mainnet-beta.api.drift.trade/stats');
+      const response = await dataFetch('https://mainnet-beta.api.drift.trade/stats');
       const data = await response.json();
       
       const opportunities: YieldOpportunity[] = [];
@@ -27,7 +171,8 @@ export class DriftAdapter {
             risk: 'medium',
             metadata: { 
               marketIndex: market.marketIndex,
-              type: 'lending'
+              type: 'lending',
+              borrowApy: market.borrowApy !== undefined ? market.borrowApy * 100 : undefined,
             },
           });
         }
@@ -66,14 +211,510 @@ export class DriftAdapter {
     }
   }
 
+  /**
+   * Decode spot balances and perp positions from every Drift sub-account
+   * owned by the wallet. Borrows carry negative amount and value; perp
+   * positions are valued at their unrealized PnL.
+   */
   async getPositions(wallet: PublicKey): Promise<Position[]> {
-    return [];
+    const accounts = await this.connection.getProgramAccounts(DRIFT_PROGRAM_ID, {
+      filters: [
+        { dataSize: USER_ACCOUNT_SIZE },
+        { memcmp: { offset: USER_AUTHORITY_OFFSET, bytes: wallet.toBase58() } },
+      ],
+    });
+    if (accounts.length === 0) return [];
+
+    const subAccountIds = resolveSubAccountIds(wallet, accounts.map(a => a.pubkey));
+    const users = accounts.map(({ pubkey, account }) =>
+      decodeUserAccount(pubkey, subAccountIds.get(pubkey.toBase58()) ?? 0, account.data)
+    );
+
+    const spotIndexes = [...new Set(users.flatMap(u => u.spotPositions.map(p => p.marketIndex)))];
+    const perpIndexes = [...new Set(users.flatMap(u => u.perpPositions.map(p => p.marketIndex)))];
+
+    const [spotMarkets, perpPrices, rates] = await Promise.all([
+      this.getSpotMarkets(spotIndexes),
+      this.getPerpOraclePrices(perpIndexes),
+      this.getYields(),
+    ]);
+
+    const positions: Position[] = [];
+
+    for (const user of users) {
+      const entryTime = (await getAccountFirstSeen(this.connection, user.address)) || new Date();
+
+      for (const spot of user.spotPositions) {
+        const market = spotMarkets.get(spot.marketIndex);
+        if (!market) continue;
+
+        const interest = spot.isBorrow ? market.cumulativeBorrowInterest : market.cumulativeDepositInterest;
+        const amount = spotTokenAmount(spot.scaledBalance, interest, market.decimals);
+        const sign = spot.isBorrow ? -1 : 1;
+        const rate = rates.find(
+          r => r.asset === market.symbol && r.metadata?.type !== 'funding'
+        );
+
+        positions.push({
+          protocol: 'drift',
+          asset: market.symbol,
+          amount: sign * amount,
+          valueUsd: sign * amount * market.oraclePrice,
+          currentApy: spot.isBorrow
+            ? Number(rate?.metadata?.borrowApy ?? 0)
+            : rate?.apy ?? 0,
+          entryTime,
+          metadata: {
+            type: 'lending',
+            side: spot.isBorrow ? 'borrow' : 'deposit',
+            marketIndex: spot.marketIndex,
+            subAccountId: user.subAccountId,
+            userAccount: user.address.toBase58(),
+            oraclePrice: market.oraclePrice,
+          },
+        });
+      }
+
+      for (const perp of user.perpPositions) {
+        const oraclePrice = perpPrices.get(perp.marketIndex) ?? 0;
+        const symbol = `${PERP_MARKET_SYMBOLS[perp.marketIndex] || `PERP${perp.marketIndex}`}-PERP`;
+        const baseAmount = Number(perp.baseAssetAmount) / BASE_PRECISION;
+        const quoteAmount = Number(perp.quoteAssetAmount) / QUOTE_PRECISION;
+        const side = baseAmount > 0 ? 'long' : 'short';
+        const unrealizedPnl = baseAmount * oraclePrice + quoteAmount;
+        const entryPrice = baseAmount !== 0
+          ? Math.abs(Number(perp.quoteEntryAmount) / QUOTE_PRECISION / baseAmount)
+          : 0;
+
+        // Funding APY is quoted for the receiving side; the payer earns the negative
+        const funding = rates.find(r => r.asset === symbol);
+        const fundingSide = typeof funding?.metadata?.side === 'string' ? funding.metadata.side : undefined;
+        const fundingApy = funding ? (fundingSide === side ? Math.abs(funding.apy) : -Math.abs(funding.apy)) : 0;
+
+        positions.push({
+          protocol: 'drift',
+          asset: symbol,
+          amount: Math.abs(baseAmount),
+          valueUsd: unrealizedPnl,
+          currentApy: fundingApy,
+          entryTime,
+          metadata: {
+            type: 'funding',
+            side,
+            marketIndex: perp.marketIndex,
+            subAccountId: user.subAccountId,
+            userAccount: user.address.toBase58(),
+            oraclePrice,
+            entryPrice,
+            notionalUsd: Math.abs(baseAmount) * oraclePrice,
+            unrealizedPnl,
+          },
+        });
+      }
+    }
+
+    return positions;
+  }
+
+  /**
+   * Fetch and decode spot market accounts by market index
+   */
+  private async getSpotMarkets(marketIndexes: number[]): Promise<Map<number, DriftSpotMarket>> {
+    const markets = new Map<number, DriftSpotMarket>();
+    if (marketIndexes.length === 0) return markets;
+
+    const infos = await this.connection.getMultipleAccountsInfo(
+      marketIndexes.map(i => getDriftMarketAddress('spot_market', i))
+    );
+
+    infos.forEach((info, i) => {
+      if (info) markets.set(marketIndexes[i], decodeSpotMarket(marketIndexes[i], info.data));
+    });
+
+    return markets;
+  }
+
+  /**
+   * Last oracle price recorded on each perp market
+   */
+  private async getPerpOraclePrices(marketIndexes: number[]): Promise<Map<number, number>> {
+    const prices = new Map<number, number>();
+    if (marketIndexes.length === 0) return prices;
+
+    const infos = await this.connection.getMultipleAccountsInfo(
+      marketIndexes.map(i => getDriftMarketAddress('perp_market', i))
+    );
+
+    infos.forEach((info, i) => {
+      if (info) {
+        prices.set(marketIndexes[i], decodePerpMarket(marketIndexes[i], info.data).oraclePrice);
+      }
+    });
+
+    return prices;
+  }
+
+  // ============================================================================
+  // Instruction Builders
+  // ============================================================================
+
+  /**
+   * Deposit into a spot market from the wallet's token account, creating the
+   * Drift user (sub-account 0 unless metadata.subAccountId is set) if needed
+   */
+  async buildDeposit(params: AdapterInstructionParams): Promise<TransactionInstruction[]> {
+    const authority = params.wallet;
+    const market = await this.resolveSpotMarket(params);
+    const subAccountId = Number(params.metadata?.subAccountId ?? 0);
+    const user = getDriftUserAddress(authority, subAccountId);
+    const userStats = getDriftUserStatsAddress(authority);
+    const amount = uiToBaseUnits(params.amount, market.decimals);
+    const isSol = market.mint.equals(NATIVE_MINT);
+
+    const [tokenProgram, userInfo, statsInfo] = await Promise.all([
+      this.getTokenProgram(market.mint),
+      this.connection.getAccountInfo(user),
+      this.connection.getAccountInfo(userStats),
+    ]);
+    const userTokenAccount = getAssociatedTokenAddress(authority, market.mint, tokenProgram);
+
+    const instructions: TransactionInstruction[] = [];
+    if (!statsInfo) {
+      instructions.push(buildInitializeUserStatsInstruction(authority));
+    }
+    if (!userInfo) {
+      instructions.push(buildInitializeUserInstruction(authority, subAccountId));
+    }
+    if (isSol) {
+      instructions.push(...buildWrapSolInstructions(authority, amount));
+    }
+
+    const remainingAccounts = await this.getRemainingAccounts(
+      userInfo ? decodeUserAccount(user, subAccountId, userInfo.data) : null,
+      market
+    );
+
+    instructions.push(new TransactionInstruction({
+      programId: DRIFT_PROGRAM_ID,
+      keys: [
+        { pubkey: getDriftStateAddress(), isSigner: false, isWritable: false },
+        { pubkey: user, isSigner: false, isWritable: true },
+        { pubkey: userStats, isSigner: false, isWritable: true },
+        { pubkey: authority, isSigner: true, isWritable: false },
+        { pubkey: market.vault, isSigner: false, isWritable: true },
+        { pubkey: userTokenAccount, isSigner: false, isWritable: true },
+        { pubkey: tokenProgram, isSigner: false, isWritable: false },
+        ...remainingAccounts,
+      ],
+      data: Buffer.concat([
+        anchorDiscriminator('deposit'),
+        encodeU16(market.marketIndex),
+        encodeU64(amount),
+        encodeBool(false),
+      ]),
+    }));
+
+    if (isSol) {
+      instructions.push(createCloseAccountInstruction(userTokenAccount, authority, authority));
+    }
+
+    return instructions;
+  }
+
+  /**
+   * Withdraw from a spot market. reduce_only keeps an oversized request from
+   * opening a borrow; Drift caps it at the deposit instead.
+   */
+  async buildWithdraw(params: AdapterInstructionParams): Promise<TransactionInstruction[]> {
+    const authority = params.wallet;
+    const market = await this.resolveSpotMarket(params);
+    const subAccountId = Number(params.metadata?.subAccountId ?? 0);
+    const user = getDriftUserAddress(authority, subAccountId);
+    const amount = uiToBaseUnits(params.amount, market.decimals);
+    const isSol = market.mint.equals(NATIVE_MINT);
+
+    const [tokenProgram, userInfo] = await Promise.all([
+      this.getTokenProgram(market.mint),
+      this.connection.getAccountInfo(user),
+    ]);
+    if (!userInfo) {
+      throw new Error(`No Drift user account for sub-account ${subAccountId}`);
+    }
+    const userTokenAccount = getAssociatedTokenAddress(authority, market.mint, tokenProgram);
+
+    const remainingAccounts = await this.getRemainingAccounts(
+      decodeUserAccount(user, subAccountId, userInfo.data),
+      market
+    );
+
+    const instructions: TransactionInstruction[] = [
+      createAssociatedTokenAccountIdempotentInstruction(authority, authority, market.mint, tokenProgram),
+      new TransactionInstruction({
+        programId: DRIFT_PROGRAM_ID,
+        keys: [
+          { pubkey: getDriftStateAddress(), isSigner: false, isWritable: false },
+          { pubkey: user, isSigner: false, isWritable: true },
+          { pubkey: getDriftUserStatsAddress(authority), isSigner: false, isWritable: true },
+          { pubkey: authority, isSigner: true, isWritable: false },
+          { pubkey: market.vault, isSigner: false, isWritable: true },
+          { pubkey: getDriftSignerAddress(), isSigner: false, isWritable: false },
+          { pubkey: userTokenAccount, isSigner: false, isWritable: true },
+          { pubkey: tokenProgram, isSigner: false, isWritable: false },
+          ...remainingAccounts,
+        ],
+        data: Buffer.concat([
+          anchorDiscriminator('withdraw'),
+          encodeU16(market.marketIndex),
+          encodeU64(amount),
+          encodeBool(true),
+        ]),
+      }),
+    ];
+
+    if (isSol) {
+      instructions.push(createCloseAccountInstruction(userTokenAccount, authority, authority));
+    }
+
+    return instructions;
+  }
+
+  /**
+   * Spot market from metadata.marketIndex, or by scanning markets for the asset symbol
+   */
+  private async resolveSpotMarket(params: AdapterInstructionParams): Promise<DriftSpotMarket> {
+    const index = params.metadata?.marketIndex;
+    if (typeof index === 'number') {
+      const market = (await this.getSpotMarkets([index])).get(index);
+      if (!market) throw new Error(`Drift spot market ${index} not found`);
+      return market;
+    }
+
+    const markets = await this.getSpotMarkets(
+      Array.from({ length: MAX_SPOT_MARKET_SCAN }, (_, i) => i)
+    );
+    const market = [...markets.values()]
+      .find(m => m.symbol.toUpperCase() === params.asset.toUpperCase());
+    if (!market) throw new Error(`No Drift spot market for ${params.asset}`);
+    return market;
+  }
+
+  /**
+   * Oracles, then spot markets, then perp markets for everything the user
+   * holds plus the target market, in the order Drift's account loader expects
+   */
+  private async getRemainingAccounts(
+    user: DriftUserAccount | null,
+    target: DriftSpotMarket
+  ): Promise<AccountMeta[]> {
+    const spotIndexes = new Set([0, target.marketIndex, ...(user?.spotPositions.map(p => p.marketIndex) ?? [])]);
+    const perpIndexes = [...new Set(user?.perpPositions.map(p => p.marketIndex) ?? [])];
+
+    const spotMarkets = await this.getSpotMarkets([...spotIndexes]);
+    const perpInfos = perpIndexes.length > 0
+      ? await this.connection.getMultipleAccountsInfo(perpIndexes.map(i => getDriftMarketAddress('perp_market', i)))
+      : [];
+
+    const oracles = new Map<string, PublicKey>();
+    for (const market of spotMarkets.values()) {
+      oracles.set(market.oracle.toBase58(), market.oracle);
+    }
+    perpInfos.forEach(info => {
+      if (!info) return;
+      const oracle = new PublicKey(info.data.subarray(PERP_MARKET_ORACLE_OFFSET, PERP_MARKET_ORACLE_OFFSET + 32));
+      oracles.set(oracle.toBase58(), oracle);
+    });
+
+    return [
+      ...[...oracles.values()].map(pubkey => ({ pubkey, isSigner: false, isWritable: false })),
+      ...[...spotMarkets.keys()].map(index => ({
+        pubkey: getDriftMarketAddress('spot_market', index),
+        isSigner: false,
+        isWritable: index === target.marketIndex,
+      })),
+      ...perpIndexes.map(index => ({
+        pubkey: getDriftMarketAddress('perp_market', index),
+        isSigner: false,
+        isWritable: false,
+      })),
+    ];
+  }
+
+  private async getTokenProgram(mint: PublicKey): Promise<PublicKey> {
+    const info = await this.connection.getAccountInfo(mint);
+    if (!info) throw new Error(`Mint not found: ${mint.toBase58()}`);
+    return info.owner;
   }
 
   private getFallbackYields(): YieldOpportunity[] {
     return [
-      { protocol: 'drift', asset: 'USDC', apy: 6.2, tvl: 40000000, risk: 'medium' },
-      { protocol: 'drift', asset: 'SOL', apy: 4.8, tvl: 25000000, risk: 'medium' },
+      { protocol: 'drift', asset: 'USDC', apy: 6.2, tvl: 40000000, risk: 'medium', metadata: { source: 'estimated' } },
+      { protocol: 'drift', asset: 'SOL', apy: 4.8, tvl: 25000000, risk: 'medium', metadata: { source: 'estimated' } },
     ];
   }
 }
+
+// ============================================================================
+// Account Decoding
+// ============================================================================
+
+export function getDriftMarketAddress(seed: 'spot_market' | 'perp_market', marketIndex: number): PublicKey {
+  const index = Buffer.alloc(2);
+  index.writeUInt16LE(marketIndex);
+  return PublicKey.findProgramAddressSync([Buffer.from(seed), index], DRIFT_PROGRAM_ID)[0];
+}
+
+export function getDriftUserAddress(authority: PublicKey, subAccountId: number): PublicKey {
+  const id = Buffer.alloc(2);
+  id.writeUInt16LE(subAccountId);
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('user'), authority.toBuffer(), id],
+    DRIFT_PROGRAM_ID
+  )[0];
+}
+
+export function getDriftUserStatsAddress(authority: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('user_stats'), authority.toBuffer()],
+    DRIFT_PROGRAM_ID
+  )[0];
+}
+
+function getDriftStateAddress(): PublicKey {
+  return PublicKey.findProgramAddressSync([Buffer.from('drift_state')], DRIFT_PROGRAM_ID)[0];
+}
+
+function getDriftSignerAddress(): PublicKey {
+  return PublicKey.findProgramAddressSync([Buffer.from('drift_signer')], DRIFT_PROGRAM_ID)[0];
+}
+
+function buildInitializeUserStatsInstruction(authority: PublicKey): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: DRIFT_PROGRAM_ID,
+    keys: [
+      { pubkey: getDriftUserStatsAddress(authority), isSigner: false, isWritable: true },
+      { pubkey: getDriftStateAddress(), isSigner: false, isWritable: true },
+      { pubkey: authority, isSigner: true, isWritable: false },
+      { pubkey: authority, isSigner: true, isWritable: true },
+      { pubkey: SYSVAR_RENT_PUBKEY, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    data: anchorDiscriminator('initialize_user_stats'),
+  });
+}
+
+function buildInitializeUserInstruction(authority: PublicKey, subAccountId: number): TransactionInstruction {
+  const name = Buffer.alloc(32, ' ');
+  name.write(subAccountId === 0 ? 'Main Account' : `Subaccount ${subAccountId + 1}`);
+
+  return new TransactionInstruction({
+    programId: DRIFT_PROGRAM_ID,
+    keys: [
+      { pubkey: getDriftUserAddress(authority, subAccountId), isSigner: false, isWritable: true },
+      { pubkey: getDriftUserStatsAddress(authority), isSigner: false, isWritable: true },
+      { pubkey: getDriftStateAddress(), isSigner: false, isWritable: true },
+      { pubkey: authority, isSigner: true, isWritable: false },
+      { pubkey: authority, isSigner: true, isWritable: true },
+      { pubkey: SYSVAR_RENT_PUBKEY, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.concat([anchorDiscriminator('initialize_user'), encodeU16(subAccountId), name]),
+  });
+}
+
+/**
+ * Map user account addresses back to sub-account ids by re-deriving the PDAs
+ */
+function resolveSubAccountIds(authority: PublicKey, addresses: PublicKey[]): Map<string, number> {
+  const wanted = new Set(addresses.map(a => a.toBase58()));
+  const ids = new Map<string, number>();
+
+  for (let id = 0; id < MAX_SUB_ACCOUNTS && ids.size < wanted.size; id++) {
+    const address = getDriftUserAddress(authority, id).toBase58();
+    if (wanted.has(address)) ids.set(address, id);
+  }
+
+  return ids;
+}
+
+function decodeUserAccount(address: PublicKey, subAccountId: number, data: Buffer): DriftUserAccount {
+  const spotPositions: DriftUserAccount['spotPositions'] = [];
+  const perpPositions: DriftUserAccount['perpPositions'] = [];
+
+  for (let i = 0; i < MAX_SPOT_POSITIONS; i++) {
+    // scaledBalance u64 | openBids i64 | openAsks i64 | cumulativeDeposits i64 |
+    // marketIndex u16 | balanceType u8 | openOrders u8
+    const offset = USER_SPOT_POSITIONS_OFFSET + i * SPOT_POSITION_SIZE;
+    const scaledBalance = data.readBigUInt64LE(offset);
+    if (scaledBalance === 0n) continue;
+
+    spotPositions.push({
+      scaledBalance,
+      marketIndex: data.readUInt16LE(offset + 32),
+      isBorrow: data.readUInt8(offset + 34) === 1,
+    });
+  }
+
+  for (let i = 0; i < MAX_PERP_POSITIONS; i++) {
+    // lastCumulativeFundingRate i64 | baseAssetAmount i64 | quoteAssetAmount i64 |
+    // quoteBreakEvenAmount i64 | quoteEntryAmount i64 | ... | marketIndex u16 @ 92
+    const offset = USER_PERP_POSITIONS_OFFSET + i * PERP_POSITION_SIZE;
+    const baseAssetAmount = data.readBigInt64LE(offset + 8);
+    if (baseAssetAmount === 0n) continue;
+
+    perpPositions.push({
+      baseAssetAmount,
+      quoteAssetAmount: data.readBigInt64LE(offset + 16),
+      quoteEntryAmount: data.readBigInt64LE(offset + 32),
+      marketIndex: data.readUInt16LE(offset + 92),
+    });
+  }
+
+  return { address, subAccountId, spotPositions, perpPositions };
+}
+
+export function decodeSpotMarket(marketIndex: number, data: Buffer): DriftSpotMarket {
+  return {
+    marketIndex,
+    symbol: decodeName(data.subarray(SPOT_MARKET_NAME_OFFSET, SPOT_MARKET_NAME_OFFSET + 32)),
+    oracle: new PublicKey(data.subarray(SPOT_MARKET_ORACLE_OFFSET, SPOT_MARKET_ORACLE_OFFSET + 32)),
+    mint: new PublicKey(data.subarray(SPOT_MARKET_MINT_OFFSET, SPOT_MARKET_MINT_OFFSET + 32)),
+    vault: new PublicKey(data.subarray(SPOT_MARKET_VAULT_OFFSET, SPOT_MARKET_VAULT_OFFSET + 32)),
+    oraclePrice: Number(data.readBigInt64LE(SPOT_MARKET_ORACLE_PRICE_OFFSET)) / PRICE_PRECISION,
+    decimals: data.readUInt32LE(SPOT_MARKET_DECIMALS_OFFSET),
+    cumulativeDepositInterest: readU128LE(data, SPOT_MARKET_DEPOSIT_INTEREST_OFFSET),
+    cumulativeBorrowInterest: readU128LE(data, SPOT_MARKET_BORROW_INTEREST_OFFSET),
+  };
+}
+
+/**
+ * Funding rates are stored as quote per base; divide by the oracle TWAP to
+ * get a percentage of notional per funding period.
+ */
+export function decodePerpMarket(marketIndex: number, data: Buffer): DriftPerpMarket {
+  const oracleTwap = Number(data.readBigInt64LE(PERP_MARKET_ORACLE_TWAP_OFFSET)) / PRICE_PRECISION;
+  const toPct = (raw: bigint) => oracleTwap > 0 ? (Number(raw) / FUNDING_RATE_PRECISION / oracleTwap) * 100 : 0;
+
+  return {
+    marketIndex,
+    symbol: `${PERP_MARKET_SYMBOLS[marketIndex] || `PERP${marketIndex}`}-PERP`,
+    oraclePrice: Number(data.readBigInt64LE(PERP_MARKET_ORACLE_PRICE_OFFSET)) / PRICE_PRECISION,
+    oracleTwap,
+    markTwap: Number(data.readBigUInt64LE(PERP_MARKET_MARK_TWAP_OFFSET)) / PRICE_PRECISION,
+    lastFundingRate: toPct(data.readBigInt64LE(PERP_MARKET_LAST_FUNDING_RATE_OFFSET)),
+    avgFundingRate24h: toPct(data.readBigInt64LE(PERP_MARKET_AVG_FUNDING_RATE_OFFSET)),
+    fundingPeriodSeconds: Number(data.readBigInt64LE(PERP_MARKET_FUNDING_PERIOD_OFFSET)),
+    lastFundingTime: Number(data.readBigInt64LE(PERP_MARKET_LAST_FUNDING_TS_OFFSET)) * 1000,
+    openInterestLong: Number(readI128LE(data, PERP_MARKET_BASE_LONG_OFFSET)) / BASE_PRECISION,
+    openInterestShort: Math.abs(Number(readI128LE(data, PERP_MARKET_BASE_SHORT_OFFSET))) / BASE_PRECISION,
+  };
+}
+
+function spotTokenAmount(scaledBalance: bigint, cumulativeInterest: bigint, decimals: number): number {
+  const precisionDecrease = 10n ** BigInt(SPOT_TOKEN_AMOUNT_PRECISION_EXP - decimals);
+  const baseUnits = (scaledBalance * cumulativeInterest) / precisionDecrease;
+  return Number(baseUnits) / 10 ** decimals;
+}
+
+function decodeName(bytes: Buffer): string {
+  return bytes.toString('utf8').replace(/\0/g, '').trim();
+}
@@ -1,15 +1,48 @@
 import { Connection, PublicKey } from '@solana/web3.js';
-import { YieldOpportunity, Position } from '../types';
+import { YieldOpportunity, Position, ProtocolAdapter, ProtocolAdapterMetadata } from '../types';
+import { cachedFetchJson } from '../lib/fetch-cache';
+import { PERP_MARKET_SYMBOLS, DriftPerpMarket, decodePerpMarket, getDriftMarketAddress } from './drift';
+
+const DRIFT_DATA_API = 'https://data.api.drift.trade';
+
+const HOURS_PER_YEAR = 365 * 24;
+const HISTORY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const RECENT_HISTORY_SAMPLES = 24;
+const MIN_ANNUALIZED_RATE = 0.1; // % APY
+
+export interface FundingSample {
+  time: number;       // Unix ms
+  ratePct: number;    // % of notional per funding period
+}
+
+export interface FundingHistoryStats {
+  samples: number;
+  avgRate24h: number;         // % per period
+  avgRate7d: number;          // % per period
+  persistence: number;        // Share of samples with the same sign as the 24h average (0-1)
+}
 
 /**
  * FundingRateAdapter - Aggregates funding rate opportunities from Solana perps protocols
  * 
  * Funding rates are periodic payments between longs and shorts in perpetual contracts.
- * When funding is positive, shorts pay longs. When negative, longs pay shorts.
+ * When funding is positive, longs pay shorts. When negative, shorts pay longs.
  * Annualized funding rates can be significant yield opportunities.
+ *
+ * Drift rates are read straight from the perp market accounts. Each market keeps
+ * a rolling history (seeded from Drift's data API, then extended with every
+ * on-chain read) so callers can see whether a rate has persisted.
  */
-export class FundingRateAdapter {
+export class FundingRateAdapter implements ProtocolAdapter {
+  readonly metadata: ProtocolAdapterMetadata = {
+    id: 'funding',
+    name: 'Perp Funding Rates',
+    protocols: ['drift'],
+    riskProfileId: 'drift',
+  };
+
   private connection: Connection;
+  private history = new Map<string, FundingSample[]>();
 
   constructor(connection: Connection) {
     this.connection = connection;
@@ -35,21 +68,140 @@ export class FundingRateAdapter {
     return opportunities;
   }
 
+  /**
+   * Rolling funding history for a market (e.g. "drift:SOL-PERP"), oldest first
+   */
+  getFundingHistory(key: string): FundingSample[] {
+    return [...(this.history.get(key) || [])];
+  }
+
+  getFundingStats(key: string): FundingHistoryStats {
+    const samples = this.history.get(key) || [];
+    const now = Date.now();
+    const last24h = samples.filter(s => s.time >= now - 24 * 60 * 60 * 1000);
+    const avgRate24h = average(last24h.map(s => s.ratePct));
+    const sign = Math.sign(avgRate24h);
+
+    return {
+      samples: samples.length,
+      avgRate24h,
+      avgRate7d: average(samples.map(s => s.ratePct)),
+      persistence: samples.length > 0 && sign !== 0
+        ? samples.filter(s => Math.sign(s.ratePct) === sign).length / samples.length
+        : 0,
+    };
+  }
+
   private async getDriftFundingRates(): Promise<YieldOpportunity[]> {
     try {
-      // Drift's on-chain program derives funding rates
-      // For now, using estimated fallback data
-      // TODO: Integrate Drift SDK for real-time on-chain funding data
-      return this.getDriftFallback();
+      const markets = await this.getDriftPerpMarkets();
+      const opportunities: YieldOpportunity[] = [];
+
+      for (const market of markets) {
+        const key = `drift:${market.symbol}`;
+        await this.seedDriftHistory(key, market.symbol);
+        this.recordSample(key, { time: market.lastFundingTime, ratePct: market.lastFundingRate });
+
+        const intervalHours = market.fundingPeriodSeconds / 3600 || 1;
+        const periodsPerYear = HOURS_PER_YEAR / intervalHours;
+        const annualizedRate = market.avgFundingRate24h * periodsPerYear;
+        if (Math.abs(annualizedRate) < MIN_ANNUALIZED_RATE) continue;
+
+        const stats = this.getFundingStats(key);
+
+        opportunities.push({
+          protocol: 'drift',
+          asset: market.symbol,
+          apy: Math.abs(annualizedRate),
+          tvl: (market.openInterestLong + market.openInterestShort) * market.oraclePrice,
+          risk: 'high',
+          metadata: {
+            type: 'funding',
+            marketIndex: market.marketIndex,
+            side: annualizedRate > 0 ? 'short' : 'long', // Positive = longs pay shorts
+            fundingRate: market.lastFundingRate,
+            fundingRate24hAvg: market.avgFundingRate24h,
+            fundingIntervalHours: intervalHours,
+            lastFundingTime: market.lastFundingTime,
+            markTwap: market.markTwap,
+            oracleTwap: market.oracleTwap,
+            oraclePrice: market.oraclePrice,
+            fundingStats: stats,
+            fundingHistory: this.getFundingHistory(key).slice(-RECENT_HISTORY_SAMPLES),
+            source: 'onchain',
+          },
+        });
+      }
+
+      return opportunities.sort((a, b) => b.tvl - a.tvl);
     } catch (err) {
       console.warn('Drift funding fetch failed:', err);
       return this.getDriftFallback();
     }
   }
 
+  private async getDriftPerpMarkets(): Promise<DriftPerpMarket[]> {
+    const indexes = Object.keys(PERP_MARKET_SYMBOLS).map(Number);
+    const infos = await this.connection.getMultipleAccountsInfo(
+      indexes.map(i => getDriftMarketAddress('perp_market', i))
+    );
+
+    const markets: DriftPerpMarket[] = [];
+    infos.forEach((info, i) => {
+      if (info) markets.push(decodePerpMarket(indexes[i], info.data));
+    });
+
+    if (markets.length === 0) {
+      throw new Error('No Drift perp market accounts found');
+    }
+    return markets;
+  }
+
+  /**
+   * Backfill a market's history from Drift's data API the first time it is seen
+   */
+  private async seedDriftHistory(key: string, marketName: string): Promise<void> {
+    if (this.history.has(key)) return;
+    this.history.set(key, []);
+
+    try {
+      const data = await cachedFetchJson(
+        'protocol-api',
+        `${DRIFT_DATA_API}/fundingRates?marketName=${encodeURIComponent(marketName)}`
+      );
+
+      for (const record of data.fundingRates || []) {
+        const oracleTwap = Number(record.oraclePriceTwap) / 1e6;
+        if (!(oracleTwap > 0)) continue;
+
+        this.recordSample(key, {
+          time: Number(record.ts) * 1000,
+          ratePct: (Number(record.fundingRate) / 1e9 / oracleTwap) * 100,
+        });
+      }
+    } catch (err) {
+      console.warn(`Drift funding history unavailable for ${marketName}:`, err);
+    }
+  }
+
+  private recordSample(key: string, sample: FundingSample): void {
+    if (!sample.time || !Number.isFinite(sample.ratePct)) return;
+
+    const samples = this.history.get(key) || [];
+    if (samples.some(s => s.time === sample.time)) return;
+
+    samples.push(sample);
+    samples.sort((a, b) => a.time - b.time);
+
+    const cutoff = Date.now() - HISTORY_WINDOW_MS;
+    this.history.set(key, samples.filter(s => s.time >= cutoff));
+  }
+
   private async getOtherFundingRates(): Promise<YieldOpportunity[]> {
-    // Placeholder for other perp protocols (Mango, Zeta, etc.)
-    // TODO: Add more Solana perps protocols
+    // Jupiter Perps has no long/short funding: traders pay a utilization-based
+    // borrow fee to the JLP pool, which is already captured by the JLP token.
+    // Zeta's perps moved off Solana L1 to its own rollup, so there are no
+    // market accounts to read here. Add new venues as they expose on-chain funding.
     return [];
   }
 
@@ -79,6 +231,7 @@ export class FundingRateAdapter {
         metadata: {
           type: 'funding',
           fundingRate8h: 0.0112,
+          fundingIntervalHours: 8,
           side: 'short',
           source: 'estimated',
         },
@@ -92,6 +245,7 @@ export class FundingRateAdapter {
         metadata: {
           type: 'funding',
           fundingRate8h: 0.009,
+          fundingIntervalHours: 8,
           side: 'short',
           source: 'estimated',
         },
@@ -100,8 +254,11 @@ export class FundingRateAdapter {
   }
 
   async getPositions(wallet: PublicKey): Promise<Position[]> {
-    // Funding positions would require checking on-chain perp accounts
-    // Not implemented yet - requires Drift SDK integration
+    // Open perp positions are decoded by DriftAdapter.getPositions
     return [];
   }
 }
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
@@ -1,7 +1,24 @@
-import { Connection, PublicKey } from '@solana/web3.js';
-import { YieldOpportunity, Position } from '../types';
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import {
+  YieldOpportunity,
+  Position,
+  ProtocolAdapter,
+  ProtocolAdapterMetadata,
+  AdapterInstructionParams,
+} from '../types';
+import { LST_POOLS, StakePoolFees, getLstPositions, getStakePoolFees, buildStakePoolDepositSol } from '../lib/lst';
+import { getTokenRegistry } from '../lib/tokens';
+import { dataFetch } from '../lib/data-source';
+
+export class JitoAdapter implements ProtocolAdapter {
+  readonly metadata: ProtocolAdapterMetadata = {
+    id: 'jito',
+    name: 'Jito',
+    riskProfileId: 'jito',
+    types: ['staking'],
+    depositAsset: 'SOL',
+  };
 
-export class JitoAdapter {
   private connection: Connection;
 
   constructor(connection: Connection) {
@@ -11,9 +28,12 @@ export class JitoAdapter {
   async getYields(): Promise<YieldOpportunity[]> {
     try {
       // Jito staking APY from their API
-      const response = await fetch('https://jito.network/api/stats');
+      const response = await dataFetch('https://jito.network/api/stats');
       const data = await response.json();
-      
+      const pool = LST_POOLS.find(p => p.protocol === 'jito')!;
+      const fees = await getStakePoolFees(this.connection, [pool.pool])
+        .catch((): Map<string, StakePoolFees> => new Map());
+
       return [{
         protocol: 'jito',
         asset: 'JitoSOL',
@@ -23,6 +43,7 @@ export class JitoAdapter {
         metadata: {
           validatorCount: data.validatorCount,
           mevRewards: data.mevApy,
+          ...fees.get(pool.pool),
         },
       }];
     } catch (err) {
@@ -30,13 +51,32 @@ export class JitoAdapter {
     }
   }
 
+  /**
+   * JitoSOL held in the wallet, valued at the pool's SOL exchange rate
+   */
   async getPositions(wallet: PublicKey): Promise<Position[]> {
-    return [];
+    const yields = await this.getYields();
+    const apyBySymbol = Object.fromEntries(yields.map(y => [y.asset, y.apy]));
+    return getLstPositions(
+      this.connection,
+      wallet,
+      LST_POOLS.filter(p => p.protocol === 'jito'),
+      apyBySymbol
+    );
+  }
+
+  /**
+   * Stake SOL (params.amount, in SOL) into the JitoSOL stake pool
+   */
+  async buildDeposit(params: AdapterInstructionParams): Promise<TransactionInstruction[]> {
+    const pool = LST_POOLS.find(p => p.protocol === 'jito')!;
+    const lamports = getTokenRegistry().toBaseUnits('SOL', params.amount);
+    return buildStakePoolDepositSol(this.connection, pool, params.wallet, lamports);
   }
 
   private getFallbackYields(): YieldOpportunity[] {
     return [
-      { protocol: 'jito', asset: 'JitoSOL', apy: 7.8, tvl: 120000000, risk: 'low' },
+      { protocol: 'jito', asset: 'JitoSOL', apy: 7.8, tvl: 120000000, risk: 'low', metadata: { source: 'estimated' } },
     ];
   }
 }
@@ -1,5 +1,14 @@
-import { Connection, PublicKey } from '@solana/web3.js';
-import { YieldOpportunity, Position } from '../types';
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import {
+  YieldOpportunity,
+  Position,
+  ProtocolAdapter,
+  ProtocolAdapterMetadata,
+  AdapterInstructionParams,
+} from '../types';
+import { getTokenRegistry } from '../lib/tokens';
+import { instructionsFromSerializedTransaction } from '../lib/instructions';
+import { dataFetch } from '../lib/data-source';
 
 const LULO_API = 'https://api.lulo.fi/v1';
 const LULO_API_KEY = process.env.LULO_API_KEY; // Get from dev.lulo.fi
@@ -14,8 +23,17 @@ const LULO_API_KEY = process.env.LULO_API_KEY; // Get from dev.lulo.fi
  * - Sign up at https://dev.lulo.fi
  * - Get API key and set LULO_API_KEY env variable
  * - API requires 'x-api-key' header for authentication
+ *
+ * Lulo's programs aren't public, so deposits and withdrawals use the
+ * transactions its API generates, decompiled back into instructions.
  */
-export class LuloAdapter {
+export class LuloAdapter implements ProtocolAdapter {
+  readonly metadata: ProtocolAdapterMetadata = {
+    id: 'lulo',
+    name: 'Lulo Finance',
+    types: ['lending'],
+  };
+
   private connection: Connection;
 
   constructor(connection: Connection) {
@@ -30,7 +48,7 @@ export class LuloAdapter {
 
     try {
       // Fetch Lulo yield data
-      const response = await fetch(`${LULO_API}/flex-lending/stats`, {
+      const response = await dataFetch(`${LULO_API}/flex-lending/stats`, {
         headers: {
           'x-api-key': LULO_API_KEY,
           'Content-Type': 'application/json',
@@ -56,6 +74,53 @@ export class LuloAdapter {
     return [];
   }
 
+  async buildDeposit(params: AdapterInstructionParams): Promise<TransactionInstruction[]> {
+    return this.generateInstructions('generate.transactions.deposit', {
+      owner: params.wallet.toBase58(),
+      mintAddress: getTokenRegistry().require(params.asset).mint,
+      depositAmount: params.amount,
+    });
+  }
+
+  async buildWithdraw(params: AdapterInstructionParams): Promise<TransactionInstruction[]> {
+    return this.generateInstructions('generate.transactions.withdraw', {
+      owner: params.wallet.toBase58(),
+      mintAddress: getTokenRegistry().require(params.asset).mint,
+      withdrawAmount: params.amount,
+      withdrawAll: params.metadata?.withdrawAll === true,
+    });
+  }
+
+  private async generateInstructions(
+    endpoint: string,
+    body: Record<string, unknown>
+  ): Promise<TransactionInstruction[]> {
+    if (!LULO_API_KEY) {
+      throw new Error('Lulo API key not configured (get from dev.lulo.fi)');
+    }
+
+    const response = await dataFetch(`${LULO_API}/${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'x-api-key': LULO_API_KEY,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Lulo API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const transaction = data.transaction ?? data.data?.transactionMeta?.[0]?.transaction;
+    if (!transaction) {
+      throw new Error(`Lulo ${endpoint} returned no transaction`);
+    }
+
+    return instructionsFromSerializedTransaction(this.connection, transaction);
+  }
+
   private parseYields(data: any): YieldOpportunity[] {
     // Parse actual API response structure
     // Structure TBD based on API documentation at dev.lulo.fi
@@ -100,6 +165,7 @@ export class LuloAdapter {
         tvl: 75000000,
         risk: 'low',
         metadata: {
+          source: 'estimated',
           underlying: ['Kamino', 'Drift', 'MarginFi'],
           note: 'Auto-rebalanced across integrated protocols',
         },
@@ -111,6 +177,7 @@ export class LuloAdapter {
         tvl: 45000000,
         risk: 'low',
         metadata: {
+          source: 'estimated',
           underlying: ['Kamino', 'MarginFi'],
         },
       },
@@ -121,6 +188,7 @@ export class LuloAdapter {
         tvl: 30000000,
         risk: 'medium',
         metadata: {
+          source: 'estimated',
           underlying: ['Kamino', 'Drift'],
         },
       },
@@ -131,6 +199,7 @@ export class LuloAdapter {
         tvl: 20000000,
         risk: 'medium',
         metadata: {
+          source: 'estimated',
           underlying: ['Kamino'],
         },
       },
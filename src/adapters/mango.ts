@@ -1,12 +1,18 @@
 import { Connection, PublicKey } from '@solana/web3.js';
-import { YieldOpportunity, Position } from '../types';
+import { YieldOpportunity, Position, ProtocolAdapter, ProtocolAdapterMetadata } from '../types';
 
 /**
  * Mango Markets adapter
  * Note: Mango Markets was exploited in Oct 2022 ($115M). Protocol appears deprecated.
  * Keeping this integration for historical reference and potential future relaunch.
  */
-export class MangoAdapter {
+export class MangoAdapter implements ProtocolAdapter {
+  readonly metadata: ProtocolAdapterMetadata = {
+    id: 'mango',
+    name: 'Mango Markets',
+    riskProfileId: 'mango',
+  };
+
   private connection: Connection;
 
   constructor(connection: Connection) {
@@ -1,7 +1,41 @@
-import { Connection, PublicKey } from '@solana/web3.js';
-import { YieldOpportunity, Position } from '../types';
+import { Connection, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import {
+  YieldOpportunity,
+  Position,
+  ProtocolAdapter,
+  ProtocolAdapterMetadata,
+  AdapterInstructionParams,
+} from '../types';
+import { LST_POOLS, getLstPositions } from '../lib/lst';
+import { getTokenRegistry } from '../lib/tokens';
+import {
+  getAssociatedTokenAddress,
+  createAssociatedTokenAccountIdempotentInstruction,
+  TOKEN_PROGRAM_ID,
+} from '../lib/spl';
+import { anchorDiscriminator, encodeU64 } from '../lib/instructions';
+import { getProgramId } from '../lib/cluster';
+import { dataFetch } from '../lib/data-source';
+
+export const MARINADE_PROGRAM_ID = getProgramId('marinade', 'MarBmsSgKXdrN1egZf5sqe1TMai9K1rChYNDJgjq7aD');
+
+// State account layout
+const STATE_MSOL_MINT_OFFSET = 8;
+const STATE_LIQ_POOL_MSOL_LEG_OFFSET = 420;   // liqPool.msolLeg
+
+// Delayed unstake is free but pays out once the stake deactivates, one to two epochs
+const EXIT_TERMS = { entryFeeBps: 0, exitFeeBps: 0, exitDelayDays: 3 };
+
+export class MarinadeAdapter implements ProtocolAdapter {
+  readonly metadata: ProtocolAdapterMetadata = {
+    id: 'marinade',
+    name: 'Marinade Finance',
+    riskProfileId: 'marinade',
+    types: ['staking'],
+    depositAsset: 'SOL',
+    ...EXIT_TERMS,
+  };
 
-export class MarinadeAdapter {
   private connection: Connection;
 
   constructor(connection: Connection) {
@@ -10,7 +44,7 @@ export class MarinadeAdapter {
 
   async getYields(): Promise<YieldOpportunity[]> {
     try {
-      const response = await fetch('https://api.marinade.finance/tlv');
+      const response = await dataFetch('https://api.marinade.finance/tlv');
       const data = await response.json();
       
       return [{
@@ -21,6 +55,7 @@ export class MarinadeAdapter {
         risk: 'low',
         metadata: {
           stakeAccounts: data.stakeAccounts,
+          ...EXIT_TERMS,
         },
       }];
     } catch (err) {
@@ -28,13 +63,67 @@ export class MarinadeAdapter {
     }
   }
 
+  /**
+   * mSOL held in the wallet, valued at the pool's SOL exchange rate
+   */
   async getPositions(wallet: PublicKey): Promise<Position[]> {
-    return [];
+    const yields = await this.getYields();
+    const apyBySymbol = Object.fromEntries(yields.map(y => [y.asset, y.apy]));
+    const positions = await getLstPositions(
+      this.connection,
+      wallet,
+      LST_POOLS.filter(p => p.protocol === 'marinade'),
+      apyBySymbol
+    );
+    return positions.map(p => ({ ...p, metadata: { ...p.metadata, ...EXIT_TERMS } }));
+  }
+
+  /**
+   * Stake SOL (params.amount, in SOL) for mSOL. Marinade's deposit swaps
+   * against the liquidity pool's mSOL leg first and mints the remainder.
+   */
+  async buildDeposit(params: AdapterInstructionParams): Promise<TransactionInstruction[]> {
+    const state = new PublicKey(LST_POOLS.find(p => p.protocol === 'marinade')!.pool);
+    const info = await this.connection.getAccountInfo(state);
+    if (!info) {
+      throw new Error(`Marinade state account not found: ${state.toBase58()}`);
+    }
+
+    const readKey = (offset: number) => new PublicKey(info.data.subarray(offset, offset + 32));
+    const msolMint = readKey(STATE_MSOL_MINT_OFFSET);
+    const owner = params.wallet;
+    const msolAccount = getAssociatedTokenAddress(owner, msolMint);
+    const lamports = getTokenRegistry().toBaseUnits('SOL', params.amount);
+
+    return [
+      createAssociatedTokenAccountIdempotentInstruction(owner, owner, msolMint),
+      new TransactionInstruction({
+        programId: MARINADE_PROGRAM_ID,
+        keys: [
+          { pubkey: state, isSigner: false, isWritable: true },
+          { pubkey: msolMint, isSigner: false, isWritable: true },
+          { pubkey: getMarinadePda(state, 'liq_sol'), isSigner: false, isWritable: true },
+          { pubkey: readKey(STATE_LIQ_POOL_MSOL_LEG_OFFSET), isSigner: false, isWritable: true },
+          { pubkey: getMarinadePda(state, 'liq_st_sol_authority'), isSigner: false, isWritable: false },
+          { pubkey: getMarinadePda(state, 'reserve'), isSigner: false, isWritable: true },
+          { pubkey: owner, isSigner: true, isWritable: true },
+          { pubkey: msolAccount, isSigner: false, isWritable: true },
+          { pubkey: getMarinadePda(state, 'st_mint'), isSigner: false, isWritable: false },
+          { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+          { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+        ],
+        data: Buffer.concat([anchorDiscriminator('deposit'), encodeU64(lamports)]),
+      }),
+    ];
   }
 
   private getFallbackYields(): YieldOpportunity[] {
     return [
-      { protocol: 'marinade', asset: 'mSOL', apy: 7.2, tvl: 85000000, risk: 'low' },
+      { protocol: 'marinade', asset: 'mSOL', apy: 7.2, tvl: 85000000, risk: 'low', metadata: { ...EXIT_TERMS, source: 'estimated' } },
     ];
   }
 }
+
+function getMarinadePda(state: PublicKey, seed: string): PublicKey {
+  return PublicKey.findProgramAddressSync([state.toBuffer(), Buffer.from(seed)], MARINADE_PROGRAM_ID)[0];
+}
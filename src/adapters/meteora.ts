@@ -0,0 +1,379 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { YieldOpportunity, Position, ProtocolAdapter, ProtocolAdapterMetadata } from '../types';
+import { getTokenPricesUsd } from '../lib/jupiter';
+import { getWalletTokenBalances, getMintInfos, getAccountFirstSeen, readU128LE } from '../lib/spl';
+import { cachedFetchJson } from '../lib/fetch-cache';
+import { getProgramId } from '../lib/cluster';
+
+export const METEORA_DLMM_PROGRAM_ID = getProgramId('meteora-dlmm', 'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo');
+
+const DLMM_API = 'https://dlmm-api.meteora.ag';
+const VAULT_API = 'https://merv2-api.meteora.ag';
+
+// PositionV2 account layout
+const POSITION_SIZE = 8120;
+const POSITION_LB_PAIR_OFFSET = 8;
+const POSITION_OWNER_OFFSET = 40;
+const POSITION_LIQUIDITY_SHARES_OFFSET = 72;     // [u128; 70]
+const POSITION_LOWER_BIN_OFFSET = 7912;
+const POSITION_UPPER_BIN_OFFSET = 7916;
+
+// BinArray account layout
+const BIN_ARRAY_BINS_OFFSET = 56;
+const BIN_SIZE = 144;                            // amountX u64 | amountY u64 | price u128 | liquiditySupply u128 | ...
+const MAX_BIN_PER_ARRAY = 70;
+
+const MIN_POOL_TVL = 100000;
+
+interface DlmmPair {
+  address: string;
+  name: string;
+  mint_x: string;
+  mint_y: string;
+  bin_step: number;
+  base_fee_percentage: string;
+  max_fee_percentage: string;
+  protocol_fee_percentage: string;
+  liquidity: string;
+  trade_volume_24h: number;
+  fees_24h: number;
+  current_price: number;
+  apr: number;
+  apy: number;
+  farm_apy?: number;
+  hide?: boolean;
+  is_blacklisted?: boolean;
+}
+
+interface DynamicVault {
+  pubkey: string;
+  symbol: string;
+  token_address: string;
+  lp_mint: string;
+  total_amount_with_profit: number;  // Base units of the underlying token
+  usd_rate: number;
+  closest_apy: number;
+  average_apy: number;
+  long_apy: number;
+}
+
+/**
+ * Meteora Adapter - DLMM pools and dynamic vaults
+ *
+ * Dynamic vaults rebalance deposits across Solana lending markets and are
+ * reported as `lending`. DLMM pools are bin-based concentrated liquidity and
+ * are reported as `liquidity` with their bin step and fee schedule.
+ */
+export class MeteoraAdapter implements ProtocolAdapter {
+  readonly metadata: ProtocolAdapterMetadata = {
+    id: 'meteora',
+    name: 'Meteora',
+    riskProfileId: 'meteora',
+    types: ['lending', 'liquidity'],
+  };
+
+  private connection: Connection;
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+  }
+
+  async getYields(): Promise<YieldOpportunity[]> {
+    const [vaults, pools] = await Promise.all([
+      this.getVaultYields().catch(() => {
+        console.warn('Meteora vault fetch failed, using fallback data');
+        return this.getFallbackVaultYields();
+      }),
+      this.getPoolYields().catch(() => {
+        console.warn('Meteora DLMM fetch failed, using fallback data');
+        return this.getFallbackPoolYields();
+      }),
+    ]);
+
+    return [...vaults, ...pools];
+  }
+
+  /**
+   * Dynamic vault LP tokens held in the wallet plus DLMM positions owned by it
+   */
+  async getPositions(wallet: PublicKey): Promise<Position[]> {
+    const [vaultPositions, poolPositions] = await Promise.all([
+      this.getVaultPositions(wallet).catch(err => {
+        console.warn('Meteora vault positions fetch failed:', err);
+        return [];
+      }),
+      this.getPoolPositions(wallet).catch(err => {
+        console.warn('Meteora DLMM positions fetch failed:', err);
+        return [];
+      }),
+    ]);
+
+    return [...vaultPositions, ...poolPositions];
+  }
+
+  // ============================================================================
+  // Dynamic Vaults
+  // ============================================================================
+
+  private async getVaults(): Promise<DynamicVault[]> {
+    return cachedFetchJson<DynamicVault[]>('protocol-api', `${VAULT_API}/vault_info`);
+  }
+
+  private async getVaultYields(): Promise<YieldOpportunity[]> {
+    const vaults = await this.getVaults();
+    const mintInfos = await getMintInfos(this.connection, vaults.map(v => v.token_address));
+
+    return vaults
+      .map(vault => {
+        const decimals = mintInfos[vault.token_address]?.decimals ?? 0;
+        const tvl = (vault.total_amount_with_profit / 10 ** decimals) * vault.usd_rate;
+
+        return {
+          protocol: 'meteora',
+          asset: vault.symbol,
+          type: 'lending' as const,
+          apy: vault.closest_apy,
+          tvl,
+          risk: this.assessVaultRisk(vault),
+          chain: 'solana' as const,
+          metadata: {
+            description: `Meteora Dynamic Vault: ${vault.symbol}`,
+            vaultAddress: vault.pubkey,
+            mint: vault.token_address,
+            lpMint: vault.lp_mint,
+            averageApy: vault.average_apy,
+            longApy: vault.long_apy,
+          },
+        };
+      })
+      .filter(v => v.tvl >= MIN_POOL_TVL)
+      .sort((a, b) => b.tvl - a.tvl);
+  }
+
+  private async getVaultPositions(wallet: PublicKey): Promise<Position[]> {
+    const balances = await getWalletTokenBalances(this.connection, wallet);
+    const vaults = await this.getVaults();
+    const vaultByLpMint = new Map(vaults.map(v => [v.lp_mint, v]));
+
+    const held = balances.filter(b => vaultByLpMint.has(b.mint));
+    if (held.length === 0) return [];
+
+    const mintInfos = await getMintInfos(this.connection, [
+      ...held.map(b => b.mint),
+      ...held.map(b => vaultByLpMint.get(b.mint)!.token_address),
+    ]);
+
+    const positions: Position[] = [];
+
+    for (const balance of held) {
+      const vault = vaultByLpMint.get(balance.mint)!;
+      const lpSupply = mintInfos[vault.lp_mint]?.supply;
+      const decimals = mintInfos[vault.token_address]?.decimals;
+      if (!lpSupply || decimals === undefined) continue;
+
+      // LP share of the vault's underlying (including accrued profit)
+      const share = Number(balance.rawAmount) / Number(lpSupply);
+      const amount = (share * vault.total_amount_with_profit) / 10 ** decimals;
+
+      positions.push({
+        protocol: 'meteora',
+        asset: vault.symbol,
+        amount,
+        valueUsd: amount * vault.usd_rate,
+        currentApy: vault.closest_apy,
+        entryTime: (await getAccountFirstSeen(this.connection, balance.account)) || new Date(),
+        metadata: {
+          type: 'lending',
+          vaultAddress: vault.pubkey,
+          lpMint: vault.lp_mint,
+          lpAmount: balance.amount,
+        },
+      });
+    }
+
+    return positions;
+  }
+
+  private assessVaultRisk(vault: DynamicVault): 'low' | 'medium' | 'high' {
+    if (['USDC', 'USDT'].includes(vault.symbol.toUpperCase())) return 'low';
+    if (vault.closest_apy > 30) return 'high';
+    return 'medium';
+  }
+
+  // ============================================================================
+  // DLMM Pools
+  // ============================================================================
+
+  private async getPoolYields(): Promise<YieldOpportunity[]> {
+    const data = await cachedFetchJson(
+      'protocol-api',
+      `${DLMM_API}/pair/all_with_pagination?page=0&limit=50&sort_key=tvl&order_by=desc`
+    );
+    const pairs: DlmmPair[] = data.pairs || [];
+
+    return pairs
+      .filter(p => !p.hide && !p.is_blacklisted && parseFloat(p.liquidity) >= MIN_POOL_TVL)
+      .slice(0, 20)
+      .map(pair => this.toPoolYield(pair));
+  }
+
+  private toPoolYield(pair: DlmmPair): YieldOpportunity {
+    const tvl = parseFloat(pair.liquidity) || 0;
+
+    return {
+      protocol: 'meteora',
+      asset: pair.name,
+      type: 'liquidity',
+      apy: pair.apy + (pair.farm_apy || 0),
+      tvl,
+      risk: this.assessPoolRisk(pair),
+      chain: 'solana',
+      metadata: {
+        description: `Meteora DLMM: ${pair.name}`,
+        poolId: pair.address,
+        mintX: pair.mint_x,
+        mintY: pair.mint_y,
+        binStep: pair.bin_step,
+        baseFeePct: parseFloat(pair.base_fee_percentage),
+        maxFeePct: parseFloat(pair.max_fee_percentage),
+        protocolFeePct: parseFloat(pair.protocol_fee_percentage),
+        volume24h: pair.trade_volume_24h,
+        fees24h: pair.fees_24h,
+        ilRisk: true,
+      },
+    };
+  }
+
+  private assessPoolRisk(pair: DlmmPair): 'low' | 'medium' | 'high' {
+    // Narrow bins on volatile pairs swing in and out of range quickly
+    if (pair.apy > 100) return 'high';
+    if (pair.bin_step <= 5 && pair.apy <= 30) return 'low';
+    return 'medium';
+  }
+
+  private async getPoolPositions(wallet: PublicKey): Promise<Position[]> {
+    const accounts = await this.connection.getProgramAccounts(METEORA_DLMM_PROGRAM_ID, {
+      filters: [
+        { dataSize: POSITION_SIZE },
+        { memcmp: { offset: POSITION_OWNER_OFFSET, bytes: wallet.toBase58() } },
+      ],
+    });
+    if (accounts.length === 0) return [];
+
+    const positions: Position[] = [];
+
+    for (const { pubkey, account } of accounts) {
+      const data = account.data;
+      const lbPair = new PublicKey(data.subarray(POSITION_LB_PAIR_OFFSET, POSITION_LB_PAIR_OFFSET + 32));
+      const lowerBinId = data.readInt32LE(POSITION_LOWER_BIN_OFFSET);
+      const upperBinId = data.readInt32LE(POSITION_UPPER_BIN_OFFSET);
+
+      const pair: DlmmPair = await cachedFetchJson('protocol-api', `${DLMM_API}/pair/${lbPair.toBase58()}`);
+      const { amountX, amountY, shares } = await this.getPositionAmounts(lbPair, data, lowerBinId, upperBinId);
+
+      const [mintInfos, prices] = await Promise.all([
+        getMintInfos(this.connection, [pair.mint_x, pair.mint_y]),
+        getTokenPricesUsd([pair.mint_x, pair.mint_y]),
+      ]);
+      const uiX = Number(amountX) / 10 ** (mintInfos[pair.mint_x]?.decimals ?? 0);
+      const uiY = Number(amountY) / 10 ** (mintInfos[pair.mint_y]?.decimals ?? 0);
+      const valueUsd = uiX * (prices[pair.mint_x] || 0) + uiY * (prices[pair.mint_y] || 0);
+
+      positions.push({
+        protocol: 'meteora',
+        asset: pair.name,
+        amount: Number(shares),           // Liquidity shares, what removing liquidity burns
+        valueUsd,
+        currentApy: pair.apy,
+        entryTime: (await getAccountFirstSeen(this.connection, pubkey)) || new Date(),
+        metadata: {
+          type: 'liquidity',
+          position: pubkey.toBase58(),
+          poolId: pair.address,
+          binStep: pair.bin_step,
+          lowerBinId,
+          upperBinId,
+          amountX: uiX,
+          amountY: uiY,
+          liquidityShares: shares.toString(),
+        },
+      });
+    }
+
+    return positions;
+  }
+
+  /**
+   * Sum the position's share of each bin's reserves across its bin range,
+   * and the liquidity shares it holds in those bins
+   */
+  private async getPositionAmounts(
+    lbPair: PublicKey,
+    position: Buffer,
+    lowerBinId: number,
+    upperBinId: number
+  ): Promise<{ amountX: bigint; amountY: bigint; shares: bigint }> {
+    const firstIndex = binArrayIndex(lowerBinId);
+    const lastIndex = binArrayIndex(upperBinId);
+    const indexes = Array.from({ length: lastIndex - firstIndex + 1 }, (_, i) => firstIndex + i);
+
+    const binArrays = await this.connection.getMultipleAccountsInfo(
+      indexes.map(index => getBinArrayAddress(lbPair, index))
+    );
+
+    let amountX = 0n;
+    let amountY = 0n;
+    let totalShares = 0n;
+
+    for (let binId = lowerBinId; binId <= upperBinId; binId++) {
+      const shares = readU128LE(position, POSITION_LIQUIDITY_SHARES_OFFSET + (binId - lowerBinId) * 16);
+      if (shares === 0n) continue;
+      totalShares += shares;
+
+      const index = binArrayIndex(binId);
+      const binArray = binArrays[index - firstIndex];
+      if (!binArray) continue;
+
+      const binOffset = BIN_ARRAY_BINS_OFFSET + (binId - index * MAX_BIN_PER_ARRAY) * BIN_SIZE;
+      const binAmountX = binArray.data.readBigUInt64LE(binOffset);
+      const binAmountY = binArray.data.readBigUInt64LE(binOffset + 8);
+      const liquiditySupply = readU128LE(binArray.data, binOffset + 32);
+      if (liquiditySupply === 0n) continue;
+
+      amountX += (shares * binAmountX) / liquiditySupply;
+      amountY += (shares * binAmountY) / liquiditySupply;
+    }
+
+    return { amountX, amountY, shares: totalShares };
+  }
+
+  private getFallbackVaultYields(): YieldOpportunity[] {
+    return [
+      { protocol: 'meteora', asset: 'USDC', type: 'lending', apy: 8.2, tvl: 35000000, risk: 'low', metadata: { source: 'estimated' } },
+      { protocol: 'meteora', asset: 'SOL', type: 'lending', apy: 5.8, tvl: 20000000, risk: 'medium', metadata: { source: 'estimated' } },
+    ];
+  }
+
+  private getFallbackPoolYields(): YieldOpportunity[] {
+    return [
+      { protocol: 'meteora', asset: 'SOL-USDC', type: 'liquidity', apy: 45.0, tvl: 25000000, risk: 'medium', metadata: { source: 'estimated', binStep: 4, ilRisk: true } },
+    ];
+  }
+}
+
+// ============================================================================
+// PDA Helpers
+// ============================================================================
+
+function binArrayIndex(binId: number): number {
+  return Math.floor(binId / MAX_BIN_PER_ARRAY);
+}
+
+function getBinArrayAddress(lbPair: PublicKey, index: number): PublicKey {
+  const indexBuf = Buffer.alloc(8);
+  indexBuf.writeBigInt64LE(BigInt(index));
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('bin_array'), lbPair.toBuffer(), indexBuf],
+    METEORA_DLMM_PROGRAM_ID
+  )[0];
+}
@@ -1,5 +1,80 @@
 import { Connection, PublicKey } from '@solana/web3.js';
-import { YieldOpportunity, Position } from '../types';
+import { YieldOpportunity, Position, ProtocolAdapter, ProtocolAdapterMetadata } from '../types';
+import { fetchLlamaPools } from '../lib/defillama';
+import { getTokenPricesUsd } from '../lib/jupiter';
+import { getTokenRegistry } from '../lib/tokens';
+import { getWalletTokenBalances, getMintInfos, getAccountFirstSeen, readU128LE } from '../lib/spl';
+import { getProgramId } from '../lib/cluster';
+
+export const WHIRLPOOL_PROGRAM_ID = getProgramId('whirlpool', 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc');
+
+// Position account layout
+const POSITION_SIZE = 216;
+const POSITION_WHIRLPOOL_OFFSET = 8;
+const POSITION_LIQUIDITY_OFFSET = 72;
+const POSITION_TICK_LOWER_OFFSET = 88;
+const POSITION_TICK_UPPER_OFFSET = 92;
+const POSITION_FEE_CHECKPOINT_A_OFFSET = 96;
+const POSITION_FEE_OWED_A_OFFSET = 112;
+const POSITION_FEE_CHECKPOINT_B_OFFSET = 120;
+const POSITION_FEE_OWED_B_OFFSET = 136;
+const POSITION_REWARDS_OFFSET = 144;            // [growthInsideCheckpoint u128 | amountOwed u64] x 3
+const POSITION_REWARD_SIZE = 24;
+
+// Whirlpool account layout
+const WHIRLPOOL_TICK_SPACING_OFFSET = 41;
+const WHIRLPOOL_LIQUIDITY_OFFSET = 49;
+const WHIRLPOOL_SQRT_PRICE_OFFSET = 65;
+const WHIRLPOOL_TICK_CURRENT_OFFSET = 81;
+const WHIRLPOOL_MINT_A_OFFSET = 101;
+const WHIRLPOOL_FEE_GROWTH_A_OFFSET = 165;
+const WHIRLPOOL_MINT_B_OFFSET = 181;
+const WHIRLPOOL_FEE_GROWTH_B_OFFSET = 245;
+const WHIRLPOOL_REWARD_UPDATED_OFFSET = 261;
+const WHIRLPOOL_REWARDS_OFFSET = 269;           // [mint | vault | authority | emissionsPerSecondX64 u128 | growthGlobalX64 u128] x 3
+const WHIRLPOOL_REWARD_SIZE = 128;
+const NUM_REWARDS = 3;
+
+// Tick array account layout
+const TICK_ARRAY_TICKS_OFFSET = 12;
+const TICK_SIZE = 113;                          // initialized u8 | liquidityNet i128 | liquidityGross u128 | feeGrowthOutsideA/B u128 | rewardGrowthsOutside u128 x 3
+const TICK_ARRAY_SIZE = 88;
+
+const Q64 = 2n ** 64n;
+const U128_MOD = 2n ** 128n;
+
+interface Whirlpool {
+  address: PublicKey;
+  tickSpacing: number;
+  liquidity: bigint;
+  sqrtPriceX64: bigint;
+  tickCurrent: number;
+  mintA: string;
+  mintB: string;
+  feeGrowthGlobalA: bigint;
+  feeGrowthGlobalB: bigint;
+  rewardLastUpdated: number;
+  rewards: { index: number; mint: string; emissionsPerSecondX64: bigint; growthGlobalX64: bigint }[];
+}
+
+interface WhirlpoolPosition {
+  address: PublicKey;
+  whirlpool: PublicKey;
+  liquidity: bigint;
+  tickLower: number;
+  tickUpper: number;
+  feeCheckpointA: bigint;
+  feeOwedA: bigint;
+  feeCheckpointB: bigint;
+  feeOwedB: bigint;
+  rewards: { growthInsideCheckpoint: bigint; amountOwed: bigint }[];
+}
+
+interface TickGrowth {
+  feeGrowthOutsideA: bigint;
+  feeGrowthOutsideB: bigint;
+  rewardGrowthsOutside: bigint[];
+}
 
 /**
  * Orca Adapter - Concentrated Liquidity AMM
@@ -7,9 +82,14 @@ import { YieldOpportunity, Position } from '../types';
  * Orca is Solana's leading AMM with concentrated liquidity (Whirlpools).
  * This adapter fetches yield opportunities from Orca pools.
  */
-export class OrcaAdapter {
+export class OrcaAdapter implements ProtocolAdapter {
+  readonly metadata: ProtocolAdapterMetadata = {
+    id: 'orca',
+    name: 'Orca Whirlpools',
+    types: ['liquidity'],
+  };
+
   private connection: Connection;
-  private readonly ORCA_WHIRLPOOL_PROGRAM = new PublicKey('whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc');
 
   constructor(connection: Connection) {
     this.connection = connection;
@@ -17,11 +97,10 @@ export class OrcaAdapter {
 
   async getYields(): Promise<YieldOpportunity[]> {
     try {
-      // Fetch Orca pools from DeFi Llama
-      const response = await fetch('https://yields.llama.fi/pools');
-      const data = await response.json();
+      // Orca pools from DeFi Llama (shared cached payload)
+      const pools = await fetchLlamaPools();
       
-      const orcaPools = data.data
+      const orcaPools = pools
         .filter((p: any) => 
           p.chain === 'Solana' && 
           p.project?.toLowerCase().includes('orca') &&
@@ -94,10 +173,128 @@ export class OrcaAdapter {
     ];
   }
 
+  /**
+   * Whirlpool positions held as NFTs in the wallet. Out-of-range positions
+   * earn no fees, so they report a 0% current APY and `inRange: false`.
+   */
   async getPositions(wallet: PublicKey): Promise<Position[]> {
-    // Would need to query Whirlpool accounts for user positions
-    // For MVP, returning empty
-    return [];
+    const balances = await getWalletTokenBalances(this.connection, wallet);
+    const nfts = balances.filter(b => b.decimals === 0 && b.rawAmount === 1n);
+    if (nfts.length === 0) return [];
+
+    const positionAddresses = nfts.map(nft => getPositionAddress(new PublicKey(nft.mint)));
+    const positionInfos = await this.connection.getMultipleAccountsInfo(positionAddresses);
+
+    const positions: WhirlpoolPosition[] = [];
+    positionInfos.forEach((info, i) => {
+      if (info && info.owner.equals(WHIRLPOOL_PROGRAM_ID) && info.data.length === POSITION_SIZE) {
+        positions.push(decodePosition(positionAddresses[i], info.data));
+      }
+    });
+    if (positions.length === 0) return [];
+
+    const pools = await this.getWhirlpools([...new Set(positions.map(p => p.whirlpool.toBase58()))]);
+    const mints = [...pools.values()].flatMap(p => [p.mintA, p.mintB, ...p.rewards.map(r => r.mint)]);
+    const [mintInfos, prices, yields] = await Promise.all([
+      getMintInfos(this.connection, mints),
+      getTokenPricesUsd(mints).catch(() => ({} as Record<string, number>)),
+      this.getYields(),
+    ]);
+
+    const result: Position[] = [];
+
+    for (const position of positions) {
+      const pool = pools.get(position.whirlpool.toBase58());
+      if (!pool) continue;
+
+      const ticks = await this.getTickGrowths(pool, [position.tickLower, position.tickUpper]);
+      const lower = ticks.get(position.tickLower);
+      const upper = ticks.get(position.tickUpper);
+      if (!lower || !upper) continue;
+
+      const uiAmount = (mint: string, raw: number | bigint) => Number(raw) / 10 ** (mintInfos[mint]?.decimals ?? 0);
+      const usd = (mint: string, raw: number | bigint) => uiAmount(mint, raw) * (prices[mint] || 0);
+
+      const inRange = pool.tickCurrent >= position.tickLower && pool.tickCurrent < position.tickUpper;
+      const { amountA, amountB } = getTokenAmounts(position, pool);
+      const fees = getUncollectedFees(position, pool, lower, upper);
+      const rewards = getUncollectedRewards(position, pool, lower, upper);
+
+      const symbolA = getTokenRegistry().getSymbol(pool.mintA) || pool.mintA.slice(0, 6);
+      const symbolB = getTokenRegistry().getSymbol(pool.mintB) || pool.mintB.slice(0, 6);
+      const asset = `${symbolA}-${symbolB}`;
+      const poolYield = yields.find(y => y.asset.toUpperCase() === asset.toUpperCase());
+
+      const valueUsd = usd(pool.mintA, amountA) + usd(pool.mintB, amountB);
+      const unclaimedUsd = usd(pool.mintA, fees.feeA) + usd(pool.mintB, fees.feeB) +
+        rewards.reduce((sum, r) => sum + usd(r.mint, r.amount), 0);
+
+      result.push({
+        protocol: 'orca',
+        asset,
+        amount: Number(position.liquidity),   // Liquidity units, what decreasing liquidity burns
+        valueUsd: valueUsd + unclaimedUsd,
+        currentApy: inRange ? poolYield?.apy ?? 0 : 0,
+        entryTime: (await getAccountFirstSeen(this.connection, position.address)) || new Date(),
+        metadata: {
+          type: 'liquidity',
+          position: position.address.toBase58(),
+          whirlpool: pool.address.toBase58(),
+          tickLower: position.tickLower,
+          tickUpper: position.tickUpper,
+          tickCurrent: pool.tickCurrent,
+          liquidity: position.liquidity.toString(),
+          inRange,
+          amountA: uiAmount(pool.mintA, amountA),
+          amountB: uiAmount(pool.mintB, amountB),
+          feesOwedA: uiAmount(pool.mintA, fees.feeA),
+          feesOwedB: uiAmount(pool.mintB, fees.feeB),
+          rewardsOwed: rewards.map(r => ({ mint: r.mint, amount: uiAmount(r.mint, r.amount) })),
+          unclaimedUsd,
+        },
+      });
+    }
+
+    return result;
+  }
+
+  private async getWhirlpools(addresses: string[]): Promise<Map<string, Whirlpool>> {
+    const infos = await this.connection.getMultipleAccountsInfo(addresses.map(a => new PublicKey(a)));
+    const pools = new Map<string, Whirlpool>();
+
+    infos.forEach((info, i) => {
+      if (info) pools.set(addresses[i], decodeWhirlpool(new PublicKey(addresses[i]), info.data));
+    });
+
+    return pools;
+  }
+
+  /**
+   * Fee and reward growth recorded outside each of the given ticks
+   */
+  private async getTickGrowths(pool: Whirlpool, tickIndexes: number[]): Promise<Map<number, TickGrowth>> {
+    const ticksPerArray = pool.tickSpacing * TICK_ARRAY_SIZE;
+    const startIndexes = [...new Set(tickIndexes.map(t => Math.floor(t / ticksPerArray) * ticksPerArray))];
+    const infos = await this.connection.getMultipleAccountsInfo(
+      startIndexes.map(start => getTickArrayAddress(pool.address, start))
+    );
+
+    const growths = new Map<number, TickGrowth>();
+
+    for (const tickIndex of tickIndexes) {
+      const start = Math.floor(tickIndex / ticksPerArray) * ticksPerArray;
+      const info = infos[startIndexes.indexOf(start)];
+      if (!info) continue;
+
+      const offset = TICK_ARRAY_TICKS_OFFSET + ((tickIndex - start) / pool.tickSpacing) * TICK_SIZE;
+      growths.set(tickIndex, {
+        feeGrowthOutsideA: readU128LE(info.data, offset + 33),
+        feeGrowthOutsideB: readU128LE(info.data, offset + 49),
+        rewardGrowthsOutside: Array.from({ length: NUM_REWARDS }, (_, r) => readU128LE(info.data, offset + 65 + r * 16)),
+      });
+    }
+
+    return growths;
   }
 
   /**
@@ -111,3 +308,166 @@ export class OrcaAdapter {
       .slice(0, 5);
   }
 }
+
+// ============================================================================
+// Account Decoding
+// ============================================================================
+
+function getPositionAddress(positionMint: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('position'), positionMint.toBuffer()],
+    WHIRLPOOL_PROGRAM_ID
+  )[0];
+}
+
+function getTickArrayAddress(whirlpool: PublicKey, startTickIndex: number): PublicKey {
+  // The start index seed is its decimal string, not a little-endian integer
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('tick_array'), whirlpool.toBuffer(), Buffer.from(startTickIndex.toString())],
+    WHIRLPOOL_PROGRAM_ID
+  )[0];
+}
+
+function decodePosition(address: PublicKey, data: Buffer): WhirlpoolPosition {
+  return {
+    address,
+    whirlpool: new PublicKey(data.subarray(POSITION_WHIRLPOOL_OFFSET, POSITION_WHIRLPOOL_OFFSET + 32)),
+    liquidity: readU128LE(data, POSITION_LIQUIDITY_OFFSET),
+    tickLower: data.readInt32LE(POSITION_TICK_LOWER_OFFSET),
+    tickUpper: data.readInt32LE(POSITION_TICK_UPPER_OFFSET),
+    feeCheckpointA: readU128LE(data, POSITION_FEE_CHECKPOINT_A_OFFSET),
+    feeOwedA: data.readBigUInt64LE(POSITION_FEE_OWED_A_OFFSET),
+    feeCheckpointB: readU128LE(data, POSITION_FEE_CHECKPOINT_B_OFFSET),
+    feeOwedB: data.readBigUInt64LE(POSITION_FEE_OWED_B_OFFSET),
+    rewards: Array.from({ length: NUM_REWARDS }, (_, i) => {
+      const offset = POSITION_REWARDS_OFFSET + i * POSITION_REWARD_SIZE;
+      return {
+        growthInsideCheckpoint: readU128LE(data, offset),
+        amountOwed: data.readBigUInt64LE(offset + 16),
+      };
+    }),
+  };
+}
+
+function decodeWhirlpool(address: PublicKey, data: Buffer): Whirlpool {
+  const rewards: Whirlpool['rewards'] = [];
+
+  for (let i = 0; i < NUM_REWARDS; i++) {
+    const offset = WHIRLPOOL_REWARDS_OFFSET + i * WHIRLPOOL_REWARD_SIZE;
+    const mint = new PublicKey(data.subarray(offset, offset + 32));
+    if (mint.equals(PublicKey.default)) continue;
+
+    rewards.push({
+      index: i,
+      mint: mint.toBase58(),
+      emissionsPerSecondX64: readU128LE(data, offset + 96),
+      growthGlobalX64: readU128LE(data, offset + 112),
+    });
+  }
+
+  return {
+    address,
+    tickSpacing: data.readUInt16LE(WHIRLPOOL_TICK_SPACING_OFFSET),
+    liquidity: readU128LE(data, WHIRLPOOL_LIQUIDITY_OFFSET),
+    sqrtPriceX64: readU128LE(data, WHIRLPOOL_SQRT_PRICE_OFFSET),
+    tickCurrent: data.readInt32LE(WHIRLPOOL_TICK_CURRENT_OFFSET),
+    mintA: new PublicKey(data.subarray(WHIRLPOOL_MINT_A_OFFSET, WHIRLPOOL_MINT_A_OFFSET + 32)).toBase58(),
+    mintB: new PublicKey(data.subarray(WHIRLPOOL_MINT_B_OFFSET, WHIRLPOOL_MINT_B_OFFSET + 32)).toBase58(),
+    feeGrowthGlobalA: readU128LE(data, WHIRLPOOL_FEE_GROWTH_A_OFFSET),
+    feeGrowthGlobalB: readU128LE(data, WHIRLPOOL_FEE_GROWTH_B_OFFSET),
+    rewardLastUpdated: Number(data.readBigUInt64LE(WHIRLPOOL_REWARD_UPDATED_OFFSET)),
+    rewards,
+  };
+}
+
+// ============================================================================
+// Concentrated Liquidity Math
+// ============================================================================
+
+/**
+ * Token amounts (base units) backing a position at the pool's current price
+ */
+function getTokenAmounts(position: WhirlpoolPosition, pool: Whirlpool): { amountA: number; amountB: number } {
+  const liquidity = Number(position.liquidity);
+  const sqrtLower = Math.pow(1.0001, position.tickLower / 2);
+  const sqrtUpper = Math.pow(1.0001, position.tickUpper / 2);
+  const sqrtCurrent = Number(pool.sqrtPriceX64) / Number(Q64);
+
+  if (pool.tickCurrent < position.tickLower) {
+    return { amountA: liquidity * (sqrtUpper - sqrtLower) / (sqrtLower * sqrtUpper), amountB: 0 };
+  }
+  if (pool.tickCurrent >= position.tickUpper) {
+    return { amountA: 0, amountB: liquidity * (sqrtUpper - sqrtLower) };
+  }
+  return {
+    amountA: liquidity * (sqrtUpper - sqrtCurrent) / (sqrtCurrent * sqrtUpper),
+    amountB: liquidity * (sqrtCurrent - sqrtLower),
+  };
+}
+
+/**
+ * Growth inside [lower, upper) = global - below(lower) - above(upper), all mod 2^128
+ */
+function growthInside(
+  global: bigint,
+  outsideLower: bigint,
+  outsideUpper: bigint,
+  tickCurrent: number,
+  tickLower: number,
+  tickUpper: number
+): bigint {
+  const below = tickCurrent >= tickLower ? outsideLower : mod128(global - outsideLower);
+  const above = tickCurrent < tickUpper ? outsideUpper : mod128(global - outsideUpper);
+  return mod128(global - below - above);
+}
+
+function getUncollectedFees(
+  position: WhirlpoolPosition,
+  pool: Whirlpool,
+  lower: TickGrowth,
+  upper: TickGrowth
+): { feeA: bigint; feeB: bigint } {
+  const { tickCurrent } = pool;
+  const { tickLower, tickUpper } = position;
+  const insideA = growthInside(pool.feeGrowthGlobalA, lower.feeGrowthOutsideA, upper.feeGrowthOutsideA, tickCurrent, tickLower, tickUpper);
+  const insideB = growthInside(pool.feeGrowthGlobalB, lower.feeGrowthOutsideB, upper.feeGrowthOutsideB, tickCurrent, tickLower, tickUpper);
+
+  return {
+    feeA: position.feeOwedA + (position.liquidity * mod128(insideA - position.feeCheckpointA)) / Q64,
+    feeB: position.feeOwedB + (position.liquidity * mod128(insideB - position.feeCheckpointB)) / Q64,
+  };
+}
+
+function getUncollectedRewards(
+  position: WhirlpoolPosition,
+  pool: Whirlpool,
+  lower: TickGrowth,
+  upper: TickGrowth
+): { mint: string; amount: bigint }[] {
+  // Bring global growth up to now; the pool only updates it on interaction
+  const elapsed = BigInt(Math.max(0, Math.floor(Date.now() / 1000) - pool.rewardLastUpdated));
+
+  return pool.rewards.map(reward => {
+    const global = pool.liquidity > 0n
+      ? mod128(reward.growthGlobalX64 + (reward.emissionsPerSecondX64 * elapsed) / pool.liquidity)
+      : reward.growthGlobalX64;
+    const inside = growthInside(
+      global,
+      lower.rewardGrowthsOutside[reward.index],
+      upper.rewardGrowthsOutside[reward.index],
+      pool.tickCurrent,
+      position.tickLower,
+      position.tickUpper
+    );
+    const checkpoint = position.rewards[reward.index];
+
+    return {
+      mint: reward.mint,
+      amount: checkpoint.amountOwed + (position.liquidity * mod128(inside - checkpoint.growthInsideCheckpoint)) / Q64,
+    };
+  });
+}
+
+function mod128(value: bigint): bigint {
+  return ((value % U128_MOD) + U128_MOD) % U128_MOD;
+}
@@ -1,5 +1,5 @@
 import { Connection, PublicKey } from '@solana/web3.js';
-import { YieldOpportunity, Position } from '../types';
+import { YieldOpportunity, Position, ProtocolAdapter, ProtocolAdapterMetadata } from '../types';
 
 /**
  * Pump.fun Adapter - Trading fee yields from meme tokens
@@ -7,7 +7,13 @@ import { YieldOpportunity, Position } from '../types';
  * Pump.fun is a meme token launchpad. This adapter treats trading fee
  * revenue as a yield opportunity for liquidity providers.
  */
-export class PumpAdapter {
+export class PumpAdapter implements ProtocolAdapter {
+  readonly metadata: ProtocolAdapterMetadata = {
+    id: 'pump.fun',
+    name: 'Pump.fun',
+    types: ['trading-fees'],
+  };
+
   private connection: Connection;
   private readonly PUMP_PROGRAM = new PublicKey('6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P');
 
@@ -0,0 +1,256 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { YieldOpportunity, Position, ProtocolAdapter, ProtocolAdapterMetadata } from '../types';
+import { JupiterSwap } from '../lib/jupiter';
+import { getTokenRegistry } from '../lib/tokens';
+import { cachedFetchJson } from '../lib/fetch-cache';
+import {
+  LST_POOLS,
+  LstPool,
+  StakePoolFees,
+  StakePoolInfo,
+  discoverStakePools,
+  getLstPositions,
+  getSanctumSolValue,
+  getSolPriceUsd,
+  getStakePoolFees,
+} from '../lib/lst';
+
+const SANCTUM_EXTRA_API = 'https://extra-api.sanctum.so/v1';
+const JUPITER_TOKENS_API = 'https://tokens.jup.ag/tokens';
+
+const MIN_LST_TVL = 1_000_000;      // USD
+const SANCTUM_BATCH_SIZE = 50;      // LSTs per extra-api request
+const LST_CACHE_TTL_MS = 30 * 60 * 1000;   // New LSTs are rare; pool rates move once per epoch
+
+// JitoSOL and mSOL have dedicated adapters
+const EXCLUDED_PROTOCOLS = ['jito', 'marinade'];
+
+export interface SanctumLst {
+  symbol: string;
+  mint: string;
+  decimals: number;
+  protocol: string;
+  pool: LstPool;
+  stakePool?: StakePoolInfo;
+}
+
+export interface LstValuation {
+  fairSolPerLst: number;              // On-chain pool rate
+  marketSolPerLst?: number;           // Jupiter quote for 1 LST -> SOL
+  discountPct?: number;               // Positive = trades below fair value
+}
+
+/**
+ * Sanctum Adapter - The Solana LST universe
+ *
+ * Enumerates every LST Jupiter tags as liquid staking, resolves each one to
+ * its stake pool on-chain, and reports Sanctum's staking APY alongside the
+ * pool's SOL-per-LST rate and the market discount to that rate. LSTs with no
+ * decodable pool (INF) use Sanctum's SOL value instead.
+ */
+export class SanctumAdapter implements ProtocolAdapter {
+  readonly metadata: ProtocolAdapterMetadata = {
+    id: 'sanctum',
+    name: 'Sanctum LSTs',
+    protocols: [
+      'sanctum',
+      ...new Set(LST_POOLS.map(p => p.protocol).filter(p => !EXCLUDED_PROTOCOLS.includes(p))),
+    ],
+    riskProfileId: 'sanctum',
+    types: ['staking'],
+  };
+
+  private connection: Connection;
+  private jupiter: JupiterSwap;
+  private lsts: { value: Promise<SanctumLst[]>; fetchedAt: number } | null = null;
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+    this.jupiter = new JupiterSwap(connection);
+  }
+
+  async getYields(): Promise<YieldOpportunity[]> {
+    try {
+      const lsts = await this.getLsts();
+      const mints = lsts.map(l => l.mint);
+      const [apys, tvls, solPrice, fees] = await Promise.all([
+        this.getSanctumValues(mints, 'apy/latest', 'apys'),
+        this.getSanctumValues(mints, 'tvl/current', 'tvls'),
+        getSolPriceUsd(this.connection),
+        getStakePoolFees(this.connection, lsts.flatMap(l => l.stakePool ? [l.stakePool.pool] : []))
+          .catch((): Map<string, StakePoolFees> => new Map()),
+      ]);
+
+      const candidates = lsts
+        .map(lst => ({ lst, tvl: ((tvls[lst.mint] ?? Number(lst.stakePool?.totalLamports ?? 0)) / 1e9) * solPrice }))
+        .filter(({ lst, tvl }) => tvl >= MIN_LST_TVL && apys[lst.mint] !== undefined);
+      const valuations = await Promise.all(candidates.map(({ lst }) => this.getValuation(lst).catch(() => null)));
+
+      const opportunities: YieldOpportunity[] = [];
+
+      candidates.forEach(({ lst, tvl }, i) => {
+        const valuation = valuations[i];
+        if (!valuation) return;
+
+        opportunities.push({
+          protocol: lst.protocol,
+          asset: lst.symbol,
+          type: 'staking',
+          apy: apys[lst.mint] * 100,
+          tvl,
+          risk: this.assessRisk(tvl, valuation),
+          chain: 'solana',
+          metadata: {
+            mint: lst.mint,
+            pool: lst.stakePool?.pool ?? lst.pool.pool,
+            poolProgram: lst.stakePool?.program,
+            rateSource: lst.pool.kind === 'sanctum-api' ? 'sanctum' : 'onchain',
+            solPerLst: valuation.fairSolPerLst,
+            marketSolPerLst: valuation.marketSolPerLst,
+            discountPct: valuation.discountPct,
+            ...(lst.stakePool && fees.get(lst.stakePool.pool)),
+            source: 'sanctum',
+          },
+        });
+      });
+
+      return opportunities.sort((a, b) => b.tvl - a.tvl);
+    } catch (err) {
+      console.warn('Sanctum LST fetch failed, using fallback data');
+      return this.getFallbackYields();
+    }
+  }
+
+  /**
+   * LST holdings valued at each pool's SOL exchange rate
+   */
+  async getPositions(wallet: PublicKey): Promise<Position[]> {
+    const lsts = await this.getLsts();
+    const apys = await this.getSanctumValues(lsts.map(l => l.mint), 'apy/latest', 'apys')
+      .catch((): Record<string, number> => ({}));
+    const apyBySymbol = Object.fromEntries(lsts.map(l => [l.symbol, (apys[l.mint] ?? 0) * 100]));
+    return getLstPositions(this.connection, wallet, lsts.map(l => l.pool), apyBySymbol);
+  }
+
+  /**
+   * Every LST in the universe, resolved to the pool that backs it. Discovery
+   * scans three stake pool programs, so the list is kept for LST_CACHE_TTL_MS
+   * and shared by concurrent callers.
+   */
+  async getLsts(): Promise<SanctumLst[]> {
+    if (!this.lsts || Date.now() - this.lsts.fetchedAt >= LST_CACHE_TTL_MS) {
+      const value = this.discoverLsts();
+      this.lsts = { value, fetchedAt: Date.now() };
+      // A failed discovery is retried on the next call
+      value.catch(() => {
+        if (this.lsts?.value === value) this.lsts = null;
+      });
+    }
+    return this.lsts.value;
+  }
+
+  private async discoverLsts(): Promise<SanctumLst[]> {
+    const [tokens, stakePools] = await Promise.all([
+      cachedFetchJson<{ address: string; symbol: string; decimals: number }[]>(
+        'protocol-api',
+        `${JUPITER_TOKENS_API}?tags=lst`
+      ),
+      discoverStakePools(this.connection),
+    ]);
+
+    const known = new Map(LST_POOLS.map(p => [p.mint, p]));
+    const lsts: SanctumLst[] = [];
+
+    for (const token of tokens) {
+      if (getTokenRegistry().get(token.address)?.class === 'native') continue;
+
+      const knownPool = known.get(token.address);
+      if (knownPool && EXCLUDED_PROTOCOLS.includes(knownPool.protocol)) continue;
+
+      const stakePool = stakePools.get(token.address);
+      const pool: LstPool = knownPool || {
+        symbol: token.symbol,
+        mint: token.address,
+        protocol: 'sanctum',
+        pool: stakePool?.pool ?? '',
+        kind: stakePool ? 'spl-stake-pool' : 'sanctum-api',
+      };
+
+      lsts.push({
+        symbol: token.symbol,
+        mint: token.address,
+        decimals: token.decimals,
+        protocol: pool.protocol,
+        pool,
+        stakePool,
+      });
+    }
+
+    return lsts;
+  }
+
+  /**
+   * Fair SOL value from the pool vs. what the market pays for 1 LST
+   */
+  async getValuation(lst: SanctumLst): Promise<LstValuation> {
+    const fairSolPerLst = lst.stakePool?.exchangeRate ?? await getSanctumSolValue(lst.mint);
+
+    try {
+      const quote = await this.jupiter.getCachedQuote(lst.mint, getTokenRegistry().require('SOL').mint, 10 ** lst.decimals);
+      const marketSolPerLst = parseInt(quote.outAmount) / 1e9;
+      return {
+        fairSolPerLst,
+        marketSolPerLst,
+        discountPct: (1 - marketSolPerLst / fairSolPerLst) * 100,
+      };
+    } catch {
+      // No route: fair value is still useful on its own
+      return { fairSolPerLst };
+    }
+  }
+
+  /**
+   * Per-mint values from one of Sanctum's batched extra-api endpoints
+   */
+  private async getSanctumValues(
+    mints: string[],
+    endpoint: string,
+    field: string
+  ): Promise<Record<string, number>> {
+    const values: Record<string, number> = {};
+
+    for (let i = 0; i < mints.length; i += SANCTUM_BATCH_SIZE) {
+      const params = mints.slice(i, i + SANCTUM_BATCH_SIZE).map(m => `lst=${m}`).join('&');
+      const data = await cachedFetchJson('protocol-api', `${SANCTUM_EXTRA_API}/${endpoint}?${params}`);
+
+      for (const [mint, value] of Object.entries(data[field] || {})) {
+        const parsed = Number(value);
+        if (Number.isFinite(parsed)) values[mint] = parsed;
+      }
+    }
+
+    return values;
+  }
+
+  private assessRisk(tvl: number, valuation: LstValuation): 'low' | 'medium' | 'high' {
+    // A persistent discount means thin exit liquidity
+    if ((valuation.discountPct ?? 0) > 2) return 'high';
+    if (valuation.marketSolPerLst === undefined) return 'medium';
+    return tvl >= 50_000_000 ? 'low' : 'medium';
+  }
+
+  private getFallbackYields(): YieldOpportunity[] {
+    return LST_POOLS
+      .filter(pool => !EXCLUDED_PROTOCOLS.includes(pool.protocol))
+      .map(pool => ({
+        protocol: pool.protocol,
+        asset: pool.symbol,
+        type: 'staking' as const,
+        apy: 7.0,
+        tvl: 0,
+        risk: 'low' as const,
+        chain: 'solana' as const,
+        metadata: { mint: pool.mint, source: 'estimated' },
+      }));
+  }
+}
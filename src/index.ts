@@ -5,10 +5,146 @@
 
 export { SolanaYield } from './lib/yield';
 export { YieldMonitor } from './lib/monitor';
-export { StrategyEngine, type StrategyDecision } from './lib/strategy';
-export { Executor } from './lib/executor';
-export { JupiterSwap, TOKENS } from './lib/jupiter';
-export { fetchSolanaYields, fetchAllSolanaYields } from './lib/defillama';
+export { AdapterRegistry, findAdapterForProtocol, getAdapterRegistry, registerBuiltinAdapters } from './lib/registry';
+export { StrategyEngine, isEligible, type StrategyDecision } from './lib/strategy';
+export {
+  loadStrategyFile,
+  parseStrategyDefinition,
+  toStrategy,
+  toTradingConfig,
+  toBacktestConfig,
+  STRATEGY_FILE_VERSION,
+  STRATEGY_SCHEMA,
+  type StrategyDefinition,
+} from './lib/strategy-file';
+export {
+  RebalanceCostModel,
+  StaticCostModel,
+  breakEvenDays,
+  dailyGainUsd,
+  DEFAULT_EXPECTED_HOLDING_DAYS,
+  type ActionCost,
+  type PricedAction,
+  type CostLeg,
+  type CostEstimator,
+} from './lib/costs';
+export { ApyHistory, getApyHistory, computeApyStats, DEFAULT_HISTORY_DAYS } from './lib/apy-history';
+export {
+  AllocationOptimizer,
+  DEFAULT_ALLOCATION_CONSTRAINTS,
+  type AllocationConstraints,
+  type AllocationPlan,
+  type TargetAllocation,
+} from './lib/optimizer';
+export { Executor, type TransactionReceipt, type PlannedLeg, type LegPlan } from './lib/executor';
+export {
+  preflightTransaction,
+  assertPreflight,
+  checkBalanceChanges,
+  DEFAULT_MAX_SOL_SPEND,
+  type BalanceExpectation,
+  type BalanceChange,
+  type PreflightExpectations,
+  type PreflightResult,
+} from './lib/preflight';
+export {
+  ConfirmationTracker,
+  getConfirmationTracker,
+  assertLanded,
+  DEFAULT_CONFIRMATION_OPTIONS,
+  type ConfirmationStatus,
+  type ConfirmationResult,
+  type ConfirmationOptions,
+  type TrackedTransaction,
+} from './lib/confirmation';
+export {
+  KeypairSigner,
+  KeystoreSigner,
+  RemoteSigner,
+  createSigningServer,
+  encryptKeystore,
+  decryptKeystore,
+  writeKeystoreFile,
+  loadSignerFromEnv,
+  type TransactionSigner,
+  type KeystoreFile,
+  type RemoteSignerOptions,
+  type SigningServerOptions,
+} from './lib/signer';
+export {
+  SquadsProposer,
+  SQUADS_PROGRAM_ID,
+  getSquadsVaultAddress,
+  getSquadsTransactionAddress,
+  getSquadsProposalAddress,
+  type SquadsProposal,
+  type SquadsProposalStatus,
+} from './lib/squads';
+export {
+  PaperTrader,
+  JupiterQuoteSource,
+  LocalQuoteSource,
+  DEFAULT_PAPER_CONFIG,
+  DEFAULT_LOCAL_PRICES,
+  type PaperTradingConfig,
+  type PaperPosition,
+  type PaperState,
+  type PaperQuote,
+  type QuoteSource,
+} from './lib/paper';
+export { JupiterSwap, TOKENS, getTokenPricesUsd } from './lib/jupiter';
+export {
+  DataSource,
+  getDataSource,
+  dataFetch,
+  type DataSourceMode,
+  type RecordedRequest,
+  type RecordedResponse,
+  type BundleInfo,
+} from './lib/data-source';
+export {
+  CLUSTER_PROFILES,
+  getClusterProfile,
+  getProgramId,
+  getAccountAddress,
+  createConnection,
+  type ClusterName,
+  type ClusterProfile,
+  type ClusterOverrides,
+} from './lib/cluster';
+export {
+  LocalnetFixtures,
+  DEFAULT_LOCALNET_OPTIONS,
+  type FixtureManifest,
+  type DumpOptions,
+  type LocalnetOptions,
+  type Localnet,
+} from './lib/localnet';
+export {
+  TokenRegistry,
+  getTokenRegistry,
+  DEFAULT_TOKEN_LIST,
+  type TokenInfo,
+  type TokenClass,
+} from './lib/tokens';
+export { fetchSolanaYields, fetchAllSolanaYields, fetchLlamaPools } from './lib/defillama';
+export {
+  FetchCache,
+  getFetchCache,
+  cachedFetchJson,
+  SOURCE_CONFIGS,
+  type CacheSourceConfig,
+  type FetchCacheOptions,
+  type FetchCacheStats,
+} from './lib/fetch-cache';
+export {
+  reconcileYields,
+  isEstimated,
+  DEFAULT_RECONCILE_OPTIONS,
+  type ReconcileOptions,
+  type ReconciliationResult,
+  type YieldDivergence,
+} from './lib/reconcile';
 export { Autopilot, type AutopilotState, type AutopilotDecision } from './lib/autopilot';
 
 // Risk-adjusted yield analysis
@@ -16,10 +152,14 @@ export {
   calculateRiskScore,
   calculateRiskAdjustedApy,
   calculateSharpeRatio,
+  getScoringApy,
   analyzeOpportunities,
   sortByRiskAdjustedReturn,
   getTopRecommendations,
   PROTOCOL_PROFILES,
+  registerProtocolProfile,
+  registerRiskProfileAlias,
+  type ProtocolProfile,
   type RiskScore,
   type RiskAdjustedOpportunity,
 } from './lib/risk';
@@ -48,9 +188,21 @@ export {
 
 // Protocol adapters
 export { KaminoAdapter } from './adapters/kamino';
-export { DriftAdapter } from './adapters/drift';
+export { DriftAdapter, decodePerpMarket, type DriftPerpMarket } from './adapters/drift';
+export { FundingRateAdapter, type FundingSample, type FundingHistoryStats } from './adapters/funding';
 export { JitoAdapter } from './adapters/jito';
 export { MarinadeAdapter } from './adapters/marinade';
+export { MarginfiAdapter } from './adapters/marginfi';
+export { MeteoraAdapter } from './adapters/meteora';
+export { SanctumAdapter, type SanctumLst, type LstValuation } from './adapters/sanctum';
+export {
+  LST_POOLS,
+  getLstExchangeRate,
+  getSanctumSolValue,
+  discoverStakePools,
+  type LstPool,
+  type StakePoolInfo,
+} from './lib/lst';
 
 // Yield Analysis System
 export {
@@ -80,6 +232,8 @@ export {
   type TradingState,
   type TradingEvent,
   type PendingTrade,
+  type SquadsConfig,
+  type TradeProposal,
 } from './lib/trading-mode';
 
 // WebSocket/SSE Real-time Streaming
@@ -118,6 +272,7 @@ export {
   type TransactionBatch,
   type TimingRecommendation,
   type GasAnalysis,
+  type ComputeBudgetPlan,
 } from './lib/gas-optimizer';
 
 // Types
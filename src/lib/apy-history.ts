@@ -0,0 +1,168 @@
+/**
+ * APY History
+ *
+ * A spot APY from a single fetch can spike for an hour when rewards are
+ * topped up or a pool is briefly under-supplied. This summarises each pool's
+ * recent snapshot history (see db.ts and the snapshot cron) so decisions
+ * score the yield a pool has kept paying:
+ * - EMA, median and volatility of APY over the window
+ * - persistence: the share of the window that paid at least ~the spot APY
+ * - smoothedApy: the spot APY weighted by its persistence, the rest taken
+ *   at the lower of EMA and median
+ */
+
+import { ApyHistoryStats, YieldOpportunity } from '../types';
+import { getLatestSnapshots, isDbConfigured, YieldSnapshot } from './db';
+
+export const DEFAULT_HISTORY_DAYS = 7;
+
+const MIN_SAMPLES = 6;                 // With fewer snapshots the spot APY stands
+const EMA_HALF_LIFE_HOURS = 24;
+const PERSISTENCE_TOLERANCE = 0.8;     // A snapshot within 80% of spot counts as paying it
+const TREND_THRESHOLD = 0.1;           // EMA 10% away from the median is a trend
+const CACHE_TTL_MS = 15 * 60 * 1000;   // Snapshots are written hourly
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+/**
+ * Summarise a pool's snapshots (timestamps in seconds) against its spot APY.
+ * Returns null when there are too few snapshots to say anything.
+ */
+export function computeApyStats(
+  snapshots: Pick<YieldSnapshot, 'timestamp' | 'apy'>[],
+  spotApy: number,
+  windowDays: number = DEFAULT_HISTORY_DAYS
+): ApyHistoryStats | null {
+  const points = snapshots
+    .filter(s => Number.isFinite(s.apy))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (points.length < MIN_SAMPLES) return null;
+
+  // Time-weighted EMA, so irregular snapshot gaps don't skew it
+  let ema = points[0].apy;
+  for (let i = 1; i < points.length; i++) {
+    const hours = (points[i].timestamp - points[i - 1].timestamp) / 3600;
+    const alpha = 1 - Math.pow(0.5, hours / EMA_HALF_LIFE_HOURS);
+    ema += alpha * (points[i].apy - ema);
+  }
+
+  const apys = points.map(p => p.apy);
+  const sorted = [...apys].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+
+  const mean = apys.reduce((sum, apy) => sum + apy, 0) / apys.length;
+  const volatility = Math.sqrt(apys.reduce((sum, apy) => sum + (apy - mean) ** 2, 0) / apys.length);
+  const relativeVolatility = mean > 0 ? volatility / mean : 0;
+
+  const persistence = spotApy > 0
+    ? apys.filter(apy => apy >= spotApy * PERSISTENCE_TOLERANCE).length / apys.length
+    : 1;
+  const baseline = Math.min(ema, median, spotApy);
+  const smoothedApy = persistence * spotApy + (1 - persistence) * baseline;
+
+  const trend = ema > median * (1 + TREND_THRESHOLD) ? 'rising'
+    : ema < median * (1 - TREND_THRESHOLD) ? 'falling'
+    : 'flat';
+
+  return {
+    windowDays,
+    samples: points.length,
+    ema,
+    median,
+    volatility,
+    relativeVolatility,
+    persistence,
+    trend,
+    smoothedApy,
+  };
+}
+
+// ============================================================================
+// History Lookup
+// ============================================================================
+
+interface SnapshotIndex {
+  byPool: Map<string, YieldSnapshot[]>;    // DeFi Llama pool id
+  byAsset: Map<string, YieldSnapshot[]>;   // "project:symbol"
+}
+
+export class ApyHistory {
+  private windowDays: number;
+  private cache: (SnapshotIndex & { fetchedAt: number }) | null = null;
+
+  constructor(windowDays: number = DEFAULT_HISTORY_DAYS) {
+    this.windowDays = windowDays;
+  }
+
+  /**
+   * Attach `apyHistory` to each opportunity with enough snapshots. The whole
+   * window is loaded in one query and shared across opportunities. Without a
+   * configured database, or if the lookup fails, opportunities are returned
+   * as they are and score on their spot APY.
+   */
+  async annotate(opportunities: YieldOpportunity[]): Promise<YieldOpportunity[]> {
+    if (!isDbConfigured() || opportunities.every(opp => opp.apyHistory)) return opportunities;
+
+    try {
+      const snapshots = await this.loadSnapshots();
+      return opportunities.map(opp => {
+        if (opp.apyHistory) return opp;
+        const stats = computeApyStats(this.getSnapshots(opp, snapshots), opp.apy, this.windowDays);
+        return stats ? { ...opp, apyHistory: stats } : opp;
+      });
+    } catch (err) {
+      console.warn('Failed to load APY history, scoring on spot APY:', err);
+      return opportunities;
+    }
+  }
+
+  /**
+   * Snapshots for one pool, by DeFi Llama pool id. Opportunities without one
+   * fall back to their project and symbol, but only if a single pool has
+   * been recorded under it, so stats never mix pools.
+   */
+  private getSnapshots(opp: YieldOpportunity, snapshots: SnapshotIndex): YieldSnapshot[] {
+    if (typeof opp.metadata?.poolId === 'string') {
+      return snapshots.byPool.get(opp.metadata.poolId) ?? [];
+    }
+
+    const project = typeof opp.metadata?.project === 'string' ? opp.metadata.project : opp.protocol;
+    const rows = snapshots.byAsset.get(`${project}:${opp.asset}`) ?? [];
+    return new Set(rows.map(r => r.pool_id)).size <= 1 ? rows : [];
+  }
+
+  private async loadSnapshots(): Promise<SnapshotIndex> {
+    if (this.cache && Date.now() - this.cache.fetchedAt < CACHE_TTL_MS) {
+      return this.cache;
+    }
+
+    const byAsset = await getLatestSnapshots(this.windowDays);
+    const byPool = new Map<string, YieldSnapshot[]>();
+    for (const rows of byAsset.values()) {
+      for (const row of rows) {
+        if (!row.pool_id) continue;
+        if (!byPool.has(row.pool_id)) byPool.set(row.pool_id, []);
+        byPool.get(row.pool_id)!.push(row);
+      }
+    }
+
+    this.cache = { byPool, byAsset, fetchedAt: Date.now() };
+    return this.cache;
+  }
+}
+
+// ============================================================================
+// Singleton
+// ============================================================================
+
+let apyHistory: ApyHistory | null = null;
+
+export function getApyHistory(): ApyHistory {
+  if (!apyHistory) {
+    apyHistory = new ApyHistory();
+  }
+  return apyHistory;
+}
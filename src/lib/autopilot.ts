@@ -8,10 +8,13 @@
  * Key feature: Risk-adjusted recommendations (not just highest APY)
  */
 
-import { Connection, Keypair } from '@solana/web3.js';
+import { Connection } from '@solana/web3.js';
 import { fetchAllSolanaYields } from './defillama';
-import { StrategyEngine, StrategyDecision } from './strategy';
+import { StrategyEngine, StrategyDecision, isEligible } from './strategy';
+import { RebalanceCostModel } from './costs';
+import { getApyHistory } from './apy-history';
 import { Executor } from './executor';
+import { TransactionSigner } from './signer';
 import { Strategy, Portfolio, YieldOpportunity, RebalanceAction } from '../types';
 import { 
   analyzeOpportunities, 
@@ -68,24 +71,26 @@ export interface AutopilotState {
 
 export class Autopilot {
   private connection: Connection;
-  private keypair: Keypair;
+  private signer: TransactionSigner;
   private strategy: Strategy;
   private strategyEngine: StrategyEngine;
   private executor: Executor;
+  private costs: RebalanceCostModel;
   private state: AutopilotState;
   private intervalId: NodeJS.Timeout | null = null;
   private historyStore = getHistoryStore();
 
   constructor(
     connection: Connection,
-    keypair: Keypair,
+    signer: TransactionSigner,
     strategy: Strategy
   ) {
     this.connection = connection;
-    this.keypair = keypair;
+    this.signer = signer;
     this.strategy = strategy;
     this.strategyEngine = new StrategyEngine(strategy);
-    this.executor = new Executor(connection, keypair);
+    this.executor = new Executor(connection, signer);
+    this.costs = new RebalanceCostModel(connection);
     
     this.state = {
       isRunning: false,
@@ -144,7 +149,9 @@ export class Autopilot {
     try {
       // 1. Fetch current yields
       console.log('📊 Fetching yields...');
-      const yields = await fetchAllSolanaYields();
+      const yields = await getApyHistory().annotate(
+        (await fetchAllSolanaYields()).filter(y => isEligible(this.strategy, y))
+      );
       this.state.currentYields = yields.slice(0, 50);
       
       // 2. Analyze with risk scoring (enhanced with AEGIS!)
@@ -243,8 +250,8 @@ export class Autopilot {
     const reasoning: string[] = [];
     let confidence = 0.5;
 
-    // Use the full strategy engine analysis (enhanced with AEGIS!)
-    const strategyDecision = this.strategyEngine.analyzeWithReasoning(portfolio, yields);
+    // Use the full strategy engine analysis (enhanced with AEGIS!), with each move priced
+    const strategyDecision = await this.strategyEngine.analyzeWithCosts(portfolio, yields, this.costs);
     
     // Get top risk-adjusted recommendations (enhanced with AEGIS!)
     const maxRiskScore = this.getRiskToleranceScore();
@@ -334,7 +341,12 @@ export class Autopilot {
     if (strategyDecision.actions.length === 0) {
       reasoning.push('');
       reasoning.push('⏸️ **Decision: HOLD**');
-      reasoning.push('Risk-adjusted improvement below threshold — holding current positions');
+      if (strategyDecision.costs?.length) {
+        const fastest = Math.min(...strategyDecision.costs.map(c => c.cost.breakEvenDays));
+        reasoning.push(`Moves would not pay back their costs in time (fastest break-even: ${Number.isFinite(fastest) ? `${fastest.toFixed(1)} days` : 'never'}) — holding current positions`);
+      } else {
+        reasoning.push('Risk-adjusted improvement below threshold — holding current positions');
+      }
       
       return {
         timestamp,
@@ -366,6 +378,9 @@ export class Autopilot {
     reasoning.push('🔄 **Decision: REBALANCE**');
     reasoning.push(`Moving to better risk-adjusted opportunities`);
     reasoning.push(`Risk change: ${strategyDecision.riskAnalysis.riskChange}`);
+    for (const { cost } of strategyDecision.costs?.filter(c => c.worthwhile) || []) {
+      reasoning.push(`   • $${cost.valueUsd.toFixed(2)} moved for $${cost.totalUsd.toFixed(2)} in costs, breaks even in ${cost.breakEvenDays.toFixed(1)} days`);
+    }
 
     // Add TVL safety check
     if (topOpp.tvl < 1_000_000) {
@@ -426,7 +441,7 @@ export class Autopilot {
    * In production, would fetch on-chain positions
    */
   private async getPortfolio(): Promise<Portfolio> {
-    const balance = await this.connection.getBalance(this.keypair.publicKey);
+    const balance = await this.connection.getBalance(this.signer.publicKey);
     const solBalance = balance / 1e9;
 
     return {
@@ -19,8 +19,12 @@
  */
 
 import { Strategy, Portfolio, YieldOpportunity, Position } from '../types';
-import { StrategyEngine, StrategyDecision } from './strategy';
+import { StrategyEngine, StrategyDecision, isEligible } from './strategy';
+import { loadStrategyFile, toBacktestConfig } from './strategy-file';
+import { StaticCostModel, DEFAULT_EXPECTED_HOLDING_DAYS } from './costs';
 import { analyzeOpportunities, RiskAdjustedOpportunity } from './risk';
+import { cachedFetchJson } from './fetch-cache';
+import { getTokenRegistry } from './tokens';
 
 // ============================================================================
 // Types
@@ -56,6 +60,9 @@ export interface BacktestConfig {
   /** Estimated gas cost per rebalance in USD (default: 0.50) */
   gasCostUsd?: number;
   
+  /** Estimated price impact of a rebalance that changes asset, in bps (default: 30) */
+  swapImpactBps?: number;
+  
   /** Minimum APY improvement to trigger rebalance (default: strategy threshold) */
   minApyImprovement?: number;
   
@@ -272,12 +279,7 @@ const SOLANA_POOL_IDS: Record<string, string[]> = {
  */
 async function fetchPoolHistory(poolId: string): Promise<LlamaChartDataPoint[]> {
   try {
-    const response = await fetch(`${LLAMA_CHART_API}/${poolId}`);
-    if (!response.ok) {
-      console.warn(`Failed to fetch pool ${poolId}: ${response.status}`);
-      return [];
-    }
-    const data = await response.json();
+    const data = await cachedFetchJson('defillama-chart', `${LLAMA_CHART_API}/${poolId}`);
     return data.data || [];
   } catch (error) {
     console.warn(`Error fetching pool ${poolId}:`, error);
@@ -290,8 +292,7 @@ async function fetchPoolHistory(poolId: string): Promise<LlamaChartDataPoint[]>
  */
 async function fetchSolanaPools(): Promise<LlamaPool[]> {
   try {
-    const response = await fetch(LLAMA_POOLS_API);
-    const data = await response.json();
+    const data = await cachedFetchJson('defillama-pools', LLAMA_POOLS_API);
     return data.data.filter((pool: LlamaPool) => 
       pool.chain === 'Solana' && 
       pool.tvlUsd > 100000 &&
@@ -418,6 +419,7 @@ export function generateSyntheticHistory(
 export class BacktestEngine {
   private config: BacktestConfig;
   private strategyEngine: StrategyEngine;
+  private costModel: StaticCostModel;
   private historicalData: Map<string, HistoricalDataPoint[]>;
   
   // State
@@ -437,6 +439,7 @@ export class BacktestEngine {
     };
     
     this.strategyEngine = new StrategyEngine(config.strategy);
+    this.costModel = new StaticCostModel(this.config.gasCostUsd ?? 0.50, this.config.swapImpactBps);
     this.historicalData = new Map();
     
     // Initialize portfolio
@@ -450,6 +453,14 @@ export class BacktestEngine {
     this.currentDate = config.startDate;
   }
   
+  /**
+   * Backtest a strategy file. `config` supplies capital and the date range,
+   * and overrides the file's cadence, costs or protocols if set.
+   */
+  static fromStrategyFile(path: string, config: Omit<BacktestConfig, 'strategy'>): BacktestEngine {
+    return new BacktestEngine({ ...toBacktestConfig(loadStrategyFile(path)), ...config });
+  }
+
   /**
    * Load historical data for backtesting
    */
@@ -644,12 +655,13 @@ export class BacktestEngine {
     yields: YieldOpportunity[],
     date: Date
   ): Promise<void> {
-    const decision = this.strategyEngine.analyzeWithReasoning(this.portfolio, yields);
+    const decision = await this.strategyEngine.analyzeWithCosts(this.portfolio, yields, this.costModel, { history: false });
     
     // Get best opportunity
+    const eligible = yields.filter(y => isEligible(this.config.strategy, y));
     const analyzed = this.config.useRiskAdjusted 
-      ? analyzeOpportunities(yields)
-      : yields.map(y => ({ ...y, adjustedApy: y.apy, riskScore: { overall: 50 }, sharpeRatio: 1 }));
+      ? analyzeOpportunities(eligible)
+      : eligible.map(y => ({ ...y, adjustedApy: y.apy, riskScore: { overall: 50 }, sharpeRatio: 1 }));
     
     const sorted = analyzed.sort((a, b) => 
       this.config.useRiskAdjusted 
@@ -673,11 +685,25 @@ export class BacktestEngine {
       return; // Not worth rebalancing
     }
     
-    // Calculate gas cost
-    const gasCost = this.config.gasCostUsd || 0.50;
+    // Same rule as live trading: the gain has to pay back the move while we hold it
+    const current = this.portfolio.positions[0];
+    const valueBefore = this.portfolio.totalValue;
+    const cost = await this.costModel.estimate({
+      type: isFirstEntry ? 'deposit' : 'withdraw',
+      from: current
+        ? { protocol: current.protocol, asset: current.asset, amount: current.amount }
+        : { protocol: 'wallet', asset: 'USDC', amount: valueBefore },
+      to: { protocol: best.protocol, asset: best.asset, amount: 0, metadata: best.metadata },
+      expectedApyGain: improvement,
+    }, valueBefore);
+    
+    const holdingDays = this.config.strategy.expectedHoldingDays ?? DEFAULT_EXPECTED_HOLDING_DAYS;
+    if (!isFirstEntry && cost.breakEvenDays > holdingDays) {
+      return;
+    }
     
     // Record trade
-    const valueBefore = this.portfolio.totalValue;
+    const gasCost = cost.gasUsd;
     
     const trade: BacktestTrade = {
       date,
@@ -696,22 +722,23 @@ export class BacktestEngine {
       gasCost,
       reasoning: decision.reasoning.join('; '),
       portfolioValueBefore: valueBefore,
-      portfolioValueAfter: valueBefore - gasCost,
+      portfolioValueAfter: valueBefore - cost.totalUsd,
     };
     
     this.trades.push(trade);
     
-    // Update portfolio
+    // Update portfolio (no price history here: stables are 1:1, others use a $100 reference)
+    const valueAfter = valueBefore - cost.totalUsd;
     this.portfolio = {
       positions: [{
         protocol: best.protocol,
         asset: best.asset,
-        amount: (valueBefore - gasCost) / 100, // Simplified
-        valueUsd: valueBefore - gasCost,
+        amount: getTokenRegistry().isStable(best.asset) ? valueAfter : valueAfter / 100,
+        valueUsd: valueAfter,
         currentApy: best.apy,
         entryTime: date,
       }],
-      totalValue: valueBefore - gasCost,
+      totalValue: valueAfter,
       weightedApy: best.apy,
     };
     
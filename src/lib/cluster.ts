@@ -0,0 +1,152 @@
+/**
+ * Cluster Profiles
+ *
+ * Everything that differs between clusters switches together: the RPC
+ * endpoint, token mints, protocol program ids and well-known accounts, and
+ * the Jupiter swap API.
+ *
+ * - mainnet: the default
+ * - devnet: public devnet RPC and devnet mints; protocols mostly deploy under
+ *   their mainnet program ids but with their own markets, so override what
+ *   you use via CLUSTER_OVERRIDES_PATH
+ * - localnet: solana-test-validator loaded with mainnet fixtures (see
+ *   localnet.ts), so every address matches mainnet
+ *
+ * Select with SOLANA_CLUSTER; RPC_URL and JUPITER_API_URL override the
+ * endpoints. Adapters resolve program ids when they are first imported, so
+ * set the environment before loading the library.
+ */
+
+import { readFileSync } from 'fs';
+import { Commitment, Connection, PublicKey } from '@solana/web3.js';
+import { getDataSource } from './data-source';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ClusterName = 'mainnet' | 'devnet' | 'localnet';
+
+export interface ClusterProfile {
+  name: ClusterName;
+  rpcUrl: string;
+  pythCluster: 'mainnet-beta' | 'devnet';
+  jupiterApi?: string;                 // Unset where Jupiter doesn't route
+  tokens: Record<string, string>;      // Symbol -> mint, where it differs from mainnet
+  programs: Record<string, string>;    // Program name -> id, where it differs from mainnet
+  accounts: Record<string, string>;    // Well-known account name -> address, where it differs
+}
+
+export type ClusterOverrides = Partial<Omit<ClusterProfile, 'name'>>;
+
+// ============================================================================
+// Profiles
+// ============================================================================
+
+export const CLUSTER_PROFILES: Record<ClusterName, ClusterProfile> = {
+  mainnet: {
+    name: 'mainnet',
+    rpcUrl: 'https://api.mainnet-beta.solana.com',
+    pythCluster: 'mainnet-beta',
+    jupiterApi: 'https://quote-api.jup.ag/v6',
+    tokens: {},
+    programs: {},
+    accounts: {},
+  },
+  devnet: {
+    name: 'devnet',
+    rpcUrl: 'https://api.devnet.solana.com',
+    pythCluster: 'devnet',
+    tokens: {
+      USDC: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',   // Circle devnet USDC
+    },
+    programs: {},
+    accounts: {},
+  },
+  localnet: {
+    name: 'localnet',
+    rpcUrl: 'http://127.0.0.1:8899',
+    pythCluster: 'mainnet-beta',       // Price accounts are cloned from mainnet
+    jupiterApi: 'http://127.0.0.1:8080', // Self-hosted swap API pointed at the validator
+    tokens: {},
+    programs: {},
+    accounts: {},
+  },
+};
+
+const CLUSTER_ALIASES: Record<string, ClusterName> = {
+  'mainnet-beta': 'mainnet',
+  localhost: 'localnet',
+};
+
+// ============================================================================
+// Lookups
+// ============================================================================
+
+/**
+ * Program id on the active cluster, falling back to the mainnet id
+ */
+export function getProgramId(name: string, mainnetId: string): PublicKey {
+  return new PublicKey(getClusterProfile().programs[name] ?? mainnetId);
+}
+
+/**
+ * Well-known account (market, group, ...) on the active cluster, falling
+ * back to the mainnet address
+ */
+export function getAccountAddress(name: string, mainnetAddress: string): string {
+  return getClusterProfile().accounts[name] ?? mainnetAddress;
+}
+
+/**
+ * Connection to the active cluster's RPC (or another endpoint). RPC traffic
+ * goes through the data source so it can be recorded and replayed.
+ */
+export function createConnection(
+  rpcUrl: string = getClusterProfile().rpcUrl,
+  commitment: Commitment = 'confirmed'
+): Connection {
+  const source = getDataSource();
+  return new Connection(rpcUrl, {
+    commitment,
+    ...(source.mode !== 'live' && { fetch: source.fetch }),
+  });
+}
+
+function resolveClusterName(name: string): ClusterName {
+  const resolved = CLUSTER_ALIASES[name] ?? name;
+  if (!(resolved in CLUSTER_PROFILES)) {
+    throw new Error(`Unknown cluster: ${name} (use ${Object.keys(CLUSTER_PROFILES).join(', ')})`);
+  }
+  return resolved as ClusterName;
+}
+
+function applyOverrides(profile: ClusterProfile, overrides: ClusterOverrides): ClusterProfile {
+  return {
+    ...profile,
+    ...overrides,
+    tokens: { ...profile.tokens, ...overrides.tokens },
+    programs: { ...profile.programs, ...overrides.programs },
+    accounts: { ...profile.accounts, ...overrides.accounts },
+  };
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let clusterProfile: ClusterProfile | null = null;
+
+export function getClusterProfile(): ClusterProfile {
+  if (!clusterProfile) {
+    let profile = CLUSTER_PROFILES[resolveClusterName(process.env.SOLANA_CLUSTER || 'mainnet')];
+    if (process.env.CLUSTER_OVERRIDES_PATH) {
+      profile = applyOverrides(profile, JSON.parse(readFileSync(process.env.CLUSTER_OVERRIDES_PATH, 'utf-8')));
+    }
+    clusterProfile = applyOverrides(profile, {
+      ...(process.env.RPC_URL && { rpcUrl: process.env.RPC_URL }),
+      ...(process.env.JUPITER_API_URL && { jupiterApi: process.env.JUPITER_API_URL }),
+    });
+  }
+  return clusterProfile;
+}
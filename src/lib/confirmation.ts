@@ -0,0 +1,334 @@
+/**
+ * Transaction Confirmation Tracker
+ *
+ * Sends signed transactions and follows them until the outcome is certain:
+ * - landed: confirmed on-chain without error
+ * - failed: confirmed on-chain with an error (fees were still paid)
+ * - expired: the blockhash passed its last valid block height without the
+ *   transaction landing, so it never can
+ *
+ * Until then the transaction is rebroadcast every few seconds, since RPC
+ * nodes drop transactions under load. Each tracked transaction is written to
+ * disk before it is first sent, so a restarted process can find out what
+ * happened to anything that was in flight.
+ *
+ * Storage: File-based JSON (one file per signature)
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import {
+  Connection,
+  SendTransactionError,
+  SignatureStatus,
+  TransactionSignature,
+  VersionedTransaction,
+} from '@solana/web3.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ConfirmationStatus = 'pending' | 'landed' | 'failed' | 'expired';
+
+export interface TrackedTransaction {
+  signature: string;
+  serialized: string;                  // Signed transaction, base64 (for rebroadcasts)
+  blockhash: string;
+  lastValidBlockHeight: number;
+  tradeId?: string;                    // Trade the transaction belongs to, if any
+  sentAt: number;
+  status: ConfirmationStatus;
+  slot?: number;                       // Slot it landed in
+  err?: unknown;                       // On-chain error for failed transactions
+  resolvedAt?: number;
+}
+
+export interface ConfirmationResult {
+  signature: string;
+  status: Exclude<ConfirmationStatus, 'pending'>;
+  slot?: number;
+  err?: unknown;
+}
+
+export interface ConfirmationOptions {
+  rebroadcastIntervalMs: number;       // Resend and poll this often
+  maxWaitMs: number;                   // Give up (leaving the entry pending) if the RPC can't tell us
+  retentionMs: number;                 // Resolved entries older than this are pruned
+}
+
+export interface TrackOptions {
+  lastValidBlockHeight: number;
+  tradeId?: string;
+}
+
+export const DEFAULT_CONFIRMATION_OPTIONS: ConfirmationOptions = {
+  rebroadcastIntervalMs: 2000,
+  maxWaitMs: 3 * 60 * 1000,            // A blockhash is valid for ~60-90s
+  retentionMs: 7 * 24 * 60 * 60 * 1000,
+};
+
+// ============================================================================
+// Confirmation Tracker
+// ============================================================================
+
+export class ConfirmationTracker {
+  private dataDir: string;
+  private options: ConfirmationOptions;
+  private entries: Map<string, TrackedTransaction> = new Map();
+
+  constructor(dataDir: string = './data/confirmations', options: Partial<ConfirmationOptions> = {}) {
+    this.dataDir = dataDir;
+    this.options = { ...DEFAULT_CONFIRMATION_OPTIONS, ...options };
+    this.ensureDataDir();
+    this.load();
+  }
+
+  /**
+   * Send a signed transaction and wait until it lands, fails or expires.
+   * Throws only if the RPC's preflight rejects the first send or the outcome
+   * can't be determined within maxWaitMs; the entry then stays pending for
+   * resolve().
+   */
+  async sendAndConfirm(
+    connection: Connection,
+    tx: VersionedTransaction,
+    options: TrackOptions
+  ): Promise<ConfirmationResult> {
+    const entry: TrackedTransaction = {
+      signature: encodeBase58(tx.signatures[0]),
+      serialized: Buffer.from(tx.serialize()).toString('base64'),
+      blockhash: tx.message.recentBlockhash,
+      lastValidBlockHeight: options.lastValidBlockHeight,
+      tradeId: options.tradeId,
+      sentAt: Date.now(),
+      status: 'pending',
+    };
+
+    // Persist first: if we crash mid-send the signature is still on record
+    this.save(entry);
+
+    try {
+      await connection.sendRawTransaction(Buffer.from(entry.serialized, 'base64'), {
+        skipPreflight: false,
+        maxRetries: 0,
+      });
+    } catch (err) {
+      if (err instanceof SendTransactionError) {
+        // Rejected by the RPC's own simulation, so it was never forwarded
+        this.finish(entry, { signature: entry.signature, status: 'failed', err: String(err) });
+        throw err;
+      }
+      // A network error or timeout may hide a transaction already forwarded
+      console.warn(`Sending ${entry.signature} failed, tracking it anyway:`, err);
+    }
+
+    return this.track(connection, entry);
+  }
+
+  /**
+   * Final outcome of a tracked transaction. Pending entries (e.g. from
+   * before a restart) are rebroadcast until they resolve.
+   */
+  async resolve(connection: Connection, signature: TransactionSignature): Promise<ConfirmationResult> {
+    const entry = this.entries.get(signature);
+    if (!entry) {
+      throw new Error(`Transaction ${signature} is not tracked`);
+    }
+    if (entry.status !== 'pending') {
+      return toResult(entry);
+    }
+    return this.track(connection, entry);
+  }
+
+  /**
+   * Resolve every pending entry, e.g. on startup
+   */
+  async resolvePending(connection: Connection): Promise<ConfirmationResult[]> {
+    const results: ConfirmationResult[] = [];
+    for (const entry of this.getPending()) {
+      try {
+        results.push(await this.track(connection, entry));
+      } catch (err) {
+        console.warn(`Could not resolve ${entry.signature}:`, err);
+      }
+    }
+    return results;
+  }
+
+  get(signature: TransactionSignature): TrackedTransaction | undefined {
+    return this.entries.get(signature);
+  }
+
+  getPending(): TrackedTransaction[] {
+    return [...this.entries.values()].filter(e => e.status === 'pending');
+  }
+
+  getByTrade(tradeId: string): TrackedTransaction[] {
+    return [...this.entries.values()]
+      .filter(e => e.tradeId === tradeId)
+      .sort((a, b) => a.sentAt - b.sentAt);
+  }
+
+  // ============================================================================
+  // Tracking
+  // ============================================================================
+
+  private async track(connection: Connection, entry: TrackedTransaction): Promise<ConfirmationResult> {
+    const raw = Buffer.from(entry.serialized, 'base64');
+    const deadline = Date.now() + this.options.maxWaitMs;
+
+    while (Date.now() < deadline) {
+      try {
+        const status = await this.getStatus(connection, entry);
+        const result = toOutcome(entry, status);
+        if (result) return this.finish(entry, result);
+
+        const blockHeight = await connection.getBlockHeight('confirmed');
+        if (blockHeight > entry.lastValidBlockHeight) {
+          // It may still have landed in the last valid blocks
+          const final = await this.getStatus(connection, entry);
+          const outcome = toOutcome(entry, final);
+          if (outcome) return this.finish(entry, outcome);
+          // Processed but not yet confirmed: keep waiting, it can't be rebroadcast
+          if (!final) return this.finish(entry, { signature: entry.signature, status: 'expired' });
+          await sleep(this.options.rebroadcastIntervalMs);
+          continue;
+        }
+
+        await connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 }).catch(() => {
+          // Rebroadcasts of an already-processed transaction are rejected; the status check covers it
+        });
+      } catch (err) {
+        console.warn(`Confirmation check for ${entry.signature} failed:`, err);
+      }
+
+      await sleep(this.options.rebroadcastIntervalMs);
+    }
+
+    throw new Error(`Could not determine the outcome of ${entry.signature} within ${this.options.maxWaitMs}ms`);
+  }
+
+  private async getStatus(connection: Connection, entry: TrackedTransaction): Promise<SignatureStatus | null> {
+    const { value } = await connection.getSignatureStatuses([entry.signature], {
+      searchTransactionHistory: true,
+    });
+    return value[0];
+  }
+
+  private finish(entry: TrackedTransaction, result: ConfirmationResult): ConfirmationResult {
+    entry.status = result.status;
+    entry.slot = result.slot;
+    entry.err = result.err;
+    entry.resolvedAt = Date.now();
+    this.save(entry);
+    return result;
+  }
+
+  // ============================================================================
+  // Storage
+  // ============================================================================
+
+  private ensureDataDir(): void {
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+  }
+
+  private getFilePath(signature: string): string {
+    return join(this.dataDir, `${signature}.json`);
+  }
+
+  private save(entry: TrackedTransaction): void {
+    this.entries.set(entry.signature, entry);
+    writeFileSync(this.getFilePath(entry.signature), JSON.stringify(entry, null, 2));
+  }
+
+  private load(): void {
+    const cutoff = Date.now() - this.options.retentionMs;
+
+    for (const file of readdirSync(this.dataDir).filter(f => f.endsWith('.json'))) {
+      const filePath = join(this.dataDir, file);
+      let entry: TrackedTransaction;
+      try {
+        entry = JSON.parse(readFileSync(filePath, 'utf-8'));
+      } catch {
+        continue;
+      }
+
+      if (entry.status !== 'pending' && (entry.resolvedAt ?? entry.sentAt) < cutoff) {
+        unlinkSync(filePath);
+        continue;
+      }
+      this.entries.set(entry.signature, entry);
+    }
+  }
+}
+
+/**
+ * Outcome once the transaction is confirmed, or null while it isn't
+ */
+function toOutcome(entry: TrackedTransaction, status: SignatureStatus | null): ConfirmationResult | null {
+  if (!status) return null;
+  if (status.confirmationStatus !== 'confirmed' && status.confirmationStatus !== 'finalized') return null;
+
+  return status.err
+    ? { signature: entry.signature, status: 'failed', slot: status.slot, err: status.err }
+    : { signature: entry.signature, status: 'landed', slot: status.slot };
+}
+
+function toResult(entry: TrackedTransaction): ConfirmationResult {
+  return {
+    signature: entry.signature,
+    status: entry.status as ConfirmationResult['status'],
+    slot: entry.slot,
+    err: entry.err,
+  };
+}
+
+/**
+ * Throw unless the transaction landed, saying whether it failed or expired
+ */
+export function assertLanded(result: ConfirmationResult): void {
+  if (result.status === 'failed') {
+    throw new Error(`Transaction ${result.signature} failed: ${JSON.stringify(result.err)}`);
+  }
+  if (result.status === 'expired') {
+    throw new Error(`Transaction ${result.signature} expired before landing`);
+  }
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Base58 signature string, as the RPC reports it
+ */
+function encodeBase58(bytes: Uint8Array): string {
+  let value = BigInt('0x' + (Buffer.from(bytes).toString('hex') || '0'));
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+    encoded = '1' + encoded;
+  }
+  return encoded;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let confirmationTracker: ConfirmationTracker | null = null;
+
+export function getConfirmationTracker(dataDir?: string): ConfirmationTracker {
+  if (!confirmationTracker) {
+    confirmationTracker = new ConfirmationTracker(dataDir || process.env.CONFIRMATION_DIR);
+  }
+  return confirmationTracker;
+}
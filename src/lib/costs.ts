@@ -0,0 +1,301 @@
+/**
+ * Rebalance Cost Model
+ *
+ * Prices a RebalanceAction before it runs:
+ * - network fees for each transaction it needs (GasOptimizer)
+ * - swap price impact and route fees (a Jupiter quote, valued at market prices)
+ * - entry and exit fees, and exit delays, that positions and opportunities
+ *   report (per pool) or their adapters declare
+ *
+ * Dividing the cost by the daily APY gain gives the days the move takes to
+ * pay for itself. A move is worthwhile only if that fits inside the time
+ * the strategy expects to hold the new position, so small positions stop
+ * churning on APY gaps that never pay back.
+ */
+
+import { Connection } from '@solana/web3.js';
+import { ProtocolAdapter, ProtocolAdapterMetadata, RebalanceAction } from '../types';
+import { AdapterRegistry, findAdapterForProtocol, getAdapterRegistry } from './registry';
+import { GasOptimizer } from './gas-optimizer';
+import { JupiterSwap, getTokenPricesUsd } from './jupiter';
+import { getTokenRegistry } from './tokens';
+
+export const DEFAULT_EXPECTED_HOLDING_DAYS = 30;
+
+const FALLBACK_SOL_PRICE = 180;
+const FALLBACK_IMPACT_BPS = 30;        // Used when no quote is available
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CostLeg = 'withdraw' | 'swap' | 'deposit';
+
+export interface ActionCost {
+  legs: CostLeg[];                     // One transaction each
+  valueUsd: number;                    // Value being moved
+  gasUsd: number;
+  swapImpactUsd: number;
+  protocolFeesUsd: number;
+  totalUsd: number;
+  exitDelayDays: number;               // Funds earn nothing until the exit completes
+  dailyGainUsd: number;
+  breakEvenDays: number;               // Infinity if the move gains nothing
+  estimated: boolean;                  // A quote or price was unavailable and a fallback was used
+}
+
+/**
+ * Prices actions: RebalanceCostModel live, StaticCostModel offline
+ */
+export interface CostEstimator {
+  estimate(action: RebalanceAction, valueUsd: number, apyGain?: number): Promise<ActionCost>;
+}
+
+export interface PricedAction {
+  action: RebalanceAction;
+  cost: ActionCost;
+  worthwhile: boolean;                 // Breaks even within the expected holding period
+}
+
+// ============================================================================
+// Cost Model
+// ============================================================================
+
+export class RebalanceCostModel implements CostEstimator {
+  private jupiter: JupiterSwap;
+  private gas: GasOptimizer;
+  private adapters: ProtocolAdapter[];
+
+  constructor(connection: Connection, registry: AdapterRegistry = getAdapterRegistry()) {
+    this.jupiter = new JupiterSwap(connection);
+    this.gas = new GasOptimizer(connection);
+    this.adapters = registry.create(connection);
+  }
+
+  /**
+   * Cost of an action moving `valueUsd`, and how long its APY gain
+   * (percentage points, the action's expected gain by default) takes to
+   * cover it
+   */
+  async estimate(
+    action: RebalanceAction,
+    valueUsd: number,
+    apyGain: number = action.expectedApyGain
+  ): Promise<ActionCost> {
+    const plan = this.planLegs(action);
+    let estimated = false;
+
+    const prices = await this.getPrices(['SOL', ...(plan.swap ? [plan.swap.from, plan.swap.to] : [])]);
+    const solPrice = prices.SOL ?? FALLBACK_SOL_PRICE;
+    if (!prices.SOL) estimated = true;
+
+    let gasUsd = 0;
+    if (plan.legs.length > 0) {
+      const budget = await this.gas.planComputeBudget(action);
+      gasUsd = (budget.estimatedFeeLamports * plan.legs.length / 1e9) * solPrice;
+    }
+
+    let swapImpactUsd = 0;
+    if (plan.swap) {
+      const impact = await this.getSwapImpactUsd(plan.swap, valueUsd, prices);
+      swapImpactUsd = impact.usd;
+      estimated ||= impact.estimated;
+    }
+
+    const exit = action.type === 'withdraw' ? feeTerms(action.from?.metadata, plan.exit) : {};
+    const entry = action.to ? feeTerms(action.to.metadata, plan.entry) : {};
+    const feeBps = (exit.exitFeeBps ?? 0) + (entry.entryFeeBps ?? 0);
+    const protocolFeesUsd = valueUsd * feeBps / 10_000;
+    const exitDelayDays = exit.exitDelayDays ?? 0;
+    const totalUsd = gasUsd + swapImpactUsd + protocolFeesUsd;
+
+    return {
+      legs: plan.legs,
+      valueUsd,
+      gasUsd,
+      swapImpactUsd,
+      protocolFeesUsd,
+      totalUsd,
+      exitDelayDays,
+      dailyGainUsd: dailyGainUsd(valueUsd, apyGain),
+      breakEvenDays: breakEvenDays(totalUsd, valueUsd, apyGain, exitDelayDays),
+      estimated,
+    };
+  }
+
+  /**
+   * The transactions an action takes, mirroring how the executor runs it
+   */
+  private planLegs(action: RebalanceAction): {
+    legs: CostLeg[];
+    exit?: ProtocolAdapter;
+    entry?: ProtocolAdapter;
+    swap?: { from: string; to: string; amount: number };
+  } {
+    const legs: CostLeg[] = [];
+
+    if (action.type === 'swap') {
+      if (!action.from || !action.to) return { legs };
+      return {
+        legs: ['swap'],
+        swap: { from: action.from.asset, to: action.to.asset, amount: action.from.amount },
+      };
+    }
+
+    let exit: ProtocolAdapter | undefined;
+    if (action.type === 'withdraw' && action.from) {
+      exit = this.getAdapterForProtocol(action.from.protocol);
+      if (exit?.buildWithdraw) legs.push('withdraw');
+    }
+    if (!action.to) return { legs, exit };
+
+    const entry = this.getAdapterForProtocol(action.to.protocol);
+    const depositAsset = entry?.buildDeposit
+      ? entry.metadata.depositAsset || action.to.asset
+      : action.to.asset;
+    const held = action.from ?? { asset: depositAsset, amount: action.to.amount };
+
+    let swap: { from: string; to: string; amount: number } | undefined;
+    if (!sameToken(held.asset, depositAsset)) {
+      legs.push('swap');
+      swap = { from: held.asset, to: depositAsset, amount: held.amount };
+    }
+    if (entry?.buildDeposit) legs.push('deposit');
+
+    return { legs, exit, entry, swap };
+  }
+
+  /**
+   * Value lost to price impact and route fees: what goes in minus what comes
+   * out, both at market prices. Without a quote, assume a typical impact.
+   */
+  private async getSwapImpactUsd(
+    swap: { from: string; to: string; amount: number },
+    valueUsd: number,
+    prices: Record<string, number>
+  ): Promise<{ usd: number; estimated: boolean }> {
+    const fallback = { usd: valueUsd * FALLBACK_IMPACT_BPS / 10_000, estimated: true };
+    const inPrice = prices[swap.from];
+    const outPrice = prices[swap.to];
+    if (!inPrice || !outPrice || !(swap.amount > 0)) return fallback;
+
+    try {
+      const { outputAmount } = await this.jupiter.getTokenQuote(swap.from, swap.to, swap.amount);
+      return { usd: Math.max(0, swap.amount * inPrice - outputAmount * outPrice), estimated: false };
+    } catch (err) {
+      console.warn(`Swap quote ${swap.from} -> ${swap.to} failed, assuming ${FALLBACK_IMPACT_BPS} bps:`, err);
+      return fallback;
+    }
+  }
+
+  /**
+   * USD prices by symbol; tokens without a price are omitted
+   */
+  private async getPrices(assets: string[]): Promise<Record<string, number>> {
+    const registry = getTokenRegistry();
+    const mints = new Map(assets.flatMap(asset => {
+      const mint = registry.getMint(asset);
+      return mint ? [[asset, mint] as const] : [];
+    }));
+
+    try {
+      const byMint = await getTokenPricesUsd([...mints.values()]);
+      return Object.fromEntries(
+        [...mints].filter(([, mint]) => byMint[mint]).map(([asset, mint]) => [asset, byMint[mint]])
+      );
+    } catch (err) {
+      console.warn('Failed to fetch token prices for cost estimate:', err);
+      return {};
+    }
+  }
+
+  private getAdapterForProtocol(protocol: string): ProtocolAdapter | undefined {
+    return findAdapterForProtocol(this.adapters, protocol);
+  }
+}
+
+/**
+ * Costs without an RPC or quotes, e.g. for backtests: a flat network cost
+ * per action, a fixed price impact on any change of asset, and the fees
+ * legs report in their metadata
+ */
+export class StaticCostModel implements CostEstimator {
+  private gasUsd: number;
+  private impactBps: number;
+
+  constructor(gasUsd: number, impactBps: number = FALLBACK_IMPACT_BPS) {
+    this.gasUsd = gasUsd;
+    this.impactBps = impactBps;
+  }
+
+  async estimate(
+    action: RebalanceAction,
+    valueUsd: number,
+    apyGain: number = action.expectedApyGain
+  ): Promise<ActionCost> {
+    const legs: CostLeg[] = [];
+    if (action.type === 'withdraw' && action.from) legs.push('withdraw');
+    if (action.from && action.to && !sameToken(action.from.asset, action.to.asset)) legs.push('swap');
+    if (action.type !== 'swap' && action.to) legs.push('deposit');
+
+    const gasUsd = legs.length > 0 ? this.gasUsd : 0;
+    const swapImpactUsd = legs.includes('swap') ? valueUsd * this.impactBps / 10_000 : 0;
+    const exit = action.type === 'withdraw' ? feeTerms(action.from?.metadata) : {};
+    const entry = action.to ? feeTerms(action.to.metadata) : {};
+    const protocolFeesUsd = valueUsd * ((exit.exitFeeBps ?? 0) + (entry.entryFeeBps ?? 0)) / 10_000;
+    const exitDelayDays = exit.exitDelayDays ?? 0;
+    const totalUsd = gasUsd + swapImpactUsd + protocolFeesUsd;
+
+    return {
+      legs,
+      valueUsd,
+      gasUsd,
+      swapImpactUsd,
+      protocolFeesUsd,
+      totalUsd,
+      exitDelayDays,
+      dailyGainUsd: dailyGainUsd(valueUsd, apyGain),
+      breakEvenDays: breakEvenDays(totalUsd, valueUsd, apyGain, exitDelayDays),
+      estimated: true,
+    };
+  }
+}
+
+type FeeTerms = Pick<ProtocolAdapterMetadata, 'entryFeeBps' | 'exitFeeBps' | 'exitDelayDays'>;
+
+/**
+ * Fees and delay for one leg: what the position or opportunity reports
+ * (pool-specific, read on-chain), else what its adapter declares
+ */
+function feeTerms(metadata: Record<string, unknown> | undefined, adapter?: ProtocolAdapter): FeeTerms {
+  const read = (key: keyof FeeTerms) =>
+    typeof metadata?.[key] === 'number' ? metadata[key] as number : adapter?.metadata[key];
+  return {
+    entryFeeBps: read('entryFeeBps'),
+    exitFeeBps: read('exitFeeBps'),
+    exitDelayDays: read('exitDelayDays'),
+  };
+}
+
+// ============================================================================
+// Break-even
+// ============================================================================
+
+export function dailyGainUsd(valueUsd: number, apyGain: number): number {
+  return valueUsd * (apyGain / 100) / 365;
+}
+
+/**
+ * Days until an APY gain (percentage points) on `valueUsd` covers `costUsd`,
+ * counting from when the funds are earning again
+ */
+export function breakEvenDays(costUsd: number, valueUsd: number, apyGain: number, exitDelayDays: number = 0): number {
+  const gain = dailyGainUsd(valueUsd, apyGain);
+  if (!(gain > 0)) return Infinity;
+  return exitDelayDays + costUsd / gain;
+}
+
+function sameToken(a: string, b: string): boolean {
+  const registry = getTokenRegistry();
+  return (registry.getMint(a) ?? a) === (registry.getMint(b) ?? b);
+}
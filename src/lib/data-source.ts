@@ -0,0 +1,251 @@
+/**
+ * External Data Source (Record / Replay)
+ *
+ * Every outbound data request - protocol APIs, DeFi Llama, Jupiter, WARGAMES
+ * and Solana RPC (through the Connection's fetch) - goes through dataFetch.
+ * - live: plain fetch
+ * - record: fetch, and save every response to a fixture bundle
+ * - replay: serve responses from the bundle with no network access
+ *
+ * A bundle is a directory with one file per distinct request. Requests that
+ * repeat (e.g. polling the same RPC method) replay their responses in the
+ * order they were recorded, then keep returning the last one. JSON-RPC ids
+ * are ignored when matching and rewritten on replay. Side effects (alert
+ * webhooks, remote signing) are not data and always go out live.
+ *
+ * Select with DATA_SOURCE_MODE and DATA_BUNDLE_DIR.
+ *
+ * Storage: File-based JSON (one file per request, plus bundle.json metadata)
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DataSourceMode = 'live' | 'record' | 'replay';
+
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  contentType: string | null;
+  body: string;
+  recordedAt: number;
+}
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  body?: string;                       // Normalized request body (JSON-RPC ids removed)
+  responses: RecordedResponse[];
+}
+
+export interface BundleInfo {
+  createdAt: number;
+  updatedAt: number;                   // Last recorded response
+}
+
+// ============================================================================
+// Data Source
+// ============================================================================
+
+export class DataSource {
+  readonly mode: DataSourceMode;
+  private dataDir: string;
+  private recorded = new Map<string, RecordedRequest>();
+  private replayed = new Map<string, number>();
+  private info: BundleInfo;
+
+  constructor(mode: DataSourceMode = 'live', dataDir: string = './data/bundles/default') {
+    this.mode = mode;
+    this.dataDir = dataDir;
+
+    if (mode === 'replay' && !existsSync(join(dataDir, 'bundle.json'))) {
+      throw new Error(`No fixture bundle at ${dataDir}`);
+    }
+    if (mode === 'record') {
+      this.ensureDataDir();
+    }
+    this.info = this.loadInfo();
+  }
+
+  /**
+   * fetch() through the active mode. Also usable as a Connection's fetch.
+   */
+  fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    if (this.mode === 'live') {
+      return fetch(input, init);
+    }
+
+    const method = (init?.method || (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    const url = input instanceof Request ? input.url : String(input);
+    const body = typeof init?.body === 'string' ? init.body : undefined;
+    const normalizedBody = body !== undefined ? normalizeBody(body) : undefined;
+    const key = requestKey(method, url, normalizedBody);
+
+    if (this.mode === 'replay') {
+      return this.replay(key, method, url, body);
+    }
+
+    const response = await fetch(input, init);
+    const recorded: RecordedResponse = {
+      status: response.status,
+      statusText: response.statusText,
+      contentType: response.headers.get('content-type'),
+      body: await response.text(),
+      recordedAt: Date.now(),
+    };
+    this.record(key, { method, url, body: normalizedBody, responses: [] }, recorded);
+
+    return toResponse(recorded);
+  };
+
+  getInfo(): BundleInfo {
+    return { ...this.info };
+  }
+
+  // ============================================================================
+  // Record / Replay
+  // ============================================================================
+
+  /**
+   * Re-recording a request replaces what an earlier session recorded for it
+   */
+  private record(key: string, request: RecordedRequest, response: RecordedResponse): void {
+    const entry = this.recorded.get(key) || request;
+    entry.responses.push(response);
+    this.recorded.set(key, entry);
+    this.info.updatedAt = response.recordedAt;
+
+    writeFileSync(this.getFilePath(key), JSON.stringify(entry));
+    writeFileSync(join(this.dataDir, 'bundle.json'), JSON.stringify(this.info, null, 2));
+  }
+
+  private replay(key: string, method: string, url: string, body?: string): Response {
+    const entry = this.recorded.get(key) || this.readRequest(key);
+    if (!entry || entry.responses.length === 0) {
+      throw new Error(`No recorded response for ${method} ${url}${body ? ` ${body.slice(0, 200)}` : ''}`);
+    }
+    this.recorded.set(key, entry);
+
+    const index = this.replayed.get(key) ?? 0;
+    this.replayed.set(key, index + 1);
+    const recorded = entry.responses[Math.min(index, entry.responses.length - 1)];
+
+    return toResponse({
+      ...recorded,
+      body: body !== undefined ? withRpcIds(recorded.body, body) : recorded.body,
+    });
+  }
+
+  // ============================================================================
+  // Storage
+  // ============================================================================
+
+  private ensureDataDir(): void {
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+  }
+
+  private getFilePath(key: string): string {
+    return join(this.dataDir, `${key}.json`);
+  }
+
+  private readRequest(key: string): RecordedRequest | undefined {
+    const filePath = this.getFilePath(key);
+    if (!existsSync(filePath)) return undefined;
+
+    try {
+      return JSON.parse(readFileSync(filePath, 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private loadInfo(): BundleInfo {
+    const filePath = join(this.dataDir, 'bundle.json');
+    if (existsSync(filePath)) {
+      try {
+        return JSON.parse(readFileSync(filePath, 'utf-8'));
+      } catch {
+        // Rebuilt below; request files are still served
+      }
+    }
+    const now = Date.now();
+    return { createdAt: now, updatedAt: now };
+  }
+}
+
+function requestKey(method: string, url: string, body?: string): string {
+  return createHash('sha1').update(`${method} ${url}\n${body ?? ''}`).digest('hex');
+}
+
+/**
+ * JSON-RPC ids change on every call; drop them so identical calls match
+ */
+function normalizeBody(body: string): string {
+  try {
+    const parsed = JSON.parse(body);
+    const strip = (message: any) =>
+      message && typeof message === 'object' && 'jsonrpc' in message ? { ...message, id: undefined } : message;
+    return JSON.stringify(Array.isArray(parsed) ? parsed.map(strip) : strip(parsed));
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Give a recorded JSON-RPC response the ids of the request being replayed
+ */
+function withRpcIds(responseBody: string, requestBody: string): string {
+  try {
+    const request = JSON.parse(requestBody);
+    const response = JSON.parse(responseBody);
+    if (Array.isArray(request) && Array.isArray(response)) {
+      return JSON.stringify(response.map((r, i) => ({ ...r, id: request[i]?.id ?? r.id })));
+    }
+    if (request && 'jsonrpc' in request && response && typeof response === 'object' && 'id' in response) {
+      return JSON.stringify({ ...response, id: request.id });
+    }
+    return responseBody;
+  } catch {
+    return responseBody;
+  }
+}
+
+function toResponse(recorded: RecordedResponse): Response {
+  const nullBody = [101, 204, 205, 304].includes(recorded.status);
+  return new Response(nullBody ? null : recorded.body, {
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: recorded.contentType ? { 'content-type': recorded.contentType } : {},
+  });
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let dataSource: DataSource | null = null;
+
+export function getDataSource(): DataSource {
+  if (!dataSource) {
+    const mode = (process.env.DATA_SOURCE_MODE || 'live') as DataSourceMode;
+    if (!['live', 'record', 'replay'].includes(mode)) {
+      throw new Error(`Invalid DATA_SOURCE_MODE: ${mode} (use live, record or replay)`);
+    }
+    dataSource = new DataSource(mode, process.env.DATA_BUNDLE_DIR);
+  }
+  return dataSource;
+}
+
+/**
+ * Shorthand for getDataSource().fetch()
+ */
+export function dataFetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  return getDataSource().fetch(input, init);
+}
@@ -1,10 +1,22 @@
-import { createClient } from '@libsql/client';
+import { createClient, type Client } from '@libsql/client';
 
-// Turso SQLite client
-const db = createClient({
-  url: process.env.TURSO_DATABASE_URL || '',
-  authToken: process.env.TURSO_AUTH_TOKEN || '',
-});
+// Turso SQLite client, created on first use so that importing this module
+// doesn't require TURSO_DATABASE_URL
+let client: Client | null = null;
+
+export function getDb(): Client {
+  if (!client) {
+    client = createClient({
+      url: process.env.TURSO_DATABASE_URL || '',
+      authToken: process.env.TURSO_AUTH_TOKEN || '',
+    });
+  }
+  return client;
+}
+
+export function isDbConfigured(): boolean {
+  return !!process.env.TURSO_DATABASE_URL;
+}
 
 export interface YieldSnapshot {
   id?: number;
@@ -19,7 +31,7 @@ export interface YieldSnapshot {
 
 // Initialize schema (run once)
 export async function initSchema(): Promise<void> {
-  await db.execute(`
+  await getDb().execute(`
     CREATE TABLE IF NOT EXISTS yield_snapshots (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       timestamp INTEGER NOT NULL,
@@ -33,9 +45,9 @@ export async function initSchema(): Promise<void> {
   `);
   
   // Create indexes if they don't exist
-  await db.execute(`CREATE INDEX IF NOT EXISTS idx_snapshots_time ON yield_snapshots(timestamp DESC)`);
-  await db.execute(`CREATE INDEX IF NOT EXISTS idx_snapshots_protocol ON yield_snapshots(protocol, asset)`);
-  await db.execute(`CREATE INDEX IF NOT EXISTS idx_snapshots_pool ON yield_snapshots(pool_id)`);
+  await getDb().execute(`CREATE INDEX IF NOT EXISTS idx_snapshots_time ON yield_snapshots(timestamp DESC)`);
+  await getDb().execute(`CREATE INDEX IF NOT EXISTS idx_snapshots_protocol ON yield_snapshots(protocol, asset)`);
+  await getDb().execute(`CREATE INDEX IF NOT EXISTS idx_snapshots_pool ON yield_snapshots(pool_id)`);
 }
 
 // Insert yield snapshots (batch)
@@ -45,7 +57,7 @@ export async function insertSnapshots(snapshots: Omit<YieldSnapshot, 'id' | 'cre
   const timestamp = Math.floor(Date.now() / 1000);
   
   // Batch insert using transaction
-  const tx = await db.transaction('write');
+  const tx = await getDb().transaction('write');
   try {
     for (const s of snapshots) {
       await tx.execute({
@@ -65,7 +77,7 @@ export async function insertSnapshots(snapshots: Omit<YieldSnapshot, 'id' | 'cre
 export async function getPoolHistory(poolId: string, days: number = 7): Promise<YieldSnapshot[]> {
   const cutoff = Math.floor(Date.now() / 1000) - (days * 24 * 60 * 60);
   
-  const result = await db.execute({
+  const result = await getDb().execute({
     sql: `SELECT * FROM yield_snapshots WHERE pool_id = ? AND timestamp > ? ORDER BY timestamp ASC`,
     args: [poolId, cutoff]
   });
@@ -86,7 +98,7 @@ export async function getPoolHistory(poolId: string, days: number = 7): Promise<
 export async function getAssetHistory(protocol: string, asset: string, days: number = 7): Promise<YieldSnapshot[]> {
   const cutoff = Math.floor(Date.now() / 1000) - (days * 24 * 60 * 60);
   
-  const result = await db.execute({
+  const result = await getDb().execute({
     sql: `SELECT * FROM yield_snapshots WHERE protocol = ? AND asset = ? AND timestamp > ? ORDER BY timestamp ASC`,
     args: [protocol, asset, cutoff]
   });
@@ -107,7 +119,7 @@ export async function getAssetHistory(protocol: string, asset: string, days: num
 export async function getLatestSnapshots(days: number = 7): Promise<Map<string, YieldSnapshot[]>> {
   const cutoff = Math.floor(Date.now() / 1000) - (days * 24 * 60 * 60);
   
-  const result = await db.execute({
+  const result = await getDb().execute({
     sql: `SELECT * FROM yield_snapshots WHERE timestamp > ? ORDER BY protocol, asset, timestamp ASC`,
     args: [cutoff]
   });
@@ -138,7 +150,7 @@ export async function getLatestSnapshots(days: number = 7): Promise<Map<string,
 export async function cleanupOldData(keepDays: number = 30): Promise<number> {
   const cutoff = Math.floor(Date.now() / 1000) - (keepDays * 24 * 60 * 60);
   
-  const result = await db.execute({
+  const result = await getDb().execute({
     sql: `DELETE FROM yield_snapshots WHERE timestamp < ?`,
     args: [cutoff]
   });
@@ -148,7 +160,7 @@ export async function cleanupOldData(keepDays: number = 30): Promise<number> {
 
 // Get stats
 export async function getStats(): Promise<{ totalRows: number; oldestTimestamp: number | null; newestTimestamp: number | null }> {
-  const result = await db.execute(`
+  const result = await getDb().execute(`
     SELECT 
       COUNT(*) as total,
       MIN(timestamp) as oldest,
@@ -163,5 +175,3 @@ export async function getStats(): Promise<{ totalRows: number; oldestTimestamp:
     newestTimestamp: row.newest as number | null
   };
 }
-
-export { db };
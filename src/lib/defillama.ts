@@ -3,11 +3,12 @@
  * This is more reliable than individual protocol APIs
  */
 
-import { YieldOpportunity } from '../types';
+import { YieldOpportunity, ProtocolId } from '../types';
+import { cachedFetchJson } from './fetch-cache';
 
 const LLAMA_YIELDS_API = 'https://yields.llama.fi/pools';
 
-interface LlamaPool {
+export interface LlamaPool {
   pool: string;
   chain: string;
   project: string;
@@ -21,24 +22,51 @@ interface LlamaPool {
 }
 
 // Map DeFi Llama project names to our protocol names
-const PROJECT_MAP: Record<string, 'kamino' | 'drift' | 'jito' | 'marinade' | 'mango'> = {
+const PROJECT_MAP: Record<string, ProtocolId> = {
   'kamino-lend': 'kamino',
+  'kamino-liquidity': 'kamino',
   'kamino': 'kamino',
   'drift': 'drift',
   'jito': 'jito',
+  'jito-liquid-staking': 'jito',
   'marinade-finance': 'marinade',
+  'marinade-liquid-staking': 'marinade',
+  'marinade-native': 'marinade',
   'marinade': 'marinade',
   'mango-markets': 'mango',
   'mango': 'mango',
+  'marginfi': 'marginfi',
+  'marginfi-lending': 'marginfi',
+  'meteora-dlmm': 'meteora',
+  'meteora-vaults': 'meteora',
+  'sanctum-infinity': 'sanctum',
+  'orca-dex': 'orca',
+  'orca': 'orca',
+  'lulo': 'lulo',
 };
 
+/**
+ * Our protocol id for a DeFi Llama project slug; unsupported projects keep their slug
+ */
+export function toProtocolId(project: string): ProtocolId {
+  return PROJECT_MAP[project.toLowerCase()] ?? project;
+}
+
+/**
+ * Full DeFi Llama pool list, shared through the fetch cache so the
+ * multi-megabyte payload is downloaded once per TTL across all callers
+ */
+export async function fetchLlamaPools(): Promise<LlamaPool[]> {
+  const data = await cachedFetchJson<{ data: LlamaPool[] }>('defillama-pools', LLAMA_YIELDS_API);
+  return data.data;
+}
+
 export async function fetchSolanaYields(
   minTvl: number = 100000
 ): Promise<YieldOpportunity[]> {
-  const response = await fetch(LLAMA_YIELDS_API);
-  const data = await response.json();
+  const pools = await fetchLlamaPools();
   
-  const solanaPools: LlamaPool[] = data.data.filter(
+  const solanaPools: LlamaPool[] = pools.filter(
     (pool: LlamaPool) => 
       pool.chain === 'Solana' && 
       pool.tvlUsd >= minTvl &&
@@ -87,23 +115,25 @@ function assessRisk(pool: LlamaPool): 'low' | 'medium' | 'high' {
 export async function fetchAllSolanaYields(
   minTvl: number = 100000
 ): Promise<YieldOpportunity[]> {
-  const response = await fetch(LLAMA_YIELDS_API);
-  const data = await response.json();
+  const pools = await fetchLlamaPools();
   
-  return data.data
+  return pools
     .filter((pool: LlamaPool) => 
       pool.chain === 'Solana' && 
       pool.tvlUsd >= minTvl &&
       pool.apy > 0
     )
     .map((pool: LlamaPool): YieldOpportunity => ({
-      protocol: pool.project as any,
+      protocol: toProtocolId(pool.project),
       asset: pool.symbol,
       apy: pool.apy,
       tvl: pool.tvlUsd,
       risk: assessRisk(pool),
       metadata: {
         poolId: pool.pool,
+        project: pool.project,
+        apyBase: pool.apyBase,
+        apyReward: pool.apyReward,
         stablecoin: pool.stablecoin,
       },
     }))
@@ -1,59 +1,533 @@
-import { Connection, Keypair, PublicKey } from '@solana/web3.js';
-import { RebalanceAction } from '../types';
-import { JupiterSwap, TOKENS } from './jupiter';
+import {
+  AddressLookupTableAccount,
+  Connection,
+  ParsedAccountData,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { ProtocolAdapter, RebalanceAction, RebalanceLeg, TokenSpend } from '../types';
+import { JupiterSwap } from './jupiter';
+import { getTokenRegistry } from './tokens';
+import { AdapterRegistry, findAdapterForProtocol, getAdapterRegistry } from './registry';
+import { BalanceExpectation, assertPreflight, preflightTransaction } from './preflight';
+import { GasOptimizer, PriorityTier } from './gas-optimizer';
+import { assertLanded, getConfirmationTracker } from './confirmation';
+import { TransactionSigner } from './signer';
+
+// Limit used for the pre-flight simulation, before the real usage is known
+const SIMULATION_COMPUTE_UNITS = 1_400_000;
+
+interface ExecutionContext {
+  slippageBps: number;
+  tradeId?: string;     // Recorded with each sent transaction so a restart can resolve it
+}
+
+interface HeldAmount {
+  asset: string;
+  amount: number;     // UI units
+}
+
+/**
+ * One transaction sent for an action, with what it actually cost
+ */
+export interface TransactionReceipt {
+  txId: string;
+  leg: 'withdraw' | 'swap' | 'deposit';
+  tier: PriorityTier;
+  priorityFee: number;              // microlamports per CU
+  computeUnitLimit?: number;        // Unset for Jupiter swaps (Jupiter sizes the limit)
+  computeUnitsConsumed?: number;    // From the pre-flight simulation
+  feeLamports: number;              // From the confirmed transaction (estimate if unavailable)
+  feeEstimated: boolean;
+}
+
+/**
+ * One leg of an action as it will be sent
+ */
+export interface LegPlan {
+  leg: TransactionReceipt['leg'];
+  asset: string;                    // What the funds are held as once the leg lands
+}
+
+/**
+ * One leg of an action, built but not sent
+ */
+export interface PlannedLeg {
+  leg: TransactionReceipt['leg'];
+  description: string;
+  instructions: TransactionInstruction[];
+  lookupTables: AddressLookupTableAccount[];
+}
 
 export class Executor {
   private connection: Connection;
-  private keypair: Keypair;
+  private signer: TransactionSigner;
   private jupiter: JupiterSwap;
+  private gas: GasOptimizer;
+  private adapters: ProtocolAdapter[];
 
-  constructor(connection: Connection, keypair: Keypair) {
+  constructor(connection: Connection, signer: TransactionSigner, registry: AdapterRegistry = getAdapterRegistry()) {
     this.connection = connection;
-    this.keypair = keypair;
+    this.signer = signer;
     this.jupiter = new JupiterSwap(connection);
+    this.gas = new GasOptimizer(connection);
+    this.adapters = registry.create(connection);
   }
 
   async executeActions(
     actions: RebalanceAction[],
-    options: { maxSlippage: number }
+    options: { maxSlippage: number; tradeId?: string }
   ): Promise<string[]> {
-    const txIds: string[] = [];
-    const slippageBps = Math.floor(options.maxSlippage * 10000);
+    const receipts = await this.executeActionsWithReceipts(actions, options);
+    return receipts.map(r => r.txId);
+  }
+
+  /**
+   * Like executeActions, but reports the priority tier and fee paid per transaction
+   */
+  async executeActionsWithReceipts(
+    actions: RebalanceAction[],
+    options: { maxSlippage: number; tradeId?: string }
+  ): Promise<TransactionReceipt[]> {
+    const receipts: TransactionReceipt[] = [];
+    const context: ExecutionContext = {
+      slippageBps: Math.floor(options.maxSlippage * 10000),
+      tradeId: options.tradeId,
+    };
 
     for (const action of actions) {
       console.log(`Executing ${action.type}: ${action.from?.protocol} -> ${action.to?.protocol}`);
-      
+
       try {
-        if (action.type === 'withdraw' && action.from && action.to) {
-          // For now, handle as a swap between assets
-          // In full implementation, would withdraw from protocol first
-          const inputMint = this.getTokenMint(action.from.asset);
-          const outputMint = this.getTokenMint(action.to.asset);
-          
-          if (inputMint && outputMint) {
-            const result = await this.jupiter.swap(
-              this.keypair,
-              inputMint,
-              outputMint,
-              Math.floor(action.from.amount * 1e9), // Convert to lamports
-              slippageBps
-            );
-            txIds.push(result.txId);
-            console.log(`  ✅ Swapped via Jupiter: ${result.txId}`);
-          }
-        }
+        receipts.push(...await this.executeAction(action, context));
       } catch (err) {
         console.error(`  ❌ Failed: ${err}`);
         // Continue with other actions
       }
     }
 
-    return txIds;
+    return receipts;
+  }
+
+  /**
+   * The transactions executeAction will send for an action, in order,
+   * without building them
+   */
+  planLegs(action: RebalanceAction): LegPlan[] {
+    const legs: LegPlan[] = [];
+    let heldAsset: string | undefined;
+
+    if (action.type === 'swap') {
+      return action.from && action.to ? [{ leg: 'swap', asset: action.to.asset }] : [];
+    }
+    if (action.type === 'withdraw' && action.from) {
+      if (this.getAdapterForProtocol(action.from.protocol)?.buildWithdraw) {
+        legs.push({ leg: 'withdraw', asset: action.from.asset });
+      }
+      heldAsset = action.from.asset;
+    }
+    if (!action.to) return legs;
+
+    const adapter = this.getAdapterForProtocol(action.to.protocol);
+    const depositAsset = adapter?.buildDeposit
+      ? adapter.metadata.depositAsset || action.to.asset
+      : action.to.asset;
+
+    if (!sameToken(heldAsset ?? action.from?.asset ?? depositAsset, depositAsset)) {
+      legs.push({ leg: 'swap', asset: depositAsset });
+    }
+    if (adapter?.buildDeposit) legs.push({ leg: 'deposit', asset: action.to.asset });
+    return legs;
+  }
+
+  /**
+   * Leave `from` through its adapter, swap into whatever `to` takes, then
+   * enter `to` through its adapter. Each leg is its own transaction so a
+   * failed deposit leaves funds in the wallet rather than mid-flight.
+   */
+  private async executeAction(action: RebalanceAction, context: ExecutionContext): Promise<TransactionReceipt[]> {
+    const receipts: TransactionReceipt[] = [];
+    let held: HeldAmount | undefined;
+
+    if (action.type === 'swap') {
+      if (!action.from || !action.to) throw new Error('Swap needs both from and to');
+      held = { asset: action.from.asset, amount: action.from.amount };
+    } else if (action.type === 'withdraw') {
+      if (!action.from) throw new Error('Withdraw needs a from leg');
+      const withdrawn = await this.withdraw(action, action.from, context);
+      receipts.push(...withdrawn.receipts);
+      held = withdrawn;
+    }
+
+    if (!action.to) return receipts;
+
+    if (action.type === 'swap') {
+      const swapped = await this.swapHeld(action, held!, action.to.asset, context);
+      receipts.push(swapped.receipt);
+      return receipts;
+    }
+
+    const adapter = this.getAdapterForProtocol(action.to.protocol);
+    const depositAsset = adapter?.buildDeposit
+      ? adapter.metadata.depositAsset || action.to.asset
+      : action.to.asset;
+
+    // Plain deposits spend wallet funds: `from` if given, else the deposit asset
+    if (!held) {
+      held = walletSpend(action, depositAsset);
+    }
+
+    if (!sameToken(held.asset, depositAsset)) {
+      const swapped = await this.swapHeld(action, held, depositAsset, context);
+      receipts.push(swapped.receipt);
+      held = swapped;
+    }
+
+    if (adapter?.buildDeposit) {
+      const instructions = await adapter.buildDeposit({
+        wallet: this.signer.publicKey,
+        asset: action.to.asset,
+        amount: held.amount,
+        metadata: action.to.metadata,
+      });
+      // A deposit spends exactly the held amount of the deposit asset, nothing else
+      const receipt = await this.sendInstructions(
+        action,
+        'deposit',
+        instructions,
+        expectBalance(held.asset, amount => ({ maxOut: amount }), held.amount),
+        context
+      );
+      receipts.push(receipt);
+      console.log(`  ✅ Deposited ${held.amount} ${held.asset} into ${action.to.protocol}: ${receipt.txId}`);
+    } else if (!getTokenRegistry().isLst(action.to.asset)) {
+      // Holding an LST is the position; anything else needs the protocol
+      throw new Error(`${action.to.protocol} has no deposit instruction builder`);
+    }
+
+    return receipts;
+  }
+
+  /**
+   * Instructions for every leg of an action, built for a wallet that signs
+   * elsewhere (e.g. a Squads vault). Nothing runs between legs, so each leg
+   * uses the planned amount and a swap's output is its slippage minimum.
+   */
+  async buildActionLegs(
+    action: RebalanceAction,
+    wallet: PublicKey,
+    options: { maxSlippage: number }
+  ): Promise<PlannedLeg[]> {
+    const slippageBps = Math.floor(options.maxSlippage * 10000);
+    const legs: PlannedLeg[] = [];
+    let held: HeldAmount | undefined;
+
+    if (action.type === 'swap') {
+      if (!action.from || !action.to) throw new Error('Swap needs both from and to');
+      held = { asset: action.from.asset, amount: action.from.amount };
+    } else if (action.type === 'withdraw') {
+      if (!action.from) throw new Error('Withdraw needs a from leg');
+      const from = action.from;
+      const adapter = this.getAdapterForProtocol(from.protocol);
+
+      if (adapter?.buildWithdraw) {
+        legs.push({
+          leg: 'withdraw',
+          description: `Withdraw ${from.amount} ${from.asset} from ${from.protocol}`,
+          instructions: await adapter.buildWithdraw({ wallet, asset: from.asset, amount: from.amount, metadata: from.metadata }),
+          lookupTables: [],
+        });
+      } else if (!getTokenRegistry().isLst(from.asset)) {
+        throw new Error(`${from.protocol} has no withdraw instruction builder`);
+      }
+      held = { asset: from.asset, amount: from.amount };
+    }
+
+    if (!action.to) return legs;
+
+    if (action.type === 'swap') {
+      legs.push((await this.planSwap(wallet, held!, action.to.asset, slippageBps)).planned);
+      return legs;
+    }
+
+    const adapter = this.getAdapterForProtocol(action.to.protocol);
+    const depositAsset = adapter?.buildDeposit
+      ? adapter.metadata.depositAsset || action.to.asset
+      : action.to.asset;
+
+    if (!held) {
+      held = walletSpend(action, depositAsset);
+    }
+
+    if (!sameToken(held.asset, depositAsset)) {
+      const swap = await this.planSwap(wallet, held, depositAsset, slippageBps);
+      legs.push(swap.planned);
+      held = swap;
+    }
+
+    if (adapter?.buildDeposit) {
+      legs.push({
+        leg: 'deposit',
+        description: `Deposit ${held.amount} ${held.asset} into ${action.to.protocol}`,
+        instructions: await adapter.buildDeposit({
+          wallet,
+          asset: action.to.asset,
+          amount: held.amount,
+          metadata: action.to.metadata,
+        }),
+        lookupTables: [],
+      });
+    } else if (!getTokenRegistry().isLst(action.to.asset)) {
+      throw new Error(`${action.to.protocol} has no deposit instruction builder`);
+    }
+
+    return legs;
+  }
+
+  private async planSwap(
+    wallet: PublicKey,
+    held: HeldAmount,
+    outputAsset: string,
+    slippageBps: number
+  ): Promise<HeldAmount & { planned: PlannedLeg }> {
+    const registry = getTokenRegistry();
+    const inputMint = registry.require(held.asset).mint;
+    const outputMint = registry.require(outputAsset).mint;
+
+    const { quote, instructions, lookupTables } = await this.jupiter.getSwapInstructions(
+      wallet,
+      inputMint,
+      outputMint,
+      Number(registry.toBaseUnits(inputMint, held.amount)),
+      slippageBps
+    );
+
+    return {
+      asset: outputAsset,
+      amount: registry.fromBaseUnits(outputMint, quote.otherAmountThreshold),
+      planned: {
+        leg: 'swap',
+        description: `Swap ${held.amount} ${held.asset} -> ${outputAsset} via Jupiter`,
+        instructions,
+        lookupTables,
+      },
+    };
+  }
+
+  /**
+   * Withdraw a position into the wallet, returning what actually arrived.
+   * LST positions are the tokens themselves, so there is nothing to withdraw.
+   */
+  private async withdraw(
+    action: RebalanceAction,
+    from: RebalanceLeg,
+    context: ExecutionContext
+  ): Promise<HeldAmount & { receipts: TransactionReceipt[] }> {
+    const adapter = this.getAdapterForProtocol(from.protocol);
+
+    if (!adapter?.buildWithdraw) {
+      if (getTokenRegistry().isLst(from.asset)) {
+        return { asset: from.asset, amount: from.amount, receipts: [] };
+      }
+      throw new Error(`${from.protocol} has no withdraw instruction builder`);
+    }
+
+    const before = await this.getWalletBalance(from.asset);
+    const params = {
+      wallet: this.signer.publicKey,
+      asset: from.asset,
+      amount: from.amount,
+      metadata: from.metadata,
+    };
+    const instructions = await adapter.buildWithdraw(params);
+    const spends = adapter.getWithdrawSpends ? await adapter.getWithdrawSpends(params) : [];
+    const receipt = await this.sendInstructions(
+      action,
+      'withdraw',
+      instructions,
+      withdrawExpectations(from, spends, context.slippageBps),
+      context
+    );
+    console.log(`  ✅ Withdrew ${from.amount} ${from.asset} from ${from.protocol}: ${receipt.txId}`);
+
+    // Rounding means the wallet rarely receives exactly the requested amount
+    const received = await this.getReceived(from.asset, before, receipt.feeLamports);
+    if (received <= 0) {
+      throw new Error(`Withdraw from ${from.protocol} landed (${receipt.txId}) but no ${from.asset} arrived`);
+    }
+    return {
+      asset: from.asset,
+      amount: Math.min(received, from.amount),
+      receipts: [receipt],
+    };
+  }
+
+  private async swapHeld(
+    action: RebalanceAction,
+    held: HeldAmount,
+    outputAsset: string,
+    context: ExecutionContext
+  ): Promise<HeldAmount & { receipt: TransactionReceipt }> {
+    const registry = getTokenRegistry();
+    const inputMint = registry.require(held.asset).mint;
+    const outputMint = registry.require(outputAsset).mint;
+    const plan = await this.gas.planComputeBudget(action);
+    const before = await this.getWalletBalance(outputAsset);
+
+    const result = await this.jupiter.swap(
+      this.signer,
+      inputMint,
+      outputMint,
+      Number(registry.toBaseUnits(inputMint, held.amount)),
+      context.slippageBps,
+      { priorityFeeMicroLamports: plan.priorityFee, tradeId: context.tradeId }
+    );
+    console.log(`  ✅ Swapped ${held.asset} -> ${outputAsset} via Jupiter: ${result.txId}`);
+
+    const fee = await this.getTransactionFee(result.txId);
+
+    // Fills can land below the quote; the slippage minimum is guaranteed
+    // on-chain, so a lower reading is a lagging balance
+    const received = await this.getReceived(outputAsset, before, fee ?? plan.estimatedFeeLamports);
+    const minimum = registry.fromBaseUnits(outputMint, result.minOutputAmount);
+
+    return {
+      asset: outputAsset,
+      amount: Math.max(received, minimum),
+      receipt: {
+        txId: result.txId,
+        leg: 'swap',
+        tier: plan.tier,
+        priorityFee: plan.priorityFee,
+        computeUnitsConsumed: result.computeUnitsConsumed,
+        feeLamports: fee ?? plan.estimatedFeeLamports,
+        feeEstimated: fee === null,
+      },
+    };
+  }
+
+  /**
+   * Simulate, sign, send and confirm adapter-built instructions as one
+   * transaction. Aborts before sending if the simulated balance changes
+   * don't match the expectations, and throws if the transaction fails
+   * on-chain or its blockhash expires. The compute unit limit comes from the
+   * simulation and the priority fee from the gas optimizer's tier for the action.
+   */
+  private async sendInstructions(
+    action: RebalanceAction,
+    leg: TransactionReceipt['leg'],
+    instructions: TransactionInstruction[],
+    expectations: BalanceExpectation[],
+    context: ExecutionContext
+  ): Promise<TransactionReceipt> {
+    const draftPlan = await this.gas.planComputeBudget(action);
+    const draft = await this.compile([
+      ...this.gas.buildComputeBudgetInstructions({ ...draftPlan, computeUnitLimit: SIMULATION_COMPUTE_UNITS }),
+      ...instructions,
+    ]);
+
+    const preflight = await preflightTransaction(this.connection, draft.tx, this.signer.publicKey, {
+      balances: expectations,
+    });
+    assertPreflight(preflight);
+
+    const plan = await this.gas.planComputeBudget(action, preflight.unitsConsumed);
+    const { tx, lastValidBlockHeight } = await this.compile([
+      ...this.gas.buildComputeBudgetInstructions(plan),
+      ...instructions,
+    ]);
+    await this.signer.signTransaction(tx);
+
+    const confirmation = await getConfirmationTracker().sendAndConfirm(this.connection, tx, {
+      lastValidBlockHeight,
+      tradeId: context.tradeId,
+    });
+    assertLanded(confirmation);
+    const txId = confirmation.signature;
+
+    const fee = await this.getTransactionFee(txId);
+    return {
+      txId,
+      leg,
+      tier: plan.tier,
+      priorityFee: plan.priorityFee,
+      computeUnitLimit: plan.computeUnitLimit,
+      computeUnitsConsumed: preflight.unitsConsumed,
+      feeLamports: fee ?? plan.estimatedFeeLamports,
+      feeEstimated: fee === null,
+    };
+  }
+
+  private async compile(instructions: TransactionInstruction[]): Promise<{
+    tx: VersionedTransaction;
+    blockhash: string;
+    lastValidBlockHeight: number;
+  }> {
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+
+    const message = new TransactionMessage({
+      payerKey: this.signer.publicKey,
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message();
+
+    return { tx: new VersionedTransaction(message), blockhash, lastValidBlockHeight };
+  }
+
+  /**
+   * Fee actually charged for a confirmed transaction, or null if the RPC
+   * doesn't have it yet
+   */
+  private async getTransactionFee(txId: string): Promise<number | null> {
+    try {
+      const tx = await this.connection.getTransaction(txId, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+      return tx?.meta?.fee ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Wallet balance in UI units (native SOL for SOL, summed token accounts otherwise)
+   */
+  private async getWalletBalance(asset: string): Promise<number> {
+    const token = getTokenRegistry().get(asset);
+    if (!token) return 0;
+
+    if (token.class === 'native') {
+      return (await this.connection.getBalance(this.signer.publicKey)) / 10 ** token.decimals;
+    }
+
+    const accounts = await this.connection.getParsedTokenAccountsByOwner(this.signer.publicKey, {
+      mint: new PublicKey(token.mint),
+    });
+    return accounts.value.reduce(
+      (sum, { account }) => sum + ((account.data as ParsedAccountData).parsed?.info?.tokenAmount?.uiAmount ?? 0),
+      0
+    );
+  }
+
+  /**
+   * Wallet balance gained since `before`. The network fee comes out of the
+   * same SOL balance, so it is added back for SOL.
+   */
+  private async getReceived(asset: string, before: number, feeLamports: number): Promise<number> {
+    const received = (await this.getWalletBalance(asset)) - before;
+    const token = getTokenRegistry().get(asset);
+    return token?.class === 'native' ? received + feeLamports / 10 ** token.decimals : received;
+  }
+
+  private getAdapterForProtocol(protocol: string): ProtocolAdapter | undefined {
+    return findAdapterForProtocol(this.adapters, protocol);
   }
 
   private getTokenMint(asset: string): string | null {
-    const normalized = asset.toUpperCase().replace('-', '');
-    return (TOKENS as Record<string, string>)[normalized] || null;
+    return getTokenRegistry().getMint(asset);
   }
 
   /**
@@ -67,13 +541,13 @@ export class Executor {
   ): Promise<{ txId: string; outputAmount: number }> {
     const inputMint = this.getTokenMint(inputToken);
     const outputMint = this.getTokenMint(outputToken);
-    
+
     if (!inputMint || !outputMint) {
       throw new Error(`Unknown token: ${!inputMint ? inputToken : outputToken}`);
     }
 
     const result = await this.jupiter.swap(
-      this.keypair,
+      this.signer,
       inputMint,
       outputMint,
       amount,
@@ -86,3 +560,48 @@ export class Executor {
     };
   }
 }
+
+function sameToken(a: string, b: string): boolean {
+  const registry = getTokenRegistry();
+  return (registry.getMint(a) ?? a) === (registry.getMint(b) ?? b);
+}
+
+/**
+ * What a deposit without a withdraw spends from the wallet: its `from` leg
+ * (swapped into the deposit asset if needed), or the deposit asset itself
+ */
+function walletSpend(action: RebalanceAction, depositAsset: string): HeldAmount {
+  const amount = (action.from ?? action.to)?.amount ?? 0;
+  if (!(amount > 0)) throw new Error('Deposit amount not set');
+  return { asset: action.from?.asset ?? depositAsset, amount };
+}
+
+/**
+ * Balance expectation for a registered token; unknown tokens get none,
+ * which still forbids them from leaving the wallet
+ */
+function expectBalance(
+  asset: string,
+  limits: (amount: bigint) => Omit<BalanceExpectation, 'mint'>,
+  amount: number
+): BalanceExpectation[] {
+  const registry = getTokenRegistry();
+  const token = registry.get(asset);
+  if (!token) return [];
+  return [{ mint: token.mint, ...limits(registry.toBaseUnits(token.mint, amount)) }];
+}
+
+/**
+ * A withdrawal returns the position within slippage and spends nothing but
+ * fees and the tokens its adapter declares (e.g. the cTokens it redeems)
+ */
+export function withdrawExpectations(
+  from: RebalanceLeg,
+  spends: TokenSpend[],
+  slippageBps: number
+): BalanceExpectation[] {
+  return [
+    ...expectBalance(from.asset, amount => ({ minIn: amount - (amount * BigInt(slippageBps)) / 10_000n }), from.amount),
+    ...spends.map(spend => ({ mint: spend.mint, maxOut: spend.amount })),
+  ];
+}
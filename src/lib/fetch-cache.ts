@@ -0,0 +1,259 @@
+/**
+ * Shared HTTP Fetch Cache
+ *
+ * One autopilot cycle used to download the multi-megabyte DeFi Llama /pools
+ * payload several times. All external JSON fetches can go through this cache:
+ * - Per-source TTLs (fresh window + stale window)
+ * - Request coalescing (concurrent callers share one in-flight request)
+ * - Stale-while-revalidate (serve stale data, refresh in the background)
+ * - Per-source rate limiting (minimum interval between upstream requests)
+ * - Optional on-disk layer so restarts don't refetch everything
+ *
+ * Outside live mode (DATA_SOURCE_MODE record or replay) the cache is
+ * bypassed, so every request reaches the bundle being recorded or replayed.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import { dataFetch, getDataSource } from './data-source';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CacheSourceConfig {
+  ttlMs: number;          // Data is fresh for this long
+  staleMs: number;        // After ttl, serve stale (and revalidate) for this long
+  minIntervalMs: number;  // Minimum gap between upstream requests for this source
+}
+
+export interface FetchCacheOptions {
+  diskDir?: string;       // Enables the on-disk layer
+  sources?: Record<string, Partial<CacheSourceConfig>>;
+}
+
+interface CacheEntry {
+  url: string;
+  fetchedAt: number;
+  data: unknown;
+}
+
+export interface FetchCacheStats {
+  hits: number;
+  staleHits: number;
+  misses: number;
+  coalesced: number;
+  errors: number;
+  entries: number;
+}
+
+// ============================================================================
+// Default Source TTLs
+// ============================================================================
+
+export const DEFAULT_SOURCE_CONFIG: CacheSourceConfig = {
+  ttlMs: 60 * 1000,
+  staleMs: 10 * 60 * 1000,
+  minIntervalMs: 0,
+};
+
+export const SOURCE_CONFIGS: Record<string, Partial<CacheSourceConfig>> = {
+  'defillama-pools': { ttlMs: 5 * 60 * 1000, staleMs: 60 * 60 * 1000, minIntervalMs: 2000 },
+  'defillama-chart': { ttlMs: 60 * 60 * 1000, staleMs: 24 * 60 * 60 * 1000, minIntervalMs: 250 },
+  'protocol-api': { ttlMs: 2 * 60 * 1000, staleMs: 30 * 60 * 1000, minIntervalMs: 500 },
+  'jupiter-quote': { ttlMs: 60 * 1000, staleMs: 5 * 60 * 1000, minIntervalMs: 100 },
+};
+
+// ============================================================================
+// FetchCache
+// ============================================================================
+
+export class FetchCache {
+  private memory = new Map<string, CacheEntry>();
+  private inflight = new Map<string, Promise<unknown>>();
+  private lastRequestAt = new Map<string, number>();
+  private sources: Record<string, Partial<CacheSourceConfig>>;
+  private diskDir?: string;
+  private stats = { hits: 0, staleHits: 0, misses: 0, coalesced: 0, errors: 0 };
+
+  constructor(options: FetchCacheOptions = {}) {
+    this.sources = { ...SOURCE_CONFIGS, ...options.sources };
+    this.diskDir = options.diskDir;
+
+    if (this.diskDir && !existsSync(this.diskDir)) {
+      mkdirSync(this.diskDir, { recursive: true });
+    }
+  }
+
+  /**
+   * GET a JSON resource through the cache
+   */
+  async getJson<T = any>(source: string, url: string): Promise<T> {
+    if (getDataSource().mode !== 'live') {
+      this.stats.misses++;
+      return (await this.revalidate(source, url)) as T;
+    }
+
+    const config = this.getSourceConfig(source);
+    const entry = this.memory.get(url) || this.readDisk(url);
+    const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+    if (entry && age < config.ttlMs) {
+      this.stats.hits++;
+      return entry.data as T;
+    }
+
+    if (entry && age < config.ttlMs + config.staleMs) {
+      this.stats.staleHits++;
+      this.revalidate(source, url).catch(() => {
+        // Background refresh failure keeps the stale copy
+      });
+      return entry.data as T;
+    }
+
+    this.stats.misses++;
+    try {
+      return (await this.revalidate(source, url)) as T;
+    } catch (err) {
+      // Expired data beats no data when the upstream is down
+      if (entry) {
+        console.warn(`Fetch failed for ${source}, serving expired cache (${Math.round(age / 1000)}s old)`);
+        return entry.data as T;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Drop cached entries (all, or those whose URL starts with a prefix)
+   */
+  invalidate(urlPrefix?: string): void {
+    for (const url of [...this.memory.keys()]) {
+      if (!urlPrefix || url.startsWith(urlPrefix)) {
+        this.memory.delete(url);
+      }
+    }
+  }
+
+  getStats(): FetchCacheStats {
+    return { ...this.stats, entries: this.memory.size };
+  }
+
+  private getSourceConfig(source: string): CacheSourceConfig {
+    return { ...DEFAULT_SOURCE_CONFIG, ...this.sources[source] };
+  }
+
+  /**
+   * Fetch from upstream, sharing the request with any concurrent callers
+   */
+  private revalidate(source: string, url: string): Promise<unknown> {
+    const existing = this.inflight.get(url);
+    if (existing) {
+      this.stats.coalesced++;
+      return existing;
+    }
+
+    const request = this.fetchUpstream(source, url).finally(() => {
+      this.inflight.delete(url);
+    });
+    this.inflight.set(url, request);
+    return request;
+  }
+
+  private async fetchUpstream(source: string, url: string): Promise<unknown> {
+    const { mode } = getDataSource();
+    if (mode !== 'replay') {
+      await this.waitForRateLimit(source);
+    }
+
+    try {
+      const response = await dataFetch(url);
+      if (!response.ok) {
+        throw new Error(`${source} request failed: ${response.status} ${response.statusText}`);
+      }
+      const data = await response.json();
+
+      // Only live responses are cached; recorded and replayed ones belong to the bundle
+      if (mode === 'live') {
+        const entry: CacheEntry = { url, fetchedAt: Date.now(), data };
+        this.memory.set(url, entry);
+        this.writeDisk(entry);
+      }
+
+      return data;
+    } catch (err) {
+      this.stats.errors++;
+      throw err;
+    }
+  }
+
+  private async waitForRateLimit(source: string): Promise<void> {
+    const { minIntervalMs } = this.getSourceConfig(source);
+    const last = this.lastRequestAt.get(source) || 0;
+    const wait = last + minIntervalMs - Date.now();
+
+    // Reserve the slot before sleeping so queued callers space out too
+    this.lastRequestAt.set(source, Math.max(Date.now(), last + minIntervalMs));
+
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  }
+
+  // ============================================================================
+  // Disk Layer
+  // ============================================================================
+
+  private diskPath(url: string): string {
+    const hash = createHash('sha1').update(url).digest('hex');
+    return join(this.diskDir!, `${hash}.json`);
+  }
+
+  private readDisk(url: string): CacheEntry | undefined {
+    if (!this.diskDir) return undefined;
+
+    try {
+      const path = this.diskPath(url);
+      if (!existsSync(path)) return undefined;
+
+      const entry: CacheEntry = JSON.parse(readFileSync(path, 'utf-8'));
+      if (entry.url !== url) return undefined;
+
+      this.memory.set(url, entry);
+      return entry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private writeDisk(entry: CacheEntry): void {
+    if (!this.diskDir) return;
+
+    try {
+      writeFileSync(this.diskPath(entry.url), JSON.stringify(entry));
+    } catch (err) {
+      console.warn('Failed to write fetch cache to disk:', err);
+    }
+  }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let fetchCache: FetchCache | null = null;
+
+export function getFetchCache(): FetchCache {
+  if (!fetchCache) {
+    fetchCache = new FetchCache({ diskDir: process.env.FETCH_CACHE_DIR });
+  }
+  return fetchCache;
+}
+
+/**
+ * Shorthand for getFetchCache().getJson()
+ */
+export function cachedFetchJson<T = any>(source: string, url: string): Promise<T> {
+  return getFetchCache().getJson<T>(source, url);
+}
@@ -6,7 +6,8 @@
  * priority fees to minimize costs while ensuring timely execution.
  */
 
-import { Connection } from '@solana/web3.js';
+import { ComputeBudgetProgram, Connection, TransactionInstruction } from '@solana/web3.js';
+import { RebalanceAction } from '../types';
 
 // Priority fee tiers (in microlamports per compute unit)
 export const PRIORITY_TIERS = {
@@ -18,6 +19,14 @@ export const PRIORITY_TIERS = {
 
 export type PriorityTier = keyof typeof PRIORITY_TIERS;
 
+const TIER_ORDER: PriorityTier[] = ['economy', 'standard', 'fast', 'urgent'];
+
+// Compute budget limits
+const MAX_COMPUTE_UNITS = 1_400_000;
+const DEFAULT_COMPUTE_UNITS = 200_000;
+const COMPUTE_UNIT_MARGIN = 1.15;      // Headroom over simulated usage
+const BASE_FEE_LAMPORTS = 5000;        // Per signature
+
 export interface NetworkCongestion {
   level: 'low' | 'medium' | 'high' | 'extreme';
   score: number; // 0-100
@@ -59,6 +68,13 @@ export interface BatchOptimization {
   reasoning: string[];
 }
 
+export interface ComputeBudgetPlan {
+  tier: PriorityTier;
+  priorityFee: number;           // microlamports per CU
+  computeUnitLimit: number;
+  estimatedFeeLamports: number;
+}
+
 export interface TransactionBatch {
   id: number;
   transactions: string[];
@@ -258,7 +274,7 @@ export class GasOptimizer {
     const priorityFee = Math.round(baseFee * multiplier);
 
     // Calculate costs
-    const baseTxFee = 5000; // 5000 lamports base fee
+    const baseTxFee = BASE_FEE_LAMPORTS;
     const priorityCost = Math.round((priorityFee * computeUnits) / 1_000_000);
     const totalLamports = baseTxFee + priorityCost;
     const sol = totalLamports / 1e9;
@@ -287,6 +303,53 @@ export class GasOptimizer {
     };
   }
 
+  /**
+   * Tier for a rebalance action. Congestion sets the baseline; withdrawals
+   * and swaps move up a tier because funds sit exposed between legs while
+   * they wait. Urgent is left for manual use.
+   */
+  selectTier(action: RebalanceAction, network: NetworkCongestion): PriorityTier {
+    const baseline = this.getRecommendation(network, DEFAULT_COMPUTE_UNITS).tier;
+    const bump = action.type === 'deposit' ? 0 : 1;
+    const index = Math.min(TIER_ORDER.indexOf(baseline) + bump, TIER_ORDER.indexOf('fast'));
+    return TIER_ORDER[index];
+  }
+
+  /**
+   * Priority fee and compute unit limit for one transaction of an action.
+   * Pass the simulated compute units to size the limit; without them the
+   * default limit is used (e.g. for the simulation itself).
+   */
+  async planComputeBudget(action: RebalanceAction, unitsConsumed?: number): Promise<ComputeBudgetPlan> {
+    const network = await this.getNetworkCongestion();
+    const computeUnitLimit = unitsConsumed
+      ? Math.min(MAX_COMPUTE_UNITS, Math.ceil(unitsConsumed * COMPUTE_UNIT_MARGIN))
+      : DEFAULT_COMPUTE_UNITS;
+
+    const tier = this.selectTier(action, network);
+    const recommendation = this.getRecommendation(network, computeUnitLimit, tier);
+
+    // Bidding above what the top decile pays doesn't land any faster
+    const priorityFee = Math.min(recommendation.priorityFee, network.recentPriorityFees.p90);
+
+    return {
+      tier,
+      priorityFee,
+      computeUnitLimit,
+      estimatedFeeLamports: BASE_FEE_LAMPORTS + Math.ceil((priorityFee * computeUnitLimit) / 1_000_000),
+    };
+  }
+
+  /**
+   * setComputeUnitLimit + setComputeUnitPrice for a plan
+   */
+  buildComputeBudgetInstructions(plan: ComputeBudgetPlan): TransactionInstruction[] {
+    return [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: plan.computeUnitLimit }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: plan.priorityFee }),
+    ];
+  }
+
   /**
    * Optimize a batch of transactions
    */
@@ -294,7 +357,7 @@ export class GasOptimizer {
     transactions: { id: string; computeUnits: number; priority?: PriorityTier }[],
     network: NetworkCongestion
   ): BatchOptimization {
-    const MAX_CU_PER_TX = 1_400_000; // Solana max compute units per tx
+    const MAX_CU_PER_TX = MAX_COMPUTE_UNITS;
     const reasoning: string[] = [];
 
     // Sort by priority (urgent first) then by compute units
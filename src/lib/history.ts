@@ -41,7 +41,7 @@ export interface DecisionContext {
     avgApy?: number;
   };
   // Live Trading Mode context
-  tradingMode?: 'manual' | 'monitoring' | 'autonomous';
+  tradingMode?: 'manual' | 'monitoring' | 'autonomous' | 'paper';
   sessionId?: string;
 }
 
@@ -0,0 +1,68 @@
+/**
+ * Instruction helpers for the adapters' deposit/withdraw builders
+ *
+ * Most protocols are Anchor programs, so instructions are an 8-byte
+ * discriminator followed by Borsh-encoded arguments. Protocols that only
+ * expose a transaction-building API are decompiled back into instructions so
+ * the executor can treat every protocol the same way.
+ */
+
+import { createHash } from 'crypto';
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+
+/**
+ * Anchor instruction discriminator: sha256("global:<name>")[0..8]
+ */
+export function anchorDiscriminator(name: string): Buffer {
+  return createHash('sha256').update(`global:${name}`).digest().subarray(0, 8);
+}
+
+export function encodeU8(value: number): Buffer {
+  return Buffer.from([value]);
+}
+
+export function encodeU16(value: number): Buffer {
+  const buf = Buffer.alloc(2);
+  buf.writeUInt16LE(value);
+  return buf;
+}
+
+export function encodeU64(value: bigint): Buffer {
+  const buf = Buffer.alloc(8);
+  buf.writeBigUInt64LE(value);
+  return buf;
+}
+
+export function encodeBool(value: boolean): Buffer {
+  return Buffer.from([value ? 1 : 0]);
+}
+
+/**
+ * Decompile a base64 transaction from a protocol API into its instructions.
+ * Compute budget instructions are dropped; the executor sets its own.
+ */
+export async function instructionsFromSerializedTransaction(
+  connection: Connection,
+  serialized: string
+): Promise<TransactionInstruction[]> {
+  const tx = VersionedTransaction.deserialize(Buffer.from(serialized, 'base64'));
+
+  const lookupTables: AddressLookupTableAccount[] = [];
+  for (const lookup of tx.message.addressTableLookups) {
+    const table = await connection.getAddressLookupTable(lookup.accountKey);
+    if (!table.value) {
+      throw new Error(`Address lookup table not found: ${lookup.accountKey.toBase58()}`);
+    }
+    lookupTables.push(table.value);
+  }
+
+  const message = TransactionMessage.decompile(tx.message, { addressLookupTableAccounts: lookupTables });
+  return message.instructions.filter(ix => !ix.programId.equals(ComputeBudgetProgram.programId));
+}
@@ -2,15 +2,32 @@
  * Jupiter integration for swap execution
  */
 
-import { Connection, PublicKey, VersionedTransaction, Keypair } from '@solana/web3.js';
+import {
+  AddressLookupTableAccount,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { cachedFetchJson } from './fetch-cache';
+import { getTokenRegistry } from './tokens';
+import { assertPreflight, preflightTransaction } from './preflight';
+import { assertLanded, getConfirmationTracker } from './confirmation';
+import { TransactionSigner } from './signer';
+import { getClusterProfile } from './cluster';
+import { dataFetch } from './data-source';
 
-const JUPITER_API = 'https://quote-api.jup.ag/v6';
+const JUPITER_PRICE_API = 'https://api.jup.ag/price/v2';
+
+// Blocks a blockhash stays valid for, if Jupiter doesn't report the exact height
+const BLOCKHASH_VALIDITY_BLOCKS = 150;
 
 export interface SwapQuote {
   inputMint: string;
   outputMint: string;
   inAmount: string;
   outAmount: string;
+  otherAmountThreshold: string;   // Minimum output after slippage (ExactIn)
   priceImpactPct: number;
   slippageBps: number;
   routePlan: {
@@ -25,11 +42,34 @@ export interface SwapQuote {
 export interface SwapResult {
   txId: string;
   inputAmount: number;
-  outputAmount: number;
+  outputAmount: number;             // Quoted, not necessarily what arrived
+  minOutputAmount: number;          // Slippage minimum enforced on-chain
   priceImpact: number;
+  computeUnitsConsumed?: number;    // From the pre-flight simulation
+}
+
+export interface SwapInstructions {
+  quote: SwapQuote;
+  instructions: TransactionInstruction[];         // Setup, swap and cleanup (no compute budget)
+  lookupTables: AddressLookupTableAccount[];
+}
+
+interface JupiterInstruction {
+  programId: string;
+  accounts: { pubkey: string; isSigner: boolean; isWritable: boolean }[];
+  data: string;                                   // base64
 }
 
-// Common token mints
+export interface SwapOptions {
+  priorityFeeMicroLamports?: number;  // Compute unit price; Jupiter sizes the CU limit by simulation
+  tradeId?: string;                   // Recorded with the in-flight transaction for confirmation tracking
+}
+
+/**
+ * Common token mints
+ *
+ * @deprecated Use getTokenRegistry(), which also knows decimals and covers more tokens.
+ */
 export const TOKENS = {
   SOL: 'So11111111111111111111111111111111111111112',
   USDC: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
@@ -39,6 +79,27 @@ export const TOKENS = {
   JLP: '27G8MtK7VtTcCHkpASjSDdkWWYfoqT6ggEuKidVJidD4',
 } as const;
 
+/**
+ * USD prices by mint from the Jupiter price API. Mints without a price are omitted.
+ */
+export async function getTokenPricesUsd(mints: string[]): Promise<Record<string, number>> {
+  const unique = [...new Set(mints)];
+  const prices: Record<string, number> = {};
+
+  // The price API accepts up to 100 ids per request
+  for (let i = 0; i < unique.length; i += 100) {
+    const ids = unique.slice(i, i + 100).join(',');
+    const data = await cachedFetchJson('protocol-api', `${JUPITER_PRICE_API}?ids=${ids}`);
+
+    for (const [mint, entry] of Object.entries<any>(data.data || {})) {
+      const price = parseFloat(entry?.price);
+      if (price > 0) prices[mint] = price;
+    }
+  }
+
+  return prices;
+}
+
 export class JupiterSwap {
   private connection: Connection;
 
@@ -62,7 +123,7 @@ export class JupiterSwap {
       slippageBps: slippageBps.toString(),
     });
 
-    const response = await fetch(`${JUPITER_API}/quote?${params}`);
+    const response = await dataFetch(`${getJupiterApi()}/quote?${params}`);
     if (!response.ok) {
       throw new Error(`Jupiter quote failed: ${response.statusText}`);
     }
@@ -70,27 +131,78 @@ export class JupiterSwap {
     return response.json();
   }
 
+  /**
+   * A quote through the fetch cache, for valuing tokens rather than swapping
+   * them: a quote a minute old still prices a token but must not be executed
+   */
+  async getCachedQuote(
+    inputMint: string,
+    outputMint: string,
+    amount: number,
+    slippageBps: number = 50
+  ): Promise<SwapQuote> {
+    const params = new URLSearchParams({
+      inputMint,
+      outputMint,
+      amount: amount.toString(),
+      slippageBps: slippageBps.toString(),
+    });
+    return cachedFetchJson<SwapQuote>('jupiter-quote', `${getJupiterApi()}/quote?${params}`);
+  }
+
+  /**
+   * Quote by symbol or mint using UI amounts; decimals come from the token registry
+   */
+  async getTokenQuote(
+    inputToken: string,
+    outputToken: string,
+    amount: number,
+    slippageBps: number = 50
+  ): Promise<{ quote: SwapQuote; inputAmount: number; outputAmount: number }> {
+    const tokens = getTokenRegistry();
+    const input = tokens.require(inputToken);
+    const output = tokens.require(outputToken);
+
+    const quote = await this.getQuote(
+      input.mint,
+      output.mint,
+      Number(tokens.toBaseUnits(input.mint, amount)),
+      slippageBps
+    );
+
+    return {
+      quote,
+      inputAmount: tokens.fromBaseUnits(input.mint, quote.inAmount),
+      outputAmount: tokens.fromBaseUnits(output.mint, quote.outAmount),
+    };
+  }
+
   /**
    * Execute a swap
    */
   async swap(
-    keypair: Keypair,
+    signer: TransactionSigner,
     inputMint: string,
     outputMint: string,
     amount: number,
-    slippageBps: number = 50
+    slippageBps: number = 50,
+    options: SwapOptions = {}
   ): Promise<SwapResult> {
     // Get quote
     const quote = await this.getQuote(inputMint, outputMint, amount, slippageBps);
 
     // Get serialized transaction
-    const swapResponse = await fetch(`${JUPITER_API}/swap`, {
+    const swapResponse = await dataFetch(`${getJupiterApi()}/swap`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         quoteResponse: quote,
-        userPublicKey: keypair.publicKey.toBase58(),
+        userPublicKey: signer.publicKey.toBase58(),
         wrapAndUnwrapSol: true,
+        dynamicComputeUnitLimit: true,
+        ...(options.priorityFeeMicroLamports !== undefined && {
+          computeUnitPriceMicroLamports: options.priorityFeeMicroLamports,
+        }),
       }),
     });
 
@@ -98,35 +210,86 @@ export class JupiterSwap {
       throw new Error(`Jupiter swap request failed: ${swapResponse.statusText}`);
     }
 
-    const { swapTransaction } = await swapResponse.json();
+    const { swapTransaction, lastValidBlockHeight } = await swapResponse.json();
 
-    // Deserialize and sign
     const txBuf = Buffer.from(swapTransaction, 'base64');
     const tx = VersionedTransaction.deserialize(txBuf);
-    tx.sign([keypair]);
 
-    // Send
-    const txId = await this.connection.sendTransaction(tx, {
-      skipPreflight: false,
-      maxRetries: 3,
+    // Simulate before signing: spend no more than quoted, receive at least
+    // the slippage minimum. A rejected swap never reaches the signer.
+    const preflight = await preflightTransaction(this.connection, tx, signer.publicKey, {
+      balances: [
+        { mint: inputMint, maxOut: BigInt(quote.inAmount) },
+        { mint: outputMint, minIn: BigInt(quote.otherAmountThreshold) },
+      ],
     });
+    assertPreflight(preflight);
+    await signer.signTransaction(tx);
 
-    // Confirm
-    const latestBlockhash = await this.connection.getLatestBlockhash();
-    await this.connection.confirmTransaction({
-      signature: txId,
-      blockhash: latestBlockhash.blockhash,
-      lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
+    // Send, rebroadcasting until it lands, fails or the blockhash expires
+    const confirmation = await getConfirmationTracker().sendAndConfirm(this.connection, tx, {
+      lastValidBlockHeight: lastValidBlockHeight ?? (await this.connection.getBlockHeight()) + BLOCKHASH_VALIDITY_BLOCKS,
+      tradeId: options.tradeId,
     });
+    assertLanded(confirmation);
+    const txId = confirmation.signature;
 
     return {
       txId,
       inputAmount: parseInt(quote.inAmount),
       outputAmount: parseInt(quote.outAmount),
+      minOutputAmount: parseInt(quote.otherAmountThreshold),
       priceImpact: quote.priceImpactPct,
+      computeUnitsConsumed: preflight.unitsConsumed,
     };
   }
 
+  /**
+   * Swap instructions for a wallet that signs elsewhere (e.g. a multisig
+   * vault), instead of a ready-to-sign transaction
+   */
+  async getSwapInstructions(
+    wallet: PublicKey,
+    inputMint: string,
+    outputMint: string,
+    amount: number,
+    slippageBps: number = 50
+  ): Promise<SwapInstructions> {
+    const quote = await this.getQuote(inputMint, outputMint, amount, slippageBps);
+
+    const response = await dataFetch(`${getJupiterApi()}/swap-instructions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        quoteResponse: quote,
+        userPublicKey: wallet.toBase58(),
+        wrapAndUnwrapSol: true,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Jupiter swap-instructions request failed: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const instructions: TransactionInstruction[] = [
+      ...(data.setupInstructions || []),
+      data.swapInstruction,
+      ...(data.cleanupInstruction ? [data.cleanupInstruction] : []),
+    ].map(toInstruction);
+
+    const lookupTables: AddressLookupTableAccount[] = [];
+    for (const address of data.addressLookupTableAddresses || []) {
+      const table = await this.connection.getAddressLookupTable(new PublicKey(address));
+      if (!table.value) {
+        throw new Error(`Address lookup table not found: ${address}`);
+      }
+      lookupTables.push(table.value);
+    }
+
+    return { quote, instructions, lookupTables };
+  }
+
   /**
    * Get the best route for a token pair
    */
@@ -148,3 +311,26 @@ export class JupiterSwap {
     };
   }
 }
+
+function toInstruction(ix: JupiterInstruction): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: new PublicKey(ix.programId),
+    keys: ix.accounts.map(a => ({
+      pubkey: new PublicKey(a.pubkey),
+      isSigner: a.isSigner,
+      isWritable: a.isWritable,
+    })),
+    data: Buffer.from(ix.data, 'base64'),
+  });
+}
+
+/**
+ * Swap API for the active cluster (self-hosted against the validator on localnet)
+ */
+function getJupiterApi(): string {
+  const { name, jupiterApi } = getClusterProfile();
+  if (!jupiterApi) {
+    throw new Error(`Jupiter swaps are not available on ${name}; set JUPITER_API_URL to a swap API for this cluster`);
+  }
+  return jupiterApi;
+}
@@ -0,0 +1,280 @@
+/**
+ * Localnet Bootstrap
+ *
+ * Runs the executor end-to-end against solana-test-validator, offline.
+ * Fixtures are dumped once from mainnet: protocol programs as .so files and
+ * the accounts their instructions touch in the JSON format the validator's
+ * --account flag loads. Everything keeps its mainnet address, so the
+ * localnet cluster profile needs no overrides. Token mints can be re-pointed
+ * at a local mint authority so tests can fund their wallets.
+ *
+ * Storage: ./data/fixtures/localnet (programs/, accounts/, manifest.json)
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, resolve } from 'path';
+import { spawn, ChildProcess } from 'child_process';
+import {
+  AddressLookupTableAccount,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from './spl';
+
+const BPF_LOADER_UPGRADEABLE = new PublicKey('BPFLoaderUpgradeab1e11111111111111111111111');
+// UpgradeableLoaderState::ProgramData: tag u32 | slot u64 | Option<authority>
+const PROGRAM_DATA_HEADER_SIZE = 45;
+
+// Programs solana-test-validator ships in its genesis
+const BUILTIN_PROGRAMS = new Set([
+  '11111111111111111111111111111111',
+  'ComputeBudget111111111111111111111111111111',
+  'AddressLookupTab1e1111111111111111111111111',
+  'Stake11111111111111111111111111111111111111',
+  'Vote111111111111111111111111111111111111111',
+  'BPFLoaderUpgradeab1e11111111111111111111111',
+  'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb',
+  'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL',
+  'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr',
+  'Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo',
+]);
+
+const MINT_SIZE = 82;
+const TOKEN_2022_ACCOUNT_TYPE_OFFSET = 165;
+const TOKEN_2022_ACCOUNT_TYPE_MINT = 1;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FixtureManifest {
+  programs: { programId: string; file: string }[];
+  accounts: { address: string; file: string }[];
+  updatedAt: number;
+}
+
+export interface DumpOptions {
+  mintAuthority?: PublicKey;           // Re-point SPL mints so localnet tests can mint
+}
+
+export interface LocalnetOptions {
+  ledgerDir: string;
+  rpcPort: number;
+  validatorPath: string;
+  startupTimeoutMs: number;
+  extraArgs: string[];
+}
+
+export interface Localnet {
+  rpcUrl: string;
+  connection: Connection;
+  process: ChildProcess;
+  stop(): Promise<void>;
+}
+
+export const DEFAULT_LOCALNET_OPTIONS: LocalnetOptions = {
+  ledgerDir: './data/localnet-ledger',
+  rpcPort: 8899,
+  validatorPath: 'solana-test-validator',
+  startupTimeoutMs: 60 * 1000,
+  extraArgs: [],
+};
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+export class LocalnetFixtures {
+  private dataDir: string;
+  private manifest: FixtureManifest;
+
+  constructor(dataDir: string = './data/fixtures/localnet') {
+    this.dataDir = dataDir;
+    this.ensureDataDir();
+    this.manifest = this.load();
+  }
+
+  /**
+   * Dump an executable program. Upgradeable programs are read from their
+   * program data account.
+   */
+  async dumpProgram(connection: Connection, programId: PublicKey): Promise<void> {
+    const info = await connection.getAccountInfo(programId);
+    if (!info?.executable) {
+      throw new Error(`${programId.toBase58()} is not a program`);
+    }
+
+    let elf = info.data;
+    if (info.owner.equals(BPF_LOADER_UPGRADEABLE)) {
+      const programData = new PublicKey(info.data.subarray(4, 36));
+      const dataInfo = await connection.getAccountInfo(programData);
+      if (!dataInfo) throw new Error(`Program data for ${programId.toBase58()} not found`);
+      elf = dataInfo.data.subarray(PROGRAM_DATA_HEADER_SIZE);
+    }
+
+    const file = join('programs', `${programId.toBase58()}.so`);
+    writeFileSync(join(this.dataDir, file), elf);
+    this.record('programs', { programId: programId.toBase58(), file });
+  }
+
+  /**
+   * Dump an account as it is now. Returns false if it doesn't exist (e.g.
+   * a wallet's token account the instructions will create).
+   */
+  async dumpAccount(connection: Connection, address: PublicKey, options: DumpOptions = {}): Promise<boolean> {
+    const info = await connection.getAccountInfo(address);
+    if (!info) return false;
+    if (info.executable) {
+      await this.dumpProgram(connection, address);
+      return true;
+    }
+
+    const data = Buffer.from(info.data);
+    if (options.mintAuthority && isMint(info.owner, data)) {
+      data.writeUInt32LE(1, 0);                        // COption::Some
+      options.mintAuthority.toBuffer().copy(data, 4);
+    }
+
+    const file = join('accounts', `${address.toBase58()}.json`);
+    writeFileSync(join(this.dataDir, file), JSON.stringify({
+      pubkey: address.toBase58(),
+      account: {
+        lamports: info.lamports,
+        data: [data.toString('base64'), 'base64'],
+        owner: info.owner.toBase58(),
+        executable: false,
+        rentEpoch: 0,
+        space: data.length,
+      },
+    }, null, 2));
+    this.record('accounts', { address: address.toBase58(), file });
+    return true;
+  }
+
+  /**
+   * Dump every program and account a set of instructions touches (built on
+   * mainnet for the wallet the tests will use), including lookup tables
+   * and their contents. Signers and builtin programs are skipped.
+   */
+  async capture(
+    connection: Connection,
+    instructions: TransactionInstruction[],
+    lookupTables: AddressLookupTableAccount[] = [],
+    options: DumpOptions = {}
+  ): Promise<number> {
+    const signers = new Set(
+      instructions.flatMap(ix => ix.keys.filter(k => k.isSigner).map(k => k.pubkey.toBase58()))
+    );
+    const addresses = new Set([
+      ...instructions.flatMap(ix => [ix.programId, ...ix.keys.map(k => k.pubkey)]),
+      ...lookupTables.flatMap(table => [table.key, ...table.state.addresses]),
+    ].map(k => k.toBase58()));
+
+    let dumped = 0;
+    for (const address of addresses) {
+      if (signers.has(address) || BUILTIN_PROGRAMS.has(address) || address.startsWith('Sysvar')) continue;
+      if (await this.dumpAccount(connection, new PublicKey(address), options)) dumped++;
+    }
+    return dumped;
+  }
+
+  getManifest(): FixtureManifest {
+    return { ...this.manifest };
+  }
+
+  /**
+   * solana-test-validator flags that load every fixture
+   */
+  getValidatorArgs(): string[] {
+    const path = (file: string) => resolve(this.dataDir, file);
+    return [
+      ...this.manifest.programs.flatMap(p => ['--bpf-program', p.programId, path(p.file)]),
+      ...this.manifest.accounts.flatMap(a => ['--account', a.address, path(a.file)]),
+    ];
+  }
+
+  /**
+   * Start a fresh validator with the fixtures loaded and wait for its RPC
+   */
+  async start(options: Partial<LocalnetOptions> = {}): Promise<Localnet> {
+    const opts = { ...DEFAULT_LOCALNET_OPTIONS, ...options };
+    const rpcUrl = `http://127.0.0.1:${opts.rpcPort}`;
+
+    const child = spawn(opts.validatorPath, [
+      '--reset',
+      '--quiet',
+      '--ledger', opts.ledgerDir,
+      '--rpc-port', String(opts.rpcPort),
+      ...this.getValidatorArgs(),
+      ...opts.extraArgs,
+    ], { stdio: ['ignore', 'ignore', 'pipe'] });
+
+    let stderr = '';
+    child.stderr?.on('data', chunk => { stderr = (stderr + chunk).slice(-2000); });
+    const exited = new Promise<number | null>(resolveExit => child.once('exit', resolveExit));
+    child.once('error', err => { stderr += String(err); });
+
+    const stop = async () => {
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill('SIGTERM');
+        await exited;
+      }
+    };
+
+    const connection = new Connection(rpcUrl, 'confirmed');
+    const deadline = Date.now() + opts.startupTimeoutMs;
+    while (Date.now() < deadline) {
+      if (child.exitCode !== null) {
+        throw new Error(`solana-test-validator exited with ${child.exitCode}: ${stderr.trim()}`);
+      }
+      try {
+        await connection.getLatestBlockhash();
+        return { rpcUrl, connection, process: child, stop };
+      } catch {
+        await new Promise(r => setTimeout(r, 500));
+      }
+    }
+
+    await stop();
+    throw new Error(`solana-test-validator did not start within ${opts.startupTimeoutMs}ms: ${stderr.trim()}`);
+  }
+
+  // ============================================================================
+  // Storage
+  // ============================================================================
+
+  private record<K extends 'programs' | 'accounts'>(kind: K, entry: FixtureManifest[K][number]): void {
+    const entries: { file: string }[] = this.manifest[kind];
+    if (!entries.some(e => e.file === entry.file)) entries.push(entry);
+    this.manifest.updatedAt = Date.now();
+    writeFileSync(join(this.dataDir, 'manifest.json'), JSON.stringify(this.manifest, null, 2));
+  }
+
+  private ensureDataDir(): void {
+    for (const dir of [this.dataDir, join(this.dataDir, 'programs'), join(this.dataDir, 'accounts')]) {
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+    }
+  }
+
+  private load(): FixtureManifest {
+    const filePath = join(this.dataDir, 'manifest.json');
+    if (!existsSync(filePath)) return { programs: [], accounts: [], updatedAt: 0 };
+
+    try {
+      return JSON.parse(readFileSync(filePath, 'utf-8'));
+    } catch {
+      return { programs: [], accounts: [], updatedAt: 0 };
+    }
+  }
+}
+
+function isMint(owner: PublicKey, data: Buffer): boolean {
+  if (owner.equals(TOKEN_PROGRAM_ID)) return data.length === MINT_SIZE;
+  return owner.equals(TOKEN_2022_PROGRAM_ID) &&
+    (data.length === MINT_SIZE ||
+      (data.length > TOKEN_2022_ACCOUNT_TYPE_OFFSET && data[TOKEN_2022_ACCOUNT_TYPE_OFFSET] === TOKEN_2022_ACCOUNT_TYPE_MINT));
+}
@@ -0,0 +1,368 @@
+/**
+ * Liquid Staking Token (LST) support
+ *
+ * Holding an LST *is* the staking position, so positions are detected from
+ * wallet token balances and valued with the pool's on-chain SOL exchange
+ * rate rather than a market price (which can trade at a discount).
+ */
+
+import { Connection, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import { Position } from '../types';
+import {
+  getWalletTokenBalances,
+  getAccountFirstSeen,
+  getAssociatedTokenAddress,
+  createAssociatedTokenAccountIdempotentInstruction,
+} from './spl';
+import { encodeU8, encodeU64 } from './instructions';
+import { PythOracle } from './pyth';
+import { cachedFetchJson } from './fetch-cache';
+
+export interface LstPool {
+  symbol: string;
+  mint: string;
+  protocol: string;
+  pool: string;                                // Stake pool / state account
+  kind: 'spl-stake-pool' | 'marinade' | 'sanctum-api';  // sanctum-api: no decodable pool (e.g. INF)
+}
+
+export const LST_POOLS: LstPool[] = [
+  {
+    symbol: 'JitoSOL',
+    mint: 'J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn',
+    protocol: 'jito',
+    pool: 'Jito4APyf642JPZPx3hGc6WWJ8zPKtRbRs4P815Awbb',
+    kind: 'spl-stake-pool',
+  },
+  {
+    symbol: 'mSOL',
+    mint: 'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So',
+    protocol: 'marinade',
+    pool: '8tzS7SkUZyHPQY7gLqsMCXZ5EDCgjESUHcB17tiR1h3Z',
+    kind: 'marinade',
+  },
+  {
+    symbol: 'bSOL',
+    mint: 'bSo13r4TkiE4KumL71LsHTPpL2euBYLFx6h9HP3piy1',
+    protocol: 'blazestake',
+    pool: 'stk9ApL5HeVAwPLr3TLhDXdZS8ptVu7zp6ov8HFDuMi',
+    kind: 'spl-stake-pool',
+  },
+  {
+    symbol: 'jupSOL',
+    mint: 'jupSoLaHXQiZZTSfEWMTRRgpnyFm8f6sZdosWBjx93v',
+    protocol: 'jupiter',
+    pool: '8VpRhuxa7sUUepdY3kQiTmX9rS5vx4WgaXiAnXq4KCtr',
+    kind: 'spl-stake-pool',
+  },
+];
+
+// SPL stake pool program and the Sanctum forks that share its account layout
+export const STAKE_POOL_PROGRAM_IDS = [
+  new PublicKey('SPoo1Ku8WFXoNDMHPsrGSTSG1Y47rzgn41SLUNakuHy'),   // SPL
+  new PublicKey('SP12tWFxD9oJsVWNavTTBZvMbA6gkAmxtVgxdqvyvhY'),   // Sanctum SPL
+  new PublicKey('SPMBzsVUuoHA4Jm6KunbsotaahvVikZs1JyTW6iJvbn'),   // Sanctum SPL Multi
+];
+
+// SPL stake pool: accountType u8 | manager, staker, stakeDepositAuthority | bump seed u8 |
+// validatorList, reserveStake, poolMint, managerFeeAccount, tokenProgram (8 pubkeys in all) |
+// totalLamports u64 | poolTokenSupply u64
+const STAKE_POOL_ACCOUNT_TYPE = 1;
+const STAKE_POOL_RESERVE_STAKE_OFFSET = 130;
+const STAKE_POOL_MINT_OFFSET = 162;
+const STAKE_POOL_MANAGER_FEE_OFFSET = 194;
+const STAKE_POOL_TOKEN_PROGRAM_OFFSET = 226;
+const STAKE_POOL_TOTAL_LAMPORTS_OFFSET = 258;
+const STAKE_POOL_TOKEN_SUPPLY_OFFSET = 266;
+
+// ... | lastUpdateEpoch u64 | lockup (48) | epochFee, then the fee schedule,
+// which is variable length (optional validators, authorities and future fees)
+const STAKE_POOL_EPOCH_FEE_OFFSET = 330;
+const STAKE_POOL_FEE_SIZE = 16;                // Fee { denominator u64, numerator u64 }
+
+// StakePoolInstruction::DepositSol
+const STAKE_POOL_IX_DEPOSIT_SOL = 14;
+
+const SANCTUM_EXTRA_API = 'https://extra-api.sanctum.so/v1';
+
+// Marinade State.msolPrice (u64, denominated in 2^32)
+const MARINADE_MSOL_PRICE_OFFSET = 512;
+const MARINADE_PRICE_DENOMINATOR = 2 ** 32;
+
+const FALLBACK_SOL_PRICE = 180;
+
+/**
+ * SOL per LST as recorded by the pool itself
+ */
+export async function getLstExchangeRate(connection: Connection, pool: LstPool): Promise<number> {
+  if (pool.kind === 'sanctum-api') {
+    return getSanctumSolValue(pool.mint);
+  }
+
+  const info = await connection.getAccountInfo(new PublicKey(pool.pool));
+  if (!info) {
+    throw new Error(`${pool.symbol} pool account not found: ${pool.pool}`);
+  }
+
+  if (pool.kind === 'marinade') {
+    return Number(info.data.readBigUInt64LE(MARINADE_MSOL_PRICE_OFFSET)) / MARINADE_PRICE_DENOMINATOR;
+  }
+
+  const totalLamports = info.data.readBigUInt64LE(STAKE_POOL_TOTAL_LAMPORTS_OFFSET);
+  const poolTokenSupply = info.data.readBigUInt64LE(STAKE_POOL_TOKEN_SUPPLY_OFFSET);
+  return poolTokenSupply > 0n ? Number(totalLamports) / Number(poolTokenSupply) : 1;
+}
+
+/**
+ * SOL per LST as reported by Sanctum, for LSTs whose backing can't be read
+ * from a single pool account
+ */
+export async function getSanctumSolValue(mint: string): Promise<number> {
+  const data = await cachedFetchJson('protocol-api', `${SANCTUM_EXTRA_API}/sol-value/current?lst=${mint}`);
+  const lamports = Number(data.solValues?.[mint]);
+  if (!(lamports > 0)) {
+    throw new Error(`Sanctum returned no SOL value for ${mint}`);
+  }
+  return lamports / 1e9;
+}
+
+export interface StakePoolInfo {
+  pool: string;
+  program: string;
+  mint: string;
+  totalLamports: bigint;
+  poolTokenSupply: bigint;
+  exchangeRate: number;   // SOL per LST
+}
+
+/**
+ * Every stake pool deployed under the SPL and Sanctum stake pool programs,
+ * keyed by pool mint. Only the mint..supply slice of each account is fetched.
+ */
+export async function discoverStakePools(connection: Connection): Promise<Map<string, StakePoolInfo>> {
+  const pools = new Map<string, StakePoolInfo>();
+  const sliceLength = STAKE_POOL_TOKEN_SUPPLY_OFFSET + 8 - STAKE_POOL_MINT_OFFSET;
+
+  const results = await Promise.allSettled(
+    STAKE_POOL_PROGRAM_IDS.map(programId =>
+      connection.getProgramAccounts(programId, {
+        dataSlice: { offset: STAKE_POOL_MINT_OFFSET, length: sliceLength },
+        filters: [{
+          memcmp: { offset: 0, bytes: Buffer.from([STAKE_POOL_ACCOUNT_TYPE]).toString('base64'), encoding: 'base64' },
+        }],
+      }).then(accounts => ({ programId, accounts }))
+    )
+  );
+
+  for (const result of results) {
+    if (result.status !== 'fulfilled') continue;
+    const { programId, accounts } = result.value;
+
+    for (const { pubkey, account } of accounts) {
+      const data = account.data;
+      if (data.length < sliceLength) continue;
+
+      const mint = new PublicKey(data.subarray(0, 32)).toBase58();
+      const totalLamports = data.readBigUInt64LE(STAKE_POOL_TOTAL_LAMPORTS_OFFSET - STAKE_POOL_MINT_OFFSET);
+      const poolTokenSupply = data.readBigUInt64LE(STAKE_POOL_TOKEN_SUPPLY_OFFSET - STAKE_POOL_MINT_OFFSET);
+      if (poolTokenSupply === 0n) continue;
+
+      // Several pools can share a mint only if one is abandoned; keep the larger
+      const existing = pools.get(mint);
+      if (existing && existing.totalLamports >= totalLamports) continue;
+
+      pools.set(mint, {
+        pool: pubkey.toBase58(),
+        program: programId.toBase58(),
+        mint,
+        totalLamports,
+        poolTokenSupply,
+        exchangeRate: Number(totalLamports) / Number(poolTokenSupply),
+      });
+    }
+  }
+
+  return pools;
+}
+
+/**
+ * Fees an SPL stake pool charges on DepositSol and WithdrawSol
+ */
+export interface StakePoolFees {
+  entryFeeBps: number;
+  exitFeeBps: number;
+}
+
+export function decodeStakePoolFees(data: Buffer): StakePoolFees {
+  let offset = STAKE_POOL_EPOCH_FEE_OFFSET + STAKE_POOL_FEE_SIZE;
+  const skipFutureFee = () => { offset += data[offset] === 0 ? 1 : 1 + STAKE_POOL_FEE_SIZE; };
+  const skipOptionalKey = () => { offset += data[offset] === 0 ? 1 : 33; };
+  const readFeeBps = () => {
+    const denominator = data.readBigUInt64LE(offset);
+    const numerator = data.readBigUInt64LE(offset + 8);
+    offset += STAKE_POOL_FEE_SIZE;
+    return denominator > 0n ? (Number(numerator) / Number(denominator)) * 10_000 : 0;
+  };
+
+  skipFutureFee();                             // nextEpochFee
+  skipOptionalKey();                           // preferredDepositValidator
+  skipOptionalKey();                           // preferredWithdrawValidator
+  offset += 2 * STAKE_POOL_FEE_SIZE;           // stakeDepositFee, stakeWithdrawalFee
+  skipFutureFee();                             // nextStakeWithdrawalFee
+  offset += 1;                                 // stakeReferralFee
+  skipOptionalKey();                           // solDepositAuthority
+  const entryFeeBps = readFeeBps();            // solDepositFee
+  offset += 1;                                 // solReferralFee
+  skipOptionalKey();                           // solWithdrawAuthority
+  const exitFeeBps = readFeeBps();             // solWithdrawalFee
+
+  return { entryFeeBps, exitFeeBps };
+}
+
+/**
+ * SOL deposit and withdrawal fees for the given stake pools, keyed by pool
+ * address. Pools that can't be read are omitted.
+ */
+export async function getStakePoolFees(
+  connection: Connection,
+  pools: string[]
+): Promise<Map<string, StakePoolFees>> {
+  const unique = [...new Set(pools)];
+  const fees = new Map<string, StakePoolFees>();
+
+  // getMultipleAccountsInfo accepts at most 100 keys per call
+  for (let i = 0; i < unique.length; i += 100) {
+    const batch = unique.slice(i, i + 100);
+    const accounts = await connection.getMultipleAccountsInfo(batch.map(p => new PublicKey(p)));
+
+    accounts.forEach((account, j) => {
+      if (!account || account.data[0] !== STAKE_POOL_ACCOUNT_TYPE) return;
+      try {
+        fees.set(batch[j], decodeStakePoolFees(account.data));
+      } catch {
+        // Truncated or unfamiliar layout
+      }
+    });
+  }
+
+  return fees;
+}
+
+/**
+ * Stake SOL into an SPL stake pool (or a fork sharing its layout) and
+ * receive pool tokens in the wallet's associated token account
+ */
+export async function buildStakePoolDepositSol(
+  connection: Connection,
+  pool: LstPool,
+  wallet: PublicKey,
+  lamports: bigint
+): Promise<TransactionInstruction[]> {
+  if (pool.kind !== 'spl-stake-pool') {
+    throw new Error(`${pool.symbol} is not an SPL stake pool`);
+  }
+
+  const poolAddress = new PublicKey(pool.pool);
+  const info = await connection.getAccountInfo(poolAddress);
+  if (!info) {
+    throw new Error(`${pool.symbol} pool account not found: ${pool.pool}`);
+  }
+
+  const readKey = (offset: number) => new PublicKey(info.data.subarray(offset, offset + 32));
+  const programId = info.owner;
+  const poolMint = readKey(STAKE_POOL_MINT_OFFSET);
+  const tokenProgram = readKey(STAKE_POOL_TOKEN_PROGRAM_OFFSET);
+  const poolTokens = getAssociatedTokenAddress(wallet, poolMint, tokenProgram);
+  const withdrawAuthority = PublicKey.findProgramAddressSync(
+    [poolAddress.toBuffer(), Buffer.from('withdraw')],
+    programId
+  )[0];
+
+  return [
+    createAssociatedTokenAccountIdempotentInstruction(wallet, wallet, poolMint, tokenProgram),
+    new TransactionInstruction({
+      programId,
+      keys: [
+        { pubkey: poolAddress, isSigner: false, isWritable: true },
+        { pubkey: withdrawAuthority, isSigner: false, isWritable: false },
+        { pubkey: readKey(STAKE_POOL_RESERVE_STAKE_OFFSET), isSigner: false, isWritable: true },
+        { pubkey: wallet, isSigner: true, isWritable: true },
+        { pubkey: poolTokens, isSigner: false, isWritable: true },
+        { pubkey: readKey(STAKE_POOL_MANAGER_FEE_OFFSET), isSigner: false, isWritable: true },
+        { pubkey: poolTokens, isSigner: false, isWritable: true },   // Referrer: none, fee goes back to us
+        { pubkey: poolMint, isSigner: false, isWritable: true },
+        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+        { pubkey: tokenProgram, isSigner: false, isWritable: false },
+      ],
+      data: Buffer.concat([encodeU8(STAKE_POOL_IX_DEPOSIT_SOL), encodeU64(lamports)]),
+    }),
+  ];
+}
+
+/**
+ * SOL/USD from Pyth, falling back to the default used across the engine
+ */
+export async function getSolPriceUsd(connection: Connection): Promise<number> {
+  try {
+    const price = await new PythOracle(connection).getSolPrice();
+    return price > 0 ? price : FALLBACK_SOL_PRICE;
+  } catch {
+    return FALLBACK_SOL_PRICE;
+  }
+}
+
+/**
+ * Detect LST holdings for the given pools and value them at the pool exchange rate
+ *
+ * @param apyBySymbol Current staking APY per LST symbol (from the adapter's yield data)
+ */
+export async function getLstPositions(
+  connection: Connection,
+  wallet: PublicKey,
+  pools: LstPool[],
+  apyBySymbol: Record<string, number>
+): Promise<Position[]> {
+  const balances = await getWalletTokenBalances(connection, wallet);
+  const held = pools
+    .map(pool => ({ pool, balance: balances.find(b => b.mint === pool.mint) }))
+    .filter(h => h.balance && h.balance.amount > 0);
+
+  if (held.length === 0) return [];
+
+  const [solPrice, fees] = await Promise.all([
+    getSolPriceUsd(connection),
+    getStakePoolFees(
+      connection,
+      held.filter(h => h.pool.kind === 'spl-stake-pool').map(h => h.pool.pool)
+    ).catch((): Map<string, StakePoolFees> => new Map()),
+  ]);
+  const positions: Position[] = [];
+
+  for (const { pool, balance } of held) {
+    const [exchangeRate, entryTime] = await Promise.all([
+      getLstExchangeRate(connection, pool),
+      getAccountFirstSeen(connection, balance!.account),
+    ]);
+    const solValue = balance!.amount * exchangeRate;
+
+    positions.push({
+      protocol: pool.protocol,
+      asset: pool.symbol,
+      amount: balance!.amount,
+      valueUsd: solValue * solPrice,
+      currentApy: apyBySymbol[pool.symbol] ?? 0,
+      entryTime: entryTime || new Date(),
+      metadata: {
+        type: 'staking',
+        mint: pool.mint,
+        pool: pool.pool,
+        exchangeRate,
+        solValue,
+        solPrice,
+        ...fees.get(pool.pool),
+      },
+    });
+  }
+
+  return positions;
+}
@@ -5,6 +5,8 @@
  * High macro risk → reduce DeFi exposure, increase stablecoin allocation.
  */
 
+import { dataFetch } from './data-source';
+
 export interface MacroRiskData {
   score: number;           // 0-100 overall risk
   bias: 'risk-on' | 'neutral' | 'risk-off';
@@ -47,7 +49,7 @@ export async function getMacroRisk(): Promise<MacroRiskData> {
   }
   
   try {
-    const response = await fetch(WARGAMES_API);
+    const response = await dataFetch(WARGAMES_API);
     if (!response.ok) {
       throw new Error(`WARGAMES API error: ${response.status}`);
     }
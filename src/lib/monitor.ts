@@ -1,55 +1,73 @@
 import { Connection, PublicKey } from '@solana/web3.js';
-import { YieldOpportunity, Portfolio, Position } from '../types';
+import { YieldOpportunity, Portfolio, Position, ProtocolAdapter } from '../types';
 import { fetchSolanaYields, fetchAllSolanaYields } from './defillama';
-import { KaminoAdapter } from '../adapters/kamino';
-import { DriftAdapter } from '../adapters/drift';
-import { JitoAdapter } from '../adapters/jito';
-import { MarinadeAdapter } from '../adapters/marinade';
-import { MangoAdapter } from '../adapters/mango';
-import { FundingRateAdapter } from '../adapters/funding';
-import { PumpAdapter } from '../adapters/pump';
-import { OrcaAdapter } from '../adapters/orca';
-import { LuloAdapter } from '../adapters/lulo';
+import { AdapterRegistry, findAdapterForProtocol, getAdapterRegistry } from './registry';
+import { isEstimated, reconcileYields, ReconcileOptions, ReconciliationResult } from './reconcile';
 
 export class YieldMonitor {
   private connection: Connection;
-  private adapters: {
-    kamino: KaminoAdapter;
-    drift: DriftAdapter;
-    jito: JitoAdapter;
-    marinade: MarinadeAdapter;
-    mango: MangoAdapter;
-    funding: FundingRateAdapter;
-    pump: PumpAdapter;
-    orca: OrcaAdapter;
-    lulo: LuloAdapter;
-  };
-
-  constructor(connection: Connection) {
+  private adapters: Map<string, ProtocolAdapter>;
+
+  constructor(connection: Connection, registry: AdapterRegistry = getAdapterRegistry()) {
     this.connection = connection;
-    this.adapters = {
-      kamino: new KaminoAdapter(connection),
-      drift: new DriftAdapter(connection),
-      jito: new JitoAdapter(connection),
-      marinade: new MarinadeAdapter(connection),
-      mango: new MangoAdapter(connection),
-      funding: new FundingRateAdapter(connection),
-      pump: new PumpAdapter(connection),
-      orca: new OrcaAdapter(connection),
-      lulo: new LuloAdapter(connection),
-    };
+    this.adapters = new Map(
+      registry.create(connection).map(adapter => [adapter.metadata.id, adapter])
+    );
+  }
+
+  /**
+   * Add an adapter instance to this monitor only (see AdapterRegistry for global registration)
+   */
+  registerAdapter(adapter: ProtocolAdapter): void {
+    this.adapters.set(adapter.metadata.id, adapter);
+  }
+
+  getAdapter(id: string): ProtocolAdapter | undefined {
+    return this.adapters.get(id);
+  }
+
+  getAdapters(): ProtocolAdapter[] {
+    return [...this.adapters.values()];
+  }
+
+  /**
+   * Find the adapter that reports a given protocol id
+   */
+  getAdapterForProtocol(protocol: string): ProtocolAdapter | undefined {
+    return findAdapterForProtocol(this.getAdapters(), protocol);
   }
 
   /**
-   * Fetch yields from our supported protocols via DeFi Llama
+   * Fetch yields from our supported protocols, reconciled across DeFi Llama
+   * and the protocol adapters
    */
   async fetchAllYields(): Promise<YieldOpportunity[]> {
-    try {
-      return await fetchSolanaYields(100000); // Min $100k TVL
-    } catch (err) {
-      console.warn('DeFi Llama fetch failed, using adapter fallbacks');
-      return this.fetchFromAdapters();
+    const { opportunities } = await this.fetchReconciledYields();
+    return opportunities;
+  }
+
+  /**
+   * Fetch DeFi Llama and adapter yields side by side and reconcile them.
+   * If either source fails entirely, the other is returned as single-source
+   * data. Adapter fallback estimates are only used when DeFi Llama fails.
+   */
+  async fetchReconciledYields(options: Partial<ReconcileOptions> = {}): Promise<ReconciliationResult> {
+    const [llama, adapters] = await Promise.allSettled([
+      fetchSolanaYields(100000), // Min $100k TVL
+      this.fetchFromAdapters(),
+    ]);
+
+    if (llama.status === 'rejected') {
+      console.warn('DeFi Llama fetch failed, using adapter data only');
     }
+
+    const adapterYields = adapters.status === 'fulfilled' ? adapters.value : [];
+    return reconcileYields(
+      llama.status === 'fulfilled' ? llama.value : [],
+      llama.status === 'fulfilled' ? adapterYields.filter(y => !isEstimated(y)) : adapterYields,
+      { primary: 'defillama', secondary: 'adapter' },
+      options
+    );
   }
 
   /**
@@ -60,17 +78,9 @@ export class YieldMonitor {
   }
 
   private async fetchFromAdapters(): Promise<YieldOpportunity[]> {
-    const results = await Promise.allSettled([
-      this.adapters.kamino.getYields(),
-      this.adapters.drift.getYields(),
-      this.adapters.jito.getYields(),
-      this.adapters.marinade.getYields(),
-      this.adapters.mango.getYields(),
-      this.adapters.funding.getYields(),
-      this.adapters.pump.getYields(),
-      this.adapters.orca.getYields(),
-      this.adapters.lulo.getYields(),
-    ]);
+    const results = await Promise.allSettled(
+      this.getAdapters().map(adapter => adapter.getYields())
+    );
 
     return results
       .filter((r): r is PromiseFulfilledResult<YieldOpportunity[]> => 
@@ -83,7 +93,7 @@ export class YieldMonitor {
   async getPortfolio(wallet: PublicKey): Promise<Portfolio> {
     const positions: Position[] = [];
     
-    for (const [protocol, adapter] of Object.entries(this.adapters)) {
+    for (const adapter of this.adapters.values()) {
       try {
         const protocolPositions = await adapter.getPositions(wallet);
         positions.push(...protocolPositions);
@@ -99,4 +109,12 @@ export class YieldMonitor {
 
     return { positions, totalValue, weightedApy };
   }
+
+  /**
+   * Concentrated liquidity positions whose range no longer contains the
+   * current price. They earn no fees until rebalanced.
+   */
+  getOutOfRangePositions(portfolio: Portfolio): Position[] {
+    return portfolio.positions.filter(p => p.metadata?.inRange === false);
+  }
 }
@@ -0,0 +1,420 @@
+/**
+ * Portfolio Allocation Optimizer
+ *
+ * Spreads the portfolio across many opportunities instead of piling into the
+ * top-Sharpe pool. Target weights maximize risk-adjusted APY (a linear
+ * program) subject to:
+ * - per-protocol and per-asset weight caps
+ * - a budget on the portfolio's value-weighted risk score
+ * - a cap on our share of each pool's TVL, so we can exit without moving it
+ * - a minimum position size (smaller targets are dropped and the rest re-solved)
+ *
+ * Wallet SOL up to `reserveSol` is kept back for transaction fees and is
+ * never allocated.
+ *
+ * The plan is then diffed against current holdings into RebalanceActions.
+ */
+
+import { Portfolio, Position, RebalanceAction } from '../types';
+import { RiskAdjustedOpportunity } from './risk';
+import { getTokenRegistry } from './tokens';
+
+const EPSILON = 1e-9;
+const MAX_PIVOTS = 10_000;
+const WALLET_PROTOCOLS = ['wallet', 'native'];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AllocationConstraints {
+  maxProtocolWeight: number;   // Max share of the portfolio per protocol (0-1)
+  maxAssetWeight: number;      // Max share of the portfolio per asset (0-1)
+  maxRiskScore: number;        // Budget for the value-weighted risk score (0-100)
+  maxTvlShare: number;         // Max share of a pool's TVL we may hold (0-1)
+  minPositionUsd: number;      // Smaller target positions are dropped
+  minTradeUsd: number;         // Smaller moves aren't worth the fees
+  reserveSol: number;          // Wallet SOL kept back for fees, never allocated
+}
+
+export interface TargetAllocation {
+  protocol: string;
+  asset: string;
+  weight: number;              // Share of the portfolio (0-1)
+  valueUsd: number;
+  apy: number;
+  adjustedApy: number;
+  riskScore: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AllocationPlan {
+  targets: TargetAllocation[];
+  unallocatedWeight: number;   // Left idle because the constraints bind
+  expectedApy: number;         // Over the whole portfolio, idle funds at 0%
+  expectedAdjustedApy: number;
+  riskScore: number;           // Value-weighted over allocated funds
+  binding: string[];           // Constraints at their limit, for reasoning
+  actions: RebalanceAction[];
+}
+
+export const DEFAULT_ALLOCATION_CONSTRAINTS: AllocationConstraints = {
+  maxProtocolWeight: 0.4,
+  maxAssetWeight: 0.6,
+  maxRiskScore: 45,
+  maxTvlShare: 0.05,
+  minPositionUsd: 100,
+  minTradeUsd: 10,
+  reserveSol: 0.05,
+};
+
+interface Holding {
+  position: Position;
+  remainingUsd: number;
+  adjustedApy: number;
+}
+
+interface Need {
+  target: TargetAllocation;
+  remainingUsd: number;
+}
+
+// ============================================================================
+// Optimizer
+// ============================================================================
+
+export class AllocationOptimizer {
+  private constraints: AllocationConstraints;
+
+  constructor(constraints: Partial<AllocationConstraints> = {}) {
+    this.constraints = { ...DEFAULT_ALLOCATION_CONSTRAINTS, ...constraints };
+  }
+
+  /**
+   * Target allocation for the portfolio and the actions that get there.
+   * `prices` (USD by asset) sizes the `to` leg of moves into assets the
+   * portfolio doesn't hold yet; execution only relies on the `from` leg.
+   */
+  plan(
+    portfolio: Portfolio,
+    opportunities: RiskAdjustedOpportunity[],
+    prices: Record<string, number> = {}
+  ): AllocationPlan {
+    const totalValue = portfolio.positions.reduce(
+      (sum, p) => sum + Math.max(p.valueUsd - this.reservedUsd(p), 0),
+      0
+    );
+    const { targets, binding } = this.optimize(opportunities, totalValue);
+
+    const allocated = targets.reduce((sum, t) => sum + t.weight, 0);
+    return {
+      targets,
+      unallocatedWeight: Math.max(0, 1 - allocated),
+      expectedApy: targets.reduce((sum, t) => sum + t.weight * t.apy, 0),
+      expectedAdjustedApy: targets.reduce((sum, t) => sum + t.weight * t.adjustedApy, 0),
+      riskScore: allocated > 0
+        ? Math.round(targets.reduce((sum, t) => sum + t.weight * t.riskScore, 0) / allocated)
+        : 0,
+      binding,
+      actions: this.diff(portfolio, targets, opportunities, prices),
+    };
+  }
+
+  /**
+   * Target weights for a portfolio of the given size
+   */
+  optimize(
+    opportunities: RiskAdjustedOpportunity[],
+    totalValueUsd: number
+  ): { targets: TargetAllocation[]; binding: string[] } {
+    const c = this.constraints;
+    if (totalValueUsd <= 0) return { targets: [], binding: [] };
+
+    const candidates = dedupe(opportunities).filter(o => o.adjustedApy > 0 && o.tvl > 0);
+    const minWeight = c.minPositionUsd / totalValueUsd;
+    const upper = candidates.map(o => {
+      const cap = Math.min(1, (c.maxTvlShare * o.tvl) / totalValueUsd);
+      return cap + EPSILON >= minWeight ? cap : 0;
+    });
+
+    const protocols = groupIndexes(candidates, o => o.protocol);
+    const assets = groupIndexes(candidates, o => assetKey(o.asset));
+
+    let weights: number[] = [];
+    for (;;) {
+      const rows: number[][] = [];
+      const limits: number[] = [];
+      const addRow = (row: number[], limit: number) => { rows.push(row); limits.push(limit); };
+      const indicator = (members: number[]) => candidates.map((_, i) => (members.includes(i) ? 1 : 0));
+
+      addRow(candidates.map(() => 1), 1);
+      for (const members of protocols.values()) addRow(indicator(members), c.maxProtocolWeight);
+      for (const members of assets.values()) addRow(indicator(members), c.maxAssetWeight);
+      // Weighted-average risk within budget: sum(w * (risk - budget)) <= 0
+      addRow(candidates.map(o => o.riskScore.overall - c.maxRiskScore), 0);
+      candidates.forEach((_, i) => addRow(candidates.map((_, j) => (i === j ? 1 : 0)), upper[i]));
+
+      weights = maximizeLinear(candidates.map(o => o.adjustedApy), rows, limits);
+
+      // Drop positions too small to be worth holding, then re-solve without them
+      const undersized = weights
+        .map((w, i) => (w > EPSILON && w + EPSILON < minWeight ? i : -1))
+        .filter(i => i >= 0);
+      if (undersized.length === 0) break;
+      for (const i of undersized) upper[i] = 0;
+    }
+
+    const targets = candidates
+      .map((o, i): TargetAllocation => ({
+        protocol: o.protocol,
+        asset: o.asset,
+        weight: weights[i],
+        valueUsd: weights[i] * totalValueUsd,
+        apy: o.apy,
+        adjustedApy: o.adjustedApy,
+        riskScore: o.riskScore.overall,
+        metadata: o.metadata,
+      }))
+      .filter(t => t.weight > EPSILON)
+      .sort((a, b) => b.weight - a.weight);
+
+    return { targets, binding: this.findBinding(targets, candidates, upper) };
+  }
+
+  /**
+   * Actions from current holdings to the targets. Idle wallet funds (less
+   * the SOL reserve) are spent first (no withdraw needed), then positions
+   * above target are withdrawn into the positions below it; anything left
+   * over goes back to the wallet.
+   */
+  diff(
+    portfolio: Portfolio,
+    targets: TargetAllocation[],
+    opportunities: RiskAdjustedOpportunity[] = [],
+    prices: Record<string, number> = {}
+  ): RebalanceAction[] {
+    const { minTradeUsd } = this.constraints;
+    const held = (protocol: string, asset: string) => portfolio.positions
+      .filter(p => p.protocol === protocol && sameToken(p.asset, asset))
+      .reduce((sum, p) => sum + Math.max(p.valueUsd, 0), 0);
+
+    const holdings: Holding[] = portfolio.positions
+      .filter(p => p.valueUsd > 0 && p.amount > 0)
+      .map(position => {
+        const target = isWallet(position.protocol)
+          ? undefined
+          : targets.find(t => t.protocol === position.protocol && sameToken(t.asset, position.asset));
+        // Split a target across duplicate positions in proportion to their value
+        const share = target ? position.valueUsd / held(target.protocol, target.asset) : 0;
+        const opportunity = opportunities.find(o => o.protocol === position.protocol && sameToken(o.asset, position.asset));
+        return {
+          position,
+          remainingUsd: position.valueUsd - this.reservedUsd(position) - (target ? target.valueUsd * share : 0),
+          adjustedApy: opportunity?.adjustedApy ?? position.currentApy * 0.7, // Assume 30% risk discount if unknown
+        };
+      })
+      .filter(h => h.remainingUsd >= minTradeUsd)
+      .sort((a, b) =>
+        Number(isWallet(b.position.protocol)) - Number(isWallet(a.position.protocol)) ||
+        b.remainingUsd - a.remainingUsd
+      );
+
+    const needs: Need[] = targets
+      .map(target => ({ target, remainingUsd: target.valueUsd - held(target.protocol, target.asset) }))
+      .filter(n => n.remainingUsd >= minTradeUsd)
+      .sort((a, b) => b.remainingUsd - a.remainingUsd);
+
+    const priceOf = (asset: string): number | undefined => {
+      if (prices[asset]) return prices[asset];
+      const position = portfolio.positions.find(p => sameToken(p.asset, asset) && p.amount > 0 && p.valueUsd > 0);
+      return position && position.valueUsd / position.amount;
+    };
+
+    const actions: RebalanceAction[] = [];
+    for (const holding of holdings) {
+      const { position } = holding;
+      const price = position.valueUsd / position.amount;
+      const from = (valueUsd: number) => ({
+        protocol: position.protocol,
+        asset: position.asset,
+        amount: Math.min(valueUsd / price, position.amount),
+        metadata: position.metadata,
+      });
+
+      for (const need of needs) {
+        if (holding.remainingUsd < minTradeUsd) break;
+        if (need.remainingUsd < minTradeUsd) continue;
+
+        const moveUsd = Math.min(holding.remainingUsd, need.remainingUsd);
+        const targetPrice = priceOf(need.target.asset);
+        actions.push({
+          type: isWallet(position.protocol) ? 'deposit' : 'withdraw',
+          from: from(moveUsd),
+          to: {
+            protocol: need.target.protocol,
+            asset: need.target.asset,
+            amount: targetPrice ? moveUsd / targetPrice : 0,
+            metadata: need.target.metadata,
+          },
+          expectedApyGain: need.target.adjustedApy - holding.adjustedApy,
+        });
+        holding.remainingUsd -= moveUsd;
+        need.remainingUsd -= moveUsd;
+      }
+
+      // Over target with nowhere better to go: park it in the wallet
+      if (!isWallet(position.protocol) && holding.remainingUsd >= minTradeUsd) {
+        actions.push({
+          type: 'withdraw',
+          from: from(holding.remainingUsd),
+          expectedApyGain: -holding.adjustedApy,
+        });
+        holding.remainingUsd = 0;
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Value of the wallet SOL kept back for fees
+   */
+  private reservedUsd(position: Position): number {
+    if (!isWallet(position.protocol) || getTokenRegistry().get(position.asset)?.class !== 'native') return 0;
+    if (!(position.amount > 0)) return 0;
+    return Math.min(position.amount, this.constraints.reserveSol) * (position.valueUsd / position.amount);
+  }
+
+  private findBinding(
+    targets: TargetAllocation[],
+    candidates: RiskAdjustedOpportunity[],
+    upper: number[]
+  ): string[] {
+    const c = this.constraints;
+    const binding: string[] = [];
+    const atLimit = (value: number, limit: number) => value >= limit - 1e-6;
+    const sumBy = (key: (t: TargetAllocation) => string) => {
+      const sums = new Map<string, number>();
+      for (const t of targets) sums.set(key(t), (sums.get(key(t)) || 0) + t.weight);
+      return sums;
+    };
+
+    for (const [protocol, weight] of sumBy(t => t.protocol)) {
+      if (atLimit(weight, c.maxProtocolWeight)) binding.push(`protocol cap ${(c.maxProtocolWeight * 100).toFixed(0)}% on ${protocol}`);
+    }
+    for (const [asset, weight] of sumBy(t => assetKey(t.asset))) {
+      if (atLimit(weight, c.maxAssetWeight)) binding.push(`asset cap ${(c.maxAssetWeight * 100).toFixed(0)}% on ${asset}`);
+    }
+
+    const allocated = targets.reduce((sum, t) => sum + t.weight, 0);
+    const risk = allocated > 0 ? targets.reduce((sum, t) => sum + t.weight * t.riskScore, 0) / allocated : 0;
+    if (allocated > 0 && atLimit(risk, c.maxRiskScore)) binding.push(`risk budget ${c.maxRiskScore}`);
+
+    for (const t of targets) {
+      const i = candidates.findIndex(o => o.protocol === t.protocol && o.asset === t.asset);
+      if (i >= 0 && upper[i] < 1 && atLimit(t.weight, upper[i])) {
+        binding.push(`TVL share ${(c.maxTvlShare * 100).toFixed(1)}% on ${t.asset} (${t.protocol})`);
+      }
+    }
+    return binding;
+  }
+}
+
+// ============================================================================
+// Linear Program
+// ============================================================================
+
+/**
+ * Maximize c·x subject to A·x <= b and x >= 0, where b >= 0 so x = 0 is
+ * feasible. Dense tableau simplex with Bland's rule, which can't cycle on
+ * degenerate rows like the risk budget.
+ */
+function maximizeLinear(c: number[], A: number[][], b: number[]): number[] {
+  const n = c.length;
+  const m = A.length;
+  const width = n + m + 1;
+
+  const tableau = A.map((row, i) => {
+    const line = new Array(width).fill(0);
+    row.forEach((value, j) => { line[j] = value; });
+    line[n + i] = 1;
+    line[width - 1] = b[i];
+    return line;
+  });
+  const objective = new Array(width).fill(0);
+  c.forEach((value, j) => { objective[j] = -value; });
+  const basis = A.map((_, i) => n + i);
+
+  for (let pivots = 0; ; pivots++) {
+    if (pivots > MAX_PIVOTS) throw new Error('Allocation optimizer did not converge');
+
+    const entering = objective.findIndex((value, j) => j < width - 1 && value < -EPSILON);
+    if (entering < 0) break;
+
+    let leaving = -1;
+    let bestRatio = Infinity;
+    for (let i = 0; i < m; i++) {
+      const coefficient = tableau[i][entering];
+      if (coefficient <= EPSILON) continue;
+      const ratio = tableau[i][width - 1] / coefficient;
+      if (ratio < bestRatio - EPSILON || (Math.abs(ratio - bestRatio) <= EPSILON && basis[i] < basis[leaving])) {
+        bestRatio = ratio;
+        leaving = i;
+      }
+    }
+    if (leaving < 0) throw new Error('Allocation is unbounded; the total weight row is missing');
+
+    const pivot = tableau[leaving][entering];
+    for (let j = 0; j < width; j++) tableau[leaving][j] /= pivot;
+    for (const row of [...tableau.filter((_, i) => i !== leaving), objective]) {
+      const factor = row[entering];
+      if (factor === 0) continue;
+      for (let j = 0; j < width; j++) row[j] -= factor * tableau[leaving][j];
+    }
+    basis[leaving] = entering;
+  }
+
+  const x = new Array(n).fill(0);
+  basis.forEach((column, i) => {
+    if (column < n) x[column] = Math.max(0, tableau[i][width - 1]);
+  });
+  return x;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * One candidate per protocol and asset: the best risk-adjusted quote
+ */
+function dedupe(opportunities: RiskAdjustedOpportunity[]): RiskAdjustedOpportunity[] {
+  const best = new Map<string, RiskAdjustedOpportunity>();
+  for (const o of opportunities) {
+    const key = `${o.protocol}:${assetKey(o.asset)}`;
+    const existing = best.get(key);
+    if (!existing || o.adjustedApy > existing.adjustedApy) best.set(key, o);
+  }
+  return [...best.values()];
+}
+
+function groupIndexes<T>(items: T[], key: (item: T) => string): Map<string, number[]> {
+  const groups = new Map<string, number[]>();
+  items.forEach((item, i) => {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) || []), i]);
+  });
+  return groups;
+}
+
+function assetKey(asset: string): string {
+  return getTokenRegistry().get(asset)?.symbol ?? asset.toUpperCase();
+}
+
+function sameToken(a: string, b: string): boolean {
+  return assetKey(a) === assetKey(b);
+}
+
+function isWallet(protocol: string): boolean {
+  return WALLET_PROTOCOLS.includes(protocol);
+}
@@ -0,0 +1,425 @@
+/**
+ * Paper Trading
+ *
+ * Fills trades against a virtual portfolio instead of the chain, so a
+ * strategy can run the full decision pipeline for weeks before it gets real
+ * funds. Fills use Jupiter quotes (or a local price table when offline) with
+ * modeled slippage, network fees and protocol fees, and every position
+ * accrues its APY over time.
+ *
+ * Idle funds sit in the 'wallet' protocol at 0% APY. The virtual portfolio
+ * is saved to disk after every change, so it survives restarts.
+ *
+ * Storage: File-based JSON (one portfolio file)
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { JupiterSwap, getTokenPricesUsd } from './jupiter';
+import { getTokenRegistry } from './tokens';
+import { TransactionReceipt } from './executor';
+import { Connection } from '@solana/web3.js';
+import { Portfolio, Position, RebalanceAction, YieldOpportunity } from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PaperTradingConfig {
+  quoteSource: 'jupiter' | 'local';
+  startingBalances: { asset: string; amount: number }[];   // Idle wallet funds on first run
+  slippageBps: number;                 // Modeled execution slippage on top of the quote
+  feeLamportsPerTransaction: number;   // Base + priority fee per simulated transaction
+  reserveSol: number;                  // Wallet SOL kept back for future fees
+  protocolFeeBps: number;              // Charged on protocol deposits and withdrawals
+  localPrices: Record<string, number>; // USD prices for the local quote stand-in
+  localImpactBpsPerMillionUsd: number; // Local price impact per $1M traded
+  dataDir: string;
+}
+
+export interface PaperPosition {
+  protocol: string;
+  asset: string;
+  amount: number;                      // UI units, including accrued yield
+  apy: number;                         // %
+  entryTime: number;
+  lastAccrual: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface PaperState {
+  positions: PaperPosition[];
+  feesPaidLamports: number;
+  fills: number;
+  createdAt: number;
+}
+
+export interface PaperQuote {
+  outputAmount: number;                // UI units, before modeled slippage
+  priceImpactPct: number;
+}
+
+/**
+ * Where paper fills get their prices
+ */
+export interface QuoteSource {
+  quote(inputAsset: string, outputAsset: string, amount: number): Promise<PaperQuote>;
+  getPricesUsd(assets: string[]): Promise<Record<string, number>>;
+}
+
+export const WALLET_PROTOCOL = 'wallet';
+
+// Illustrative prices for offline runs; override with localPrices
+export const DEFAULT_LOCAL_PRICES: Record<string, number> = {
+  SOL: 180,
+  USDC: 1,
+  USDT: 1,
+  PYUSD: 1,
+  mSOL: 230,
+  JitoSOL: 215,
+  bSOL: 210,
+  jupSOL: 195,
+  INF: 220,
+};
+
+export const DEFAULT_PAPER_CONFIG: PaperTradingConfig = {
+  quoteSource: 'jupiter',
+  startingBalances: [{ asset: 'SOL', amount: 10 }],
+  slippageBps: 10,
+  feeLamportsPerTransaction: 15_000,   // 5000 base + a standard-tier priority fee
+  reserveSol: 0.05,
+  protocolFeeBps: 0,
+  localPrices: DEFAULT_LOCAL_PRICES,
+  localImpactBpsPerMillionUsd: 50,
+  dataDir: './data/paper',
+};
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const LAMPORTS_PER_SOL = 1e9;
+
+// ============================================================================
+// Quote Sources
+// ============================================================================
+
+export class JupiterQuoteSource implements QuoteSource {
+  private jupiter: JupiterSwap;
+
+  constructor(connection: Connection) {
+    this.jupiter = new JupiterSwap(connection);
+  }
+
+  async quote(inputAsset: string, outputAsset: string, amount: number): Promise<PaperQuote> {
+    const { quote, outputAmount } = await this.jupiter.getTokenQuote(inputAsset, outputAsset, amount);
+    return { outputAmount, priceImpactPct: Number(quote.priceImpactPct) || 0 };
+  }
+
+  async getPricesUsd(assets: string[]): Promise<Record<string, number>> {
+    const registry = getTokenRegistry();
+    const byMint = await getTokenPricesUsd(assets.map(a => registry.require(a).mint));
+    return Object.fromEntries(assets.map(a => [a, byMint[registry.require(a).mint] ?? 0]));
+  }
+}
+
+/**
+ * Offline stand-in: fixed USD prices with size-based price impact
+ */
+export class LocalQuoteSource implements QuoteSource {
+  private prices: Record<string, number>;
+  private impactBpsPerMillionUsd: number;
+
+  constructor(prices: Record<string, number> = DEFAULT_LOCAL_PRICES, impactBpsPerMillionUsd: number = 50) {
+    const registry = getTokenRegistry();
+    // Key by canonical symbol so aliases and mints resolve
+    this.prices = Object.fromEntries(
+      Object.entries(prices).map(([asset, price]) => [registry.get(asset)?.symbol ?? asset, price])
+    );
+    this.impactBpsPerMillionUsd = impactBpsPerMillionUsd;
+  }
+
+  async quote(inputAsset: string, outputAsset: string, amount: number): Promise<PaperQuote> {
+    const inputPrice = this.requirePrice(inputAsset);
+    const outputPrice = this.requirePrice(outputAsset);
+    const valueUsd = amount * inputPrice;
+    const priceImpactPct = (valueUsd / 1_000_000) * this.impactBpsPerMillionUsd / 100;
+
+    return {
+      outputAmount: (valueUsd / outputPrice) * (1 - priceImpactPct / 100),
+      priceImpactPct,
+    };
+  }
+
+  async getPricesUsd(assets: string[]): Promise<Record<string, number>> {
+    return Object.fromEntries(assets.map(a => [a, this.requirePrice(a)]));
+  }
+
+  private requirePrice(asset: string): number {
+    const price = this.prices[getTokenRegistry().get(asset)?.symbol ?? asset];
+    if (price === undefined) {
+      throw new Error(`No local paper price for ${asset}`);
+    }
+    return price;
+  }
+}
+
+// ============================================================================
+// Paper Trader
+// ============================================================================
+
+export class PaperTrader {
+  private config: PaperTradingConfig;
+  private quotes: QuoteSource;
+  private state: PaperState;
+
+  constructor(quotes: QuoteSource, config: Partial<PaperTradingConfig> = {}) {
+    this.config = { ...DEFAULT_PAPER_CONFIG, ...config };
+    this.quotes = quotes;
+    this.ensureDataDir();
+    this.state = this.load() || this.createInitialState();
+  }
+
+  /**
+   * Fill an action against the virtual portfolio, leg by leg as the executor
+   * would send it. `apy` is the target's current APY. Throws, leaving the
+   * portfolio untouched, if the position is missing or the modeled slippage
+   * exceeds maxSlippage.
+   */
+  async execute(
+    action: RebalanceAction,
+    options: { maxSlippage: number; apy: number }
+  ): Promise<TransactionReceipt[]> {
+    this.accrue();
+
+    const source = action.from || (action.to && {
+      protocol: WALLET_PROTOCOL,
+      asset: action.to.asset,
+      amount: action.to.amount,
+    });
+    if (!source) throw new Error('Action has no source leg');
+
+    const position = this.findPosition(source.protocol, source.asset);
+    if (!position || position.amount <= 0) {
+      throw new Error(`Paper portfolio holds no ${source.asset} in ${source.protocol}`);
+    }
+
+    const target = action.to;
+    const destination = target && action.type !== 'swap' ? target.protocol : WALLET_PROTOCOL;
+    const legs: TransactionReceipt['leg'][] = [
+      ...(this.isProtocolLeg(position.protocol, position.asset) ? ['withdraw' as const] : []),
+      ...(target && !sameToken(position.asset, target.asset) ? ['swap' as const] : []),
+      ...(target && this.isProtocolLeg(destination, target.asset) ? ['deposit' as const] : []),
+    ];
+
+    // Network fees come out of wallet SOL, so keep a reserve back when moving it
+    const feeLamports = this.config.feeLamportsPerTransaction;
+    const feeSol = (feeLamports * legs.length) / LAMPORTS_PER_SOL;
+    const wallet = this.findPosition(WALLET_PROTOCOL, 'SOL');
+    const spendable = position === wallet
+      ? position.amount - Math.max(feeSol, this.config.reserveSol)
+      : position.amount;
+    const spent = Math.min(source.amount, spendable);
+    if (!wallet || spent <= 0 || wallet.amount - (position === wallet ? spent : 0) < feeSol) {
+      throw new Error(`Not enough SOL in the paper wallet for ${legs.length} transaction fee(s)`);
+    }
+
+    let asset = position.asset;
+    let amount = spent;
+    const protocolFee = 1 - this.config.protocolFeeBps / 10_000;
+
+    if (legs.includes('withdraw')) amount *= protocolFee;
+
+    if (target && legs.includes('swap')) {
+      const quote = await this.quotes.quote(asset, target.asset, amount);
+      const slippageBps = this.config.slippageBps + quote.priceImpactPct * 100;
+      const maxSlippageBps = options.maxSlippage * 10_000;
+      if (slippageBps > maxSlippageBps) {
+        throw new Error(`Simulated slippage ${slippageBps.toFixed(1)} bps exceeds max ${maxSlippageBps.toFixed(1)} bps`);
+      }
+
+      amount = quote.outputAmount * (1 - this.config.slippageBps / 10_000);
+      asset = target.asset;
+    }
+
+    if (legs.includes('deposit')) amount *= protocolFee;
+
+    // All checks passed: apply the fill
+    position.amount -= spent;
+    wallet.amount -= feeSol;
+    this.credit(destination, asset, amount, destination === WALLET_PROTOCOL ? 0 : options.apy, target?.metadata);
+    this.state.positions = this.state.positions.filter(p => p.amount > 1e-12 || p === wallet);
+    this.state.feesPaidLamports += feeLamports * legs.length;
+    this.state.fills++;
+    this.save();
+
+    return legs.map(leg => ({
+      txId: `paper-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+      leg,
+      tier: 'standard',
+      priorityFee: 0,
+      feeLamports,
+      feeEstimated: true,
+    }));
+  }
+
+  /**
+   * Compound every position's APY up to now
+   */
+  accrue(now: number = Date.now()): void {
+    for (const position of this.state.positions) {
+      const elapsed = now - position.lastAccrual;
+      if (elapsed <= 0) continue;
+      if (position.apy !== 0 && position.amount > 0) {
+        position.amount *= Math.pow(1 + position.apy / 100, elapsed / YEAR_MS);
+      }
+      position.lastAccrual = now;
+    }
+    this.save();
+  }
+
+  /**
+   * Track live rates: positions accrue at their opportunity's current APY
+   */
+  updateApys(opportunities: YieldOpportunity[]): void {
+    this.accrue();
+    for (const position of this.state.positions) {
+      if (position.protocol === WALLET_PROTOCOL) continue;
+      const match = opportunities.find(o => o.protocol === position.protocol && sameToken(o.asset, position.asset));
+      if (match) position.apy = match.apy;
+    }
+    this.save();
+  }
+
+  /**
+   * Virtual portfolio valued at current prices
+   */
+  async getPortfolio(): Promise<Portfolio> {
+    this.accrue();
+
+    const prices = await this.quotes.getPricesUsd([...new Set(this.state.positions.map(p => p.asset))]);
+    const positions: Position[] = this.state.positions.map(p => ({
+      protocol: p.protocol,
+      asset: p.asset,
+      amount: p.amount,
+      valueUsd: p.amount * (prices[p.asset] || 0),
+      currentApy: p.apy,
+      entryTime: new Date(p.entryTime),
+      metadata: { ...p.metadata, paper: true },
+    }));
+    const totalValue = positions.reduce((sum, p) => sum + p.valueUsd, 0);
+
+    return {
+      totalValue,
+      weightedApy: totalValue > 0
+        ? positions.reduce((sum, p) => sum + p.currentApy * p.valueUsd, 0) / totalValue
+        : 0,
+      positions,
+    };
+  }
+
+  getState(): PaperState {
+    return JSON.parse(JSON.stringify(this.state));
+  }
+
+  /**
+   * Start over from the configured starting balances
+   */
+  reset(): void {
+    this.state = this.createInitialState();
+    this.save();
+  }
+
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  /**
+   * Protocol positions take a transaction to enter or leave. Wallet funds
+   * don't, and neither do LSTs, which are held as the token itself.
+   */
+  private isProtocolLeg(protocol: string, asset: string): boolean {
+    return protocol !== WALLET_PROTOCOL && protocol !== 'native' && !getTokenRegistry().isLst(asset);
+  }
+
+  private findPosition(protocol: string, asset: string): PaperPosition | undefined {
+    const wallet = protocol === WALLET_PROTOCOL || protocol === 'native';
+    return this.state.positions.find(p =>
+      (wallet ? p.protocol === WALLET_PROTOCOL : p.protocol === protocol) && sameToken(p.asset, asset)
+    );
+  }
+
+  private credit(
+    protocol: string,
+    asset: string,
+    amount: number,
+    apy: number,
+    metadata?: Record<string, unknown>
+  ): void {
+    const now = Date.now();
+    const existing = this.findPosition(protocol, asset);
+    if (existing) {
+      existing.amount += amount;
+      if (protocol !== WALLET_PROTOCOL) existing.apy = apy;
+      return;
+    }
+
+    this.state.positions.push({
+      protocol,
+      asset: getTokenRegistry().get(asset)?.symbol ?? asset,
+      amount,
+      apy,
+      entryTime: now,
+      lastAccrual: now,
+      metadata,
+    });
+  }
+
+  private createInitialState(): PaperState {
+    const now = Date.now();
+    return {
+      positions: this.config.startingBalances.map(b => ({
+        protocol: WALLET_PROTOCOL,
+        asset: b.asset,
+        amount: b.amount,
+        apy: 0,
+        entryTime: now,
+        lastAccrual: now,
+      })),
+      feesPaidLamports: 0,
+      fills: 0,
+      createdAt: now,
+    };
+  }
+
+  // ============================================================================
+  // Storage
+  // ============================================================================
+
+  private ensureDataDir(): void {
+    if (!existsSync(this.config.dataDir)) {
+      mkdirSync(this.config.dataDir, { recursive: true });
+    }
+  }
+
+  private getFilePath(): string {
+    return join(this.config.dataDir, 'portfolio.json');
+  }
+
+  private load(): PaperState | null {
+    const filePath = this.getFilePath();
+    if (!existsSync(filePath)) return null;
+
+    try {
+      return JSON.parse(readFileSync(filePath, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private save(): void {
+    writeFileSync(this.getFilePath(), JSON.stringify(this.state, null, 2));
+  }
+}
+
+function sameToken(a: string, b: string): boolean {
+  const registry = getTokenRegistry();
+  return (registry.getMint(a) ?? a) === (registry.getMint(b) ?? b);
+}
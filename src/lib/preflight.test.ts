@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { KaminoAdapter } from '../adapters/kamino';
+import { checkBalanceChanges, BalanceChange } from './preflight';
+import { withdrawExpectations } from './executor';
+import { getTokenRegistry } from './tokens';
+import { NATIVE_MINT } from './spl';
+
+const USDC = getTokenRegistry().require('USDC').mint;
+const COLLATERAL_MINT = Keypair.generate().publicKey;
+
+// klend reserve with 1,100 USDC of liquidity backing 1,000 cTokens
+function reserveAccount(): Buffer {
+  const data = Buffer.alloc(8624);
+  Keypair.generate().publicKey.toBuffer().copy(data, 32);       // lending market
+  new PublicKey(USDC).toBuffer().copy(data, 128);                // liquidity mint
+  Keypair.generate().publicKey.toBuffer().copy(data, 160);      // liquidity supply
+  data.writeBigUInt64LE(1_100_000_000n, 224);                    // available amount
+  data.writeBigUInt64LE(6n, 272);                                // decimals
+  Keypair.generate().publicKey.toBuffer().copy(data, 408);      // token program
+  COLLATERAL_MINT.toBuffer().copy(data, 2560);                   // collateral mint
+  data.writeBigUInt64LE(1_000_000_000n, 2592);                   // collateral supply
+  return data;
+}
+
+function mockConnection(): Connection {
+  return {
+    getMultipleAccountsInfo: async (keys: PublicKey[]) => keys.map(() => ({ data: reserveAccount() })),
+    getTokenAccountBalance: async () => ({ value: { amount: '500000000' } }),
+  } as unknown as Connection;
+}
+
+describe('Kamino reserve withdraw pre-flight', () => {
+  const wallet = Keypair.generate().publicKey;
+  const from = { protocol: 'kamino', asset: 'USDC', amount: 100, metadata: { reserve: Keypair.generate().publicKey.toBase58() } };
+  const params = { wallet, asset: from.asset, amount: from.amount, metadata: from.metadata };
+
+  async function simulatedChanges(adapter: KaminoAdapter): Promise<BalanceChange[]> {
+    const instructions = await adapter.buildWithdraw(params);
+    const redeem = instructions[instructions.length - 1];
+    const burned = redeem.data.readBigUInt64LE(8);
+    return [
+      { mint: COLLATERAL_MINT.toBase58(), before: 500_000_000n, after: 500_000_000n - burned, delta: -burned },
+      { mint: USDC, before: 0n, after: 100_000_000n, delta: 100_000_000n },
+      { mint: NATIVE_MINT.toBase58(), before: 1_000_000_000n, after: 999_995_000n, delta: -5_000n },
+    ];
+  }
+
+  it('passes with the cTokens the adapter declares', async () => {
+    const adapter = new KaminoAdapter(mockConnection());
+    const changes = await simulatedChanges(adapter);
+    const spends = await adapter.getWithdrawSpends(params);
+
+    expect(spends).toEqual([{ mint: COLLATERAL_MINT.toBase58(), amount: -changes[0].delta }]);
+    expect(checkBalanceChanges(changes, { balances: withdrawExpectations(from, spends, 50) })).toEqual([]);
+  });
+
+  it('flags the cToken burn when nothing is declared', async () => {
+    const adapter = new KaminoAdapter(mockConnection());
+    const changes = await simulatedChanges(adapter);
+
+    const violations = checkBalanceChanges(changes, { balances: withdrawExpectations(from, [], 50) });
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toContain(COLLATERAL_MINT.toBase58());
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Pre-flight Transaction Checks
+ *
+ * Every transaction the executor sends is simulated first. The wallet's SOL
+ * and token balances are read before and after the simulation so the actual
+ * balance changes can be compared with what the trade is supposed to do:
+ * - Tokens may only leave the wallet if the trade spends them, and not more
+ *   than the trade spends (SOL also gets a budget for fees and rent)
+ * - Tokens the trade buys must arrive in at least the slippage-adjusted amount
+ * - No wallet token account may get a new owner or delegate
+ * - The wallet must be the only signer
+ */
+
+import {
+  AccountInfo,
+  Connection,
+  PublicKey,
+  SimulatedTransactionAccountInfo,
+  SimulatedTransactionResponse,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { NATIVE_MINT, TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from './spl';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BalanceExpectation {
+  mint: string;             // NATIVE_MINT for SOL (native lamports and wSOL are netted)
+  maxOut?: bigint;          // Largest allowed decrease, base units
+  minIn?: bigint;           // Smallest acceptable increase, base units
+}
+
+export interface PreflightExpectations {
+  balances: BalanceExpectation[];
+  maxSolSpend?: bigint;     // Lamports allowed for fees and rent on top of any SOL expectation
+}
+
+export interface BalanceChange {
+  mint: string;
+  before: bigint;
+  after: bigint;
+  delta: bigint;            // Base units, positive = into the wallet
+}
+
+export interface PreflightResult {
+  ok: boolean;
+  changes: BalanceChange[];
+  violations: string[];
+  unitsConsumed?: number;
+  logs: string[];
+  err?: unknown;
+}
+
+// Enough for a few ATAs plus a Drift user account (~0.035 SOL rent)
+export const DEFAULT_MAX_SOL_SPEND = 50_000_000n;
+
+// SPL token account layout (shared by Token-2022 for the base fields)
+const TOKEN_ACCOUNT_SIZE = 165;
+const TOKEN_ACCOUNT_OWNER_OFFSET = 32;
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+const TOKEN_ACCOUNT_DELEGATE_OFFSET = 72;     // COption<Pubkey>: u32 tag + pubkey
+
+interface WalletAccountState {
+  mint: string;
+  amount: bigint;
+  delegate: string | null;
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/**
+ * Simulate a transaction and check its effect on the wallet. Does not throw
+ * for failed checks; see assertPreflight.
+ */
+export async function preflightTransaction(
+  connection: Connection,
+  tx: VersionedTransaction,
+  wallet: PublicKey,
+  expectations: PreflightExpectations
+): Promise<PreflightResult> {
+  const violations: string[] = [];
+  const { keys, writable, signers } = await getMessageAccounts(connection, tx);
+
+  for (const signer of signers) {
+    if (!signer.equals(wallet)) {
+      violations.push(`Unexpected signer ${signer.toBase58()}`);
+    }
+  }
+
+  const watched = keys.filter((_, i) => writable[i]);
+  const before = await connection.getMultipleAccountsInfo(watched);
+
+  const simulation = await connection.simulateTransaction(tx, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    accounts: { encoding: 'base64', addresses: watched.map(k => k.toBase58()) },
+  });
+  const value: SimulatedTransactionResponse = simulation.value;
+
+  if (value.err) {
+    return {
+      ok: false,
+      changes: [],
+      violations: [`Simulation failed: ${JSON.stringify(value.err)}`],
+      unitsConsumed: value.unitsConsumed,
+      logs: value.logs || [],
+      err: value.err,
+    };
+  }
+
+  const after = (value.accounts || []).map(decodeSimulatedAccount);
+  const changes = diffWalletBalances(wallet, watched, before, after, violations);
+  violations.push(...checkBalanceChanges(changes, expectations));
+
+  return {
+    ok: violations.length === 0,
+    changes,
+    violations,
+    unitsConsumed: value.unitsConsumed,
+    logs: value.logs || [],
+  };
+}
+
+/**
+ * Throw if a pre-flight result isn't safe to send
+ */
+export function assertPreflight(result: PreflightResult): void {
+  if (!result.ok) {
+    throw new Error(`Pre-flight check failed: ${result.violations.join('; ')}`);
+  }
+}
+
+/**
+ * Compare net balance changes with what the trade is allowed to do
+ */
+export function checkBalanceChanges(
+  changes: BalanceChange[],
+  expectations: PreflightExpectations
+): string[] {
+  const violations: string[] = [];
+  const nativeMint = NATIVE_MINT.toBase58();
+  const maxSolSpend = expectations.maxSolSpend ?? DEFAULT_MAX_SOL_SPEND;
+  const byMint = new Map(changes.map(c => [c.mint, c]));
+
+  for (const change of changes) {
+    if (change.delta >= 0n) continue;
+
+    const expected = expectations.balances.find(e => e.mint === change.mint);
+    const allowance = (expected?.maxOut ?? 0n) + (change.mint === nativeMint ? maxSolSpend : 0n);
+
+    if (-change.delta > allowance) {
+      violations.push(`${change.mint} decreases by ${-change.delta}, allowed ${allowance}`);
+    }
+  }
+
+  for (const expected of expectations.balances) {
+    if (expected.minIn === undefined) continue;
+
+    const delta = byMint.get(expected.mint)?.delta ?? 0n;
+    if (delta < expected.minIn) {
+      violations.push(`${expected.mint} increases by ${delta}, expected at least ${expected.minIn}`);
+    }
+  }
+
+  return violations;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Full account list (static keys plus lookup-table addresses) with writable and signer flags
+ */
+async function getMessageAccounts(
+  connection: Connection,
+  tx: VersionedTransaction
+): Promise<{ keys: PublicKey[]; writable: boolean[]; signers: PublicKey[] }> {
+  const message = tx.message;
+  const lookupTables = [];
+
+  for (const lookup of message.addressTableLookups) {
+    const table = await connection.getAddressLookupTable(lookup.accountKey);
+    if (!table.value) {
+      throw new Error(`Address lookup table not found: ${lookup.accountKey.toBase58()}`);
+    }
+    lookupTables.push(table.value);
+  }
+
+  const accountKeys = message.getAccountKeys({ addressLookupTableAccounts: lookupTables });
+  const keys: PublicKey[] = [];
+  for (let i = 0; i < accountKeys.length; i++) {
+    keys.push(accountKeys.get(i)!);
+  }
+
+  return {
+    keys,
+    writable: keys.map((_, i) => message.isAccountWritable(i)),
+    signers: keys.slice(0, message.header.numRequiredSignatures),
+  };
+}
+
+function decodeSimulatedAccount(account: SimulatedTransactionAccountInfo | null): AccountInfo<Buffer> | null {
+  if (!account) return null;
+  return {
+    lamports: account.lamports,
+    owner: new PublicKey(account.owner),
+    executable: account.executable,
+    rentEpoch: account.rentEpoch,
+    data: Buffer.from(account.data[0], 'base64'),
+  };
+}
+
+/**
+ * Net SOL and token balance changes for the wallet, keyed by mint.
+ * wSOL token accounts are netted into native SOL so wrapping isn't a change.
+ */
+function diffWalletBalances(
+  wallet: PublicKey,
+  keys: PublicKey[],
+  before: (AccountInfo<Buffer> | null)[],
+  after: (AccountInfo<Buffer> | null)[],
+  violations: string[]
+): BalanceChange[] {
+  const nativeMint = NATIVE_MINT.toBase58();
+  const totals = new Map<string, { before: bigint; after: bigint }>();
+  const add = (mint: string, side: 'before' | 'after', amount: bigint) => {
+    const entry = totals.get(mint) || { before: 0n, after: 0n };
+    entry[side] += amount;
+    totals.set(mint, entry);
+  };
+
+  keys.forEach((key, i) => {
+    const pre = before[i];
+    const post = after[i];
+
+    if (key.equals(wallet)) {
+      add(nativeMint, 'before', BigInt(pre?.lamports ?? 0));
+      add(nativeMint, 'after', BigInt(post?.lamports ?? 0));
+      if (post && !post.owner.equals(pre?.owner ?? post.owner)) {
+        violations.push('Wallet account is reassigned to another program');
+      }
+      return;
+    }
+
+    const preToken = decodeWalletTokenAccount(pre, wallet);
+    const postToken = decodeWalletTokenAccount(post, wallet);
+
+    // Accounts that were ours and no longer are (closed accounts read as null)
+    if (preToken && post && !postToken) {
+      violations.push(`Token account ${key.toBase58()} changes owner`);
+    }
+    if (postToken?.delegate && postToken.delegate !== preToken?.delegate) {
+      violations.push(`Token account ${key.toBase58()} gets delegate ${postToken.delegate}`);
+    }
+
+    // wSOL shares the native mint key, so wrapping and closing net out against lamports
+    if (preToken) add(preToken.mint, 'before', preToken.amount);
+    if (postToken) add(postToken.mint, 'after', postToken.amount);
+  });
+
+  return [...totals.entries()]
+    .map(([mint, { before, after }]) => ({ mint, before, after, delta: after - before }))
+    .filter(c => c.delta !== 0n);
+}
+
+function decodeWalletTokenAccount(
+  account: AccountInfo<Buffer> | null,
+  wallet: PublicKey
+): WalletAccountState | null {
+  if (!account || account.data.length < TOKEN_ACCOUNT_SIZE) return null;
+  if (!account.owner.equals(TOKEN_PROGRAM_ID) && !account.owner.equals(TOKEN_2022_PROGRAM_ID)) return null;
+
+  const data = account.data;
+  const owner = new PublicKey(data.subarray(TOKEN_ACCOUNT_OWNER_OFFSET, TOKEN_ACCOUNT_OWNER_OFFSET + 32));
+  if (!owner.equals(wallet)) return null;
+
+  const hasDelegate = data.readUInt32LE(TOKEN_ACCOUNT_DELEGATE_OFFSET) === 1;
+  return {
+    mint: new PublicKey(data.subarray(0, 32)).toBase58(),
+    amount: data.readBigUInt64LE(TOKEN_ACCOUNT_AMOUNT_OFFSET),
+    delegate: hasDelegate
+      ? new PublicKey(data.subarray(TOKEN_ACCOUNT_DELEGATE_OFFSET + 4, TOKEN_ACCOUNT_DELEGATE_OFFSET + 36)).toBase58()
+      : null,
+  };
+}
@@ -5,6 +5,7 @@
 
 import { Connection, PublicKey } from '@solana/web3.js';
 import { PythHttpClient, getPythProgramKeyForCluster } from '@pythnetwork/client';
+import { createConnection, getClusterProfile } from './cluster';
 
 // Pyth price feed IDs for major Solana DeFi assets
 export const PYTH_PRICE_FEEDS = {
@@ -159,8 +160,7 @@ export class PythOracle {
  * Helper: Create oracle instance with default connection
  */
 export function createPythOracle(rpcUrl?: string): PythOracle {
-  const connection = new Connection(rpcUrl || 'https://api.mainnet-beta.solana.com');
-  return new PythOracle(connection);
+  return new PythOracle(createConnection(rpcUrl), getClusterProfile().pythCluster);
 }
 
 /**
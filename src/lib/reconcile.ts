@@ -0,0 +1,258 @@
+/**
+ * Cross-Source Yield Reconciliation
+ *
+ * DeFi Llama and the protocol adapters report the same pools independently.
+ * Reconciliation matches them up (pool id first, then protocol + asset),
+ * reports where they diverge beyond tolerance, and merges each pool into a
+ * single opportunity carrying provenance and a source-agreement confidence.
+ * Adapter fallback figures (metadata.source 'estimated') are quoted as
+ * '<source>-fallback' and never corroborate or contradict a live quote.
+ */
+
+import { YieldOpportunity, YieldProvenance, YieldSourceQuote } from '../types';
+
+export interface ReconcileOptions {
+  apyTolerance: number;          // Absolute APY difference allowed (percentage points)
+  apyRelativeTolerance: number;  // Relative APY difference allowed (0.15 = 15%)
+  tvlRelativeTolerance: number;  // Relative TVL difference allowed
+}
+
+export interface YieldDivergence {
+  protocol: string;
+  asset: string;
+  sources: YieldSourceQuote[];
+  apyDifference: number;         // Percentage points, max - min
+  apyRelativeDifference: number;
+  tvlRelativeDifference: number;
+  reasons: string[];
+}
+
+export interface ReconciliationResult {
+  opportunities: YieldOpportunity[];
+  divergences: YieldDivergence[];
+  stats: {
+    matched: number;
+    agreeing: number;
+    diverged: number;
+    primaryOnly: number;
+    secondaryOnly: number;
+  };
+}
+
+export const DEFAULT_RECONCILE_OPTIONS: ReconcileOptions = {
+  apyTolerance: 1.0,
+  apyRelativeTolerance: 0.15,
+  tvlRelativeTolerance: 0.3,
+};
+
+// Metadata fields adapters and DeFi Llama use for pool identifiers
+const POOL_ID_FIELDS = ['poolId', 'pool', 'vaultAddress', 'reserve', 'address'];
+
+/**
+ * Reconcile a primary source (DeFi Llama) against a secondary one (protocol adapters)
+ */
+export function reconcileYields(
+  primary: YieldOpportunity[],
+  secondary: YieldOpportunity[],
+  sources: { primary: string; secondary: string } = { primary: 'defillama', secondary: 'adapter' },
+  options: Partial<ReconcileOptions> = {}
+): ReconciliationResult {
+  const opts = { ...DEFAULT_RECONCILE_OPTIONS, ...options };
+  const fetchedAt = Date.now();
+  const opportunities: YieldOpportunity[] = [];
+  const divergences: YieldDivergence[] = [];
+  const stats = { matched: 0, agreeing: 0, diverged: 0, primaryOnly: 0, secondaryOnly: 0 };
+
+  const unmatched = new Set(secondary.map((_, i) => i));
+
+  for (const opp of primary) {
+    const matchIndex = findMatch(opp, secondary, unmatched);
+
+    if (matchIndex === -1) {
+      stats.primaryOnly++;
+      opportunities.push(withProvenance(opp, [quote(opp, sources.primary, fetchedAt)], sources.primary));
+      continue;
+    }
+
+    unmatched.delete(matchIndex);
+    const other = secondary[matchIndex];
+
+    if (isEstimated(other)) {
+      stats.primaryOnly++;
+      opportunities.push(withProvenance(opp, [quote(opp, sources.primary, fetchedAt)], sources.primary));
+      continue;
+    }
+    stats.matched++;
+
+    const quotes = [quote(opp, sources.primary, fetchedAt), quote(other, sources.secondary, fetchedAt)];
+    const divergence = measureDivergence(opp, quotes, opts);
+
+    if (divergence) {
+      stats.diverged++;
+      divergences.push(divergence);
+    } else {
+      stats.agreeing++;
+    }
+
+    opportunities.push(mergeOpportunity(opp, other, quotes, sources.primary, divergence));
+  }
+
+  for (const i of unmatched) {
+    stats.secondaryOnly++;
+    const opp = secondary[i];
+    opportunities.push(withProvenance(opp, [quote(opp, sources.secondary, fetchedAt)], sources.secondary));
+  }
+
+  return {
+    opportunities: opportunities.sort((a, b) => b.apy - a.apy),
+    divergences,
+    stats,
+  };
+}
+
+/**
+ * Hard-coded figures an adapter returns when its live source is unavailable
+ */
+export function isEstimated(opp: YieldOpportunity): boolean {
+  return opp.metadata?.source === 'estimated';
+}
+
+// ============================================================================
+// Matching & Merging
+// ============================================================================
+
+function findMatch(opp: YieldOpportunity, candidates: YieldOpportunity[], available: Set<number>): number {
+  const ids = poolIds(opp);
+
+  // 1. Exact pool identifier
+  if (ids.length > 0) {
+    for (const i of available) {
+      const candidate = candidates[i];
+      if (candidate.protocol === opp.protocol && poolIds(candidate).some(id => ids.includes(id))) {
+        return i;
+      }
+    }
+  }
+
+  // 2. Protocol + normalized asset, preferring the closest TVL
+  const asset = normalizeAsset(opp.asset);
+  let best = -1;
+  let bestTvlGap = Infinity;
+
+  for (const i of available) {
+    const candidate = candidates[i];
+    if (candidate.protocol !== opp.protocol || normalizeAsset(candidate.asset) !== asset) continue;
+
+    const tvlGap = Math.abs(candidate.tvl - opp.tvl);
+    if (tvlGap < bestTvlGap) {
+      best = i;
+      bestTvlGap = tvlGap;
+    }
+  }
+
+  return best;
+}
+
+function measureDivergence(
+  opp: YieldOpportunity,
+  quotes: YieldSourceQuote[],
+  opts: ReconcileOptions
+): YieldDivergence | null {
+  const apys = quotes.map(q => q.apy);
+  const tvls = quotes.map(q => q.tvl).filter(t => t > 0);
+
+  const apyDifference = Math.max(...apys) - Math.min(...apys);
+  const apyRelativeDifference = relativeSpread(apys);
+  const tvlRelativeDifference = tvls.length > 1 ? relativeSpread(tvls) : 0;
+
+  const reasons: string[] = [];
+  if (apyDifference > opts.apyTolerance && apyRelativeDifference > opts.apyRelativeTolerance) {
+    reasons.push(`APY differs by ${apyDifference.toFixed(2)}pp (${(apyRelativeDifference * 100).toFixed(0)}%)`);
+  }
+  if (tvlRelativeDifference > opts.tvlRelativeTolerance) {
+    reasons.push(`TVL differs by ${(tvlRelativeDifference * 100).toFixed(0)}%`);
+  }
+
+  if (reasons.length === 0) return null;
+
+  return {
+    protocol: opp.protocol,
+    asset: opp.asset,
+    sources: quotes,
+    apyDifference,
+    apyRelativeDifference,
+    tvlRelativeDifference,
+    reasons,
+  };
+}
+
+/**
+ * Agreeing sources keep the primary values; diverging sources fall back to
+ * the more conservative (lower) APY so a bad quote cannot trigger a rebalance.
+ */
+function mergeOpportunity(
+  primary: YieldOpportunity,
+  secondary: YieldOpportunity,
+  quotes: YieldSourceQuote[],
+  primarySource: string,
+  divergence: YieldDivergence | null
+): YieldOpportunity {
+  const apy = divergence ? Math.min(primary.apy, secondary.apy) : primary.apy;
+  const confidence = divergence
+    ? 0.35
+    : 0.95 - Math.min(0.15, relativeSpread(quotes.map(q => q.apy)));
+
+  return {
+    ...secondary,
+    ...primary,
+    type: primary.type || secondary.type,
+    apy,
+    metadata: { ...secondary.metadata, ...primary.metadata },
+    provenance: {
+      sources: quotes,
+      primarySource,
+      agreement: divergence ? 'diverged' : 'agree',
+      apyDifference: divergence?.apyDifference ?? Math.abs(primary.apy - secondary.apy),
+      confidence,
+    },
+  };
+}
+
+function withProvenance(opp: YieldOpportunity, sources: YieldSourceQuote[], primarySource: string): YieldOpportunity {
+  const provenance: YieldProvenance = {
+    sources,
+    primarySource,
+    agreement: 'single',
+    apyDifference: 0,
+    confidence: isEstimated(opp) ? 0.2 : 0.6,
+  };
+  return { ...opp, provenance };
+}
+
+function quote(opp: YieldOpportunity, source: string, fetchedAt: number): YieldSourceQuote {
+  return {
+    source: isEstimated(opp) ? `${source}-fallback` : source,
+    apy: opp.apy,
+    tvl: opp.tvl,
+    poolId: poolIds(opp)[0],
+    fetchedAt,
+  };
+}
+
+function poolIds(opp: YieldOpportunity): string[] {
+  const metadata = (opp.metadata || {}) as Record<string, unknown>;
+  return POOL_ID_FIELDS
+    .map(field => metadata[field])
+    .filter((v): v is string => typeof v === 'string' && v.length > 0);
+}
+
+function normalizeAsset(asset: string): string {
+  return asset.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function relativeSpread(values: number[]): number {
+  const max = Math.max(...values);
+  const min = Math.min(...values);
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return mean > 0 ? (max - min) / mean : 0;
+}
@@ -0,0 +1,120 @@
+/**
+ * Protocol Adapter Registry
+ *
+ * Adapters are registered as factories so each YieldMonitor can bind them to
+ * its own connection. The built-in adapters are registered by default; in-house
+ * integrations can be added at runtime without forking:
+ *
+ *   getAdapterRegistry().register('my-protocol', (connection) => new MyAdapter(connection));
+ */
+
+import { Connection } from '@solana/web3.js';
+import { ProtocolAdapter, ProtocolAdapterFactory } from '../types';
+import { registerRiskProfileAlias } from './risk';
+import { KaminoAdapter } from '../adapters/kamino';
+import { DriftAdapter } from '../adapters/drift';
+import { JitoAdapter } from '../adapters/jito';
+import { MarinadeAdapter } from '../adapters/marinade';
+import { MangoAdapter } from '../adapters/mango';
+import { FundingRateAdapter } from '../adapters/funding';
+import { PumpAdapter } from '../adapters/pump';
+import { OrcaAdapter } from '../adapters/orca';
+import { LuloAdapter } from '../adapters/lulo';
+import { MarginfiAdapter } from '../adapters/marginfi';
+import { MeteoraAdapter } from '../adapters/meteora';
+import { SanctumAdapter } from '../adapters/sanctum';
+
+export class AdapterRegistry {
+  private factories = new Map<string, ProtocolAdapterFactory>();
+
+  /**
+   * Register an adapter factory. Re-registering an id replaces the previous factory.
+   */
+  register(id: string, factory: ProtocolAdapterFactory): this {
+    this.factories.set(id, factory);
+    return this;
+  }
+
+  unregister(id: string): boolean {
+    return this.factories.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.factories.has(id);
+  }
+
+  ids(): string[] {
+    return [...this.factories.keys()];
+  }
+
+  /**
+   * Instantiate every registered adapter against a connection
+   */
+  create(connection: Connection): ProtocolAdapter[] {
+    const adapters: ProtocolAdapter[] = [];
+
+    for (const [id, factory] of this.factories) {
+      try {
+        const adapter = factory(connection);
+        applyRiskProfile(adapter);
+        adapters.push(adapter);
+      } catch (err) {
+        console.warn(`Adapter ${id} failed to initialize:`, err);
+      }
+    }
+
+    return adapters;
+  }
+}
+
+/**
+ * Point each protocol an adapter reports at its declared risk profile
+ */
+function applyRiskProfile(adapter: ProtocolAdapter): void {
+  const { id, protocols, riskProfileId } = adapter.metadata;
+  if (!riskProfileId) return;
+
+  for (const protocol of protocols || [id]) {
+    registerRiskProfileAlias(protocol, riskProfileId);
+  }
+}
+
+/**
+ * Find the adapter for a protocol id: by adapter id, then by the protocols it reports
+ */
+export function findAdapterForProtocol(
+  adapters: ProtocolAdapter[],
+  protocol: string
+): ProtocolAdapter | undefined {
+  return adapters.find(a => a.metadata.id === protocol) ||
+    adapters.find(a => a.metadata.protocols?.includes(protocol));
+}
+
+export function registerBuiltinAdapters(registry: AdapterRegistry): AdapterRegistry {
+  return registry
+    .register('kamino', (connection) => new KaminoAdapter(connection))
+    .register('drift', (connection) => new DriftAdapter(connection))
+    .register('jito', (connection) => new JitoAdapter(connection))
+    .register('marinade', (connection) => new MarinadeAdapter(connection))
+    .register('mango', (connection) => new MangoAdapter(connection))
+    .register('funding', (connection) => new FundingRateAdapter(connection))
+    .register('pump.fun', (connection) => new PumpAdapter(connection))
+    .register('orca', (connection) => new OrcaAdapter(connection))
+    .register('lulo', (connection) => new LuloAdapter(connection))
+    .register('sanctum', (connection) => new SanctumAdapter(connection))
+    .register('marginfi', (connection) => new MarginfiAdapter(connection))
+    .register('meteora', (connection) => new MeteoraAdapter(connection));
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let adapterRegistry: AdapterRegistry | null = null;
+
+export function getAdapterRegistry(): AdapterRegistry {
+  if (!adapterRegistry) {
+    adapterRegistry = registerBuiltinAdapters(new AdapterRegistry());
+  }
+  return adapterRegistry;
+}
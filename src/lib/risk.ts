@@ -44,7 +44,7 @@ export interface RiskAdjustedOpportunity extends YieldOpportunity {
 // Protocol Risk Profiles
 // ============================================================================
 
-interface ProtocolProfile {
+export interface ProtocolProfile {
   name: string;
   audited: boolean;
   auditFirms?: string[];
@@ -67,6 +67,26 @@ const PROTOCOL_PROFILES: Record<string, ProtocolProfile> = {
     insuranceFund: true,
     baseRiskScore: 25,
   },
+  'meteora': {
+    name: 'Meteora',
+    audited: true,
+    auditFirms: ['OtterSec', 'Offside Labs'],
+    launchDate: '2023-02-01', // Relaunched from Mercurial
+    historicalIncidents: 0,
+    centralizationRisk: 'medium',
+    insuranceFund: false,
+    baseRiskScore: 30, // DLMM bins add active-management risk on top of the AMM
+  },
+  'sanctum': {
+    name: 'Sanctum',
+    audited: true,
+    auditFirms: ['Neodyme', 'OtterSec'],
+    launchDate: '2023-06-01',
+    historicalIncidents: 0,
+    centralizationRisk: 'medium', // Smaller LSTs often run on a single validator
+    insuranceFund: false,
+    baseRiskScore: 25,
+  },
   'drift': {
     name: 'Drift Protocol',
     audited: true,
@@ -109,6 +129,16 @@ const PROTOCOL_PROFILES: Record<string, ProtocolProfile> = {
     insuranceFund: true,
     baseRiskScore: 45, // Higher due to historical exploit
   },
+  'marginfi': {
+    name: 'marginfi',
+    audited: true,
+    auditFirms: ['OtterSec', 'Sec3'],
+    launchDate: '2022-11-01',
+    historicalIncidents: 0,
+    centralizationRisk: 'medium', // Multisig upgrade authority
+    insuranceFund: true,
+    baseRiskScore: 25,
+  },
   // For unknown protocols
   'unknown': {
     name: 'Unknown Protocol',
@@ -120,6 +150,31 @@ const PROTOCOL_PROFILES: Record<string, ProtocolProfile> = {
   },
 };
 
+// Protocol ids that score against another protocol's profile (e.g. adapter riskProfileId)
+const PROFILE_ALIASES: Record<string, string> = {};
+
+/**
+ * Register (or replace) a risk profile for a protocol added at runtime
+ */
+export function registerProtocolProfile(protocol: string, profile: ProtocolProfile): void {
+  PROTOCOL_PROFILES[protocol] = profile;
+}
+
+/**
+ * Score a protocol id against an existing profile
+ */
+export function registerRiskProfileAlias(protocol: string, profileId: string): void {
+  if (protocol !== profileId) {
+    PROFILE_ALIASES[protocol] = profileId;
+  }
+}
+
+function getProtocolProfile(protocol: string): ProtocolProfile {
+  return PROTOCOL_PROFILES[protocol] ||
+    PROTOCOL_PROFILES[PROFILE_ALIASES[protocol]] ||
+    PROTOCOL_PROFILES['unknown'];
+}
+
 // ============================================================================
 // Risk Scoring Functions
 // ============================================================================
@@ -129,7 +184,7 @@ const PROTOCOL_PROFILES: Record<string, ProtocolProfile> = {
  * Now enhanced with AEGIS Analyst Agent integration!
  */
 export function calculateRiskScore(opp: YieldOpportunity): RiskScore {
-  const profile = PROTOCOL_PROFILES[opp.protocol] || PROTOCOL_PROFILES['unknown'];
+  const profile = getProtocolProfile(opp.protocol);
   let warnings: string[] = [];
   let positives: string[] = [];
   
@@ -196,17 +251,18 @@ export function calculateRiskScore(opp: YieldOpportunity): RiskScore {
   
   // 3. APY Sustainability Risk (0-100)
   let sustainability = 0;
+  const apy = getScoringApy(opp);
   
   // Extremely high APY is usually unsustainable
-  if (opp.apy > 100) {
+  if (apy > 100) {
     sustainability = 90;
-    warnings.push(`Extremely high APY (${opp.apy.toFixed(1)}%) likely unsustainable`);
-  } else if (opp.apy > 50) {
+    warnings.push(`Extremely high APY (${apy.toFixed(1)}%) likely unsustainable`);
+  } else if (apy > 50) {
     sustainability = 70;
     warnings.push(`Very high APY may not be sustainable`);
-  } else if (opp.apy > 25) {
+  } else if (apy > 25) {
     sustainability = 40;
-  } else if (opp.apy > 10) {
+  } else if (apy > 10) {
     sustainability = 20;
     positives.push('APY in sustainable range');
   } else {
@@ -226,6 +282,19 @@ export function calculateRiskScore(opp: YieldOpportunity): RiskScore {
     }
   }
   
+  // An APY that swings around its snapshot history is less likely to hold
+  const history = opp.apyHistory;
+  if (history) {
+    if (history.relativeVolatility > 0.5) {
+      sustainability += 25;
+      warnings.push(`APY volatile over ${history.windowDays}d (±${history.volatility.toFixed(1)}%)`);
+    } else if (history.relativeVolatility > 0.25) {
+      sustainability += 10;
+    } else if (history.relativeVolatility < 0.1) {
+      positives.push(`APY stable over ${history.windowDays}d`);
+    }
+  }
+  
   sustainability = clamp(sustainability, 0, 100);
   
   // 4. Counterparty Risk (0-100)
@@ -322,6 +391,14 @@ export function calculateRiskScore(opp: YieldOpportunity): RiskScore {
   };
 }
 
+/**
+ * The APY to score an opportunity on: smoothed over its snapshot history
+ * when there is one, so a short spike doesn't win a rebalance
+ */
+export function getScoringApy(opp: YieldOpportunity): number {
+  return opp.apyHistory?.smoothedApy ?? opp.apy;
+}
+
 /**
  * Calculate risk-adjusted APY
  * 
@@ -388,14 +465,20 @@ export function analyzeOpportunities(
 ): RiskAdjustedOpportunity[] {
   return opportunities.map((opp) => {
     const riskScore = calculateRiskScore(opp);
-    const adjustedApy = calculateRiskAdjustedApy(opp.apy, riskScore.overall);
-    const sharpeRatio = calculateSharpeRatio(opp.apy, riskScore.overall);
+    const apy = getScoringApy(opp);
+    const adjustedApy = calculateRiskAdjustedApy(apy, riskScore.overall);
+    const sharpeRatio = calculateSharpeRatio(apy, riskScore.overall);
     const recommendation = getRecommendation(adjustedApy, riskScore.overall, sharpeRatio);
     
     const reasoning: string[] = [];
     
     // Build reasoning
     reasoning.push(`Raw APY: ${opp.apy.toFixed(2)}% → Risk-adjusted: ${adjustedApy.toFixed(2)}%`);
+    if (opp.apyHistory) {
+      const h = opp.apyHistory;
+      reasoning.push(`${h.windowDays}d history: smoothed ${h.smoothedApy.toFixed(2)}% (EMA ${h.ema.toFixed(2)}%, median ${h.median.toFixed(2)}%, ` +
+        `±${h.volatility.toFixed(2)}%, ${h.trend}, ${(h.persistence * 100).toFixed(0)}% of snapshots at spot)`);
+    }
     reasoning.push(`Risk score: ${riskScore.overall}/100 (Sharpe: ${sharpeRatio.toFixed(2)})`);
     
     if (riskScore.aegisData) {
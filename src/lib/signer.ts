@@ -0,0 +1,339 @@
+/**
+ * Transaction Signers
+ *
+ * The engine signs through a TransactionSigner instead of holding a Keypair,
+ * so where the key lives is a deployment decision:
+ * - KeypairSigner: in-memory keypair (development, scripts)
+ * - KeystoreSigner: scrypt + AES-256-GCM encrypted keystore file; the secret
+ *   key is decrypted for each signature and wiped straight after
+ * - RemoteSigner: an HTTP signing service, so the key never enters this process
+ *
+ * createSigningServer() is a local stand-in for the remote service, serving
+ * any other signer (typically a keystore) over the same protocol:
+ *   GET  /public-key  -> { publicKey }
+ *   POST /sign        { message } -> { signature }   (base64 message / signature)
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { randomBytes, scryptSync, createCipheriv, createDecipheriv, timingSafeEqual } from 'crypto';
+import { readFileSync, writeFileSync } from 'fs';
+import { Keypair, PublicKey, VersionedMessage, VersionedTransaction } from '@solana/web3.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TransactionSigner {
+  readonly publicKey: PublicKey;
+  readonly kind: 'keypair' | 'keystore' | 'remote';
+  /**
+   * Add this signer's signature to the transaction (in place) and return it
+   */
+  signTransaction(tx: VersionedTransaction): Promise<VersionedTransaction>;
+}
+
+export interface KeystoreFile {
+  version: 1;
+  publicKey: string;
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  cipher: { name: 'aes-256-gcm'; iv: string; tag: string };
+  ciphertext: string;                 // hex
+}
+
+export interface RemoteSignerOptions {
+  token?: string;                     // Sent as a bearer token
+  timeoutMs?: number;
+}
+
+export interface SigningServerOptions {
+  token?: string;                     // Require this bearer token on every request
+}
+
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+const DEFAULT_REMOTE_TIMEOUT_MS = 10_000;
+
+// ============================================================================
+// In-memory Keypair
+// ============================================================================
+
+export class KeypairSigner implements TransactionSigner {
+  readonly kind = 'keypair' as const;
+  private keypair: Keypair;
+
+  constructor(keypair: Keypair) {
+    this.keypair = keypair;
+  }
+
+  /**
+   * Load a Solana CLI keypair file (JSON array of secret key bytes)
+   */
+  static fromFile(path: string): KeypairSigner {
+    const secretKey = Uint8Array.from(JSON.parse(readFileSync(path, 'utf-8')));
+    return new KeypairSigner(Keypair.fromSecretKey(secretKey));
+  }
+
+  get publicKey(): PublicKey {
+    return this.keypair.publicKey;
+  }
+
+  async signTransaction(tx: VersionedTransaction): Promise<VersionedTransaction> {
+    tx.sign([this.keypair]);
+    return tx;
+  }
+
+  /**
+   * The raw keypair, for SDKs that can only sign with one
+   */
+  unsafeGetKeypair(): Keypair {
+    return this.keypair;
+  }
+}
+
+// ============================================================================
+// Encrypted Keystore
+// ============================================================================
+
+export class KeystoreSigner implements TransactionSigner {
+  readonly kind = 'keystore' as const;
+  readonly publicKey: PublicKey;
+  private keystore: KeystoreFile;
+  private passphrase: string;
+
+  constructor(keystore: KeystoreFile, passphrase: string) {
+    this.keystore = keystore;
+    this.passphrase = passphrase;
+    this.publicKey = new PublicKey(keystore.publicKey);
+
+    // Fail at startup rather than on the first trade if the passphrase is wrong
+    this.withSecretKey(() => undefined);
+  }
+
+  static fromFile(path: string, passphrase: string): KeystoreSigner {
+    return new KeystoreSigner(JSON.parse(readFileSync(path, 'utf-8')), passphrase);
+  }
+
+  async signTransaction(tx: VersionedTransaction): Promise<VersionedTransaction> {
+    this.withSecretKey(secretKey => tx.sign([Keypair.fromSecretKey(secretKey)]));
+    return tx;
+  }
+
+  /**
+   * Decrypt the secret key for the duration of fn, then wipe it
+   */
+  private withSecretKey<T>(fn: (secretKey: Uint8Array) => T): T {
+    const secretKey = decryptKeystore(this.keystore, this.passphrase);
+    try {
+      const keypair = Keypair.fromSecretKey(secretKey);
+      if (!keypair.publicKey.equals(this.publicKey)) {
+        throw new Error('Keystore public key does not match its secret key');
+      }
+      return fn(secretKey);
+    } finally {
+      secretKey.fill(0);
+    }
+  }
+}
+
+/**
+ * Encrypt a secret key with a passphrase
+ */
+export function encryptKeystore(secretKey: Uint8Array, passphrase: string): KeystoreFile {
+  const keypair = Keypair.fromSecretKey(secretKey);
+  const salt = randomBytes(32);
+  const iv = randomBytes(12);
+  const key = scryptSync(passphrase, salt, 32, { ...SCRYPT_PARAMS, maxmem: SCRYPT_MAXMEM });
+
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(secretKey), cipher.final()]);
+  key.fill(0);
+
+  return {
+    version: 1,
+    publicKey: keypair.publicKey.toBase58(),
+    kdf: { name: 'scrypt', salt: salt.toString('hex'), ...SCRYPT_PARAMS },
+    cipher: { name: 'aes-256-gcm', iv: iv.toString('hex'), tag: cipher.getAuthTag().toString('hex') },
+    ciphertext: ciphertext.toString('hex'),
+  };
+}
+
+export function decryptKeystore(keystore: KeystoreFile, passphrase: string): Uint8Array {
+  if (keystore.version !== 1 || keystore.kdf?.name !== 'scrypt' || keystore.cipher?.name !== 'aes-256-gcm') {
+    throw new Error('Unsupported keystore format');
+  }
+
+  const { salt, N, r, p } = keystore.kdf;
+  const key = scryptSync(passphrase, Buffer.from(salt, 'hex'), 32, { N, r, p, maxmem: SCRYPT_MAXMEM });
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(keystore.cipher.iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(keystore.cipher.tag, 'hex'));
+    return new Uint8Array(Buffer.concat([
+      decipher.update(Buffer.from(keystore.ciphertext, 'hex')),
+      decipher.final(),
+    ]));
+  } catch {
+    throw new Error('Could not decrypt keystore (wrong passphrase?)');
+  } finally {
+    key.fill(0);
+  }
+}
+
+/**
+ * Encrypt a Solana CLI keypair file into a keystore file
+ */
+export function writeKeystoreFile(keypairPath: string, keystorePath: string, passphrase: string): KeystoreFile {
+  const secretKey = Uint8Array.from(JSON.parse(readFileSync(keypairPath, 'utf-8')));
+  try {
+    const keystore = encryptKeystore(secretKey, passphrase);
+    writeFileSync(keystorePath, JSON.stringify(keystore, null, 2), { mode: 0o600 });
+    return keystore;
+  } finally {
+    secretKey.fill(0);
+  }
+}
+
+// ============================================================================
+// Remote HTTP Signer
+// ============================================================================
+
+export class RemoteSigner implements TransactionSigner {
+  readonly kind = 'remote' as const;
+  readonly publicKey: PublicKey;
+  private url: string;
+  private options: RemoteSignerOptions;
+
+  constructor(url: string, publicKey: PublicKey, options: RemoteSignerOptions = {}) {
+    this.url = url.replace(/\/$/, '');
+    this.publicKey = publicKey;
+    this.options = options;
+  }
+
+  /**
+   * Ask the service which key it signs with
+   */
+  static async connect(url: string, options: RemoteSignerOptions = {}): Promise<RemoteSigner> {
+    const signer = new RemoteSigner(url, PublicKey.default, options);
+    const { publicKey } = await signer.request('GET', '/public-key');
+    return new RemoteSigner(url, new PublicKey(publicKey), options);
+  }
+
+  async signTransaction(tx: VersionedTransaction): Promise<VersionedTransaction> {
+    const { signature } = await this.request('POST', '/sign', {
+      message: Buffer.from(tx.message.serialize()).toString('base64'),
+    });
+    tx.addSignature(this.publicKey, Buffer.from(signature, 'base64'));
+    return tx;
+  }
+
+  private async request(method: string, path: string, body?: unknown): Promise<any> {
+    const response = await fetch(`${this.url}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.token && { Authorization: `Bearer ${this.options.token}` }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_REMOTE_TIMEOUT_MS),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Remote signer ${path} failed: ${data.error || response.statusText}`);
+    }
+    return data;
+  }
+}
+
+// ============================================================================
+// Local Signing Service
+// ============================================================================
+
+/**
+ * HTTP signing service backed by another signer. Only signs messages that
+ * require its key as a signer.
+ */
+export function createSigningServer(signer: TransactionSigner, options: SigningServerOptions = {}): Server {
+  return createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    try {
+      if (options.token && !hasBearerToken(req, options.token)) {
+        return reply(res, 401, { error: 'Unauthorized' });
+      }
+
+      if (req.method === 'GET' && req.url === '/public-key') {
+        return reply(res, 200, { publicKey: signer.publicKey.toBase58() });
+      }
+
+      if (req.method === 'POST' && req.url === '/sign') {
+        const { message: encoded } = JSON.parse(await readBody(req));
+        const message = VersionedMessage.deserialize(Buffer.from(encoded, 'base64'));
+        const signers = message.staticAccountKeys.slice(0, message.header.numRequiredSignatures);
+        const index = signers.findIndex(key => key.equals(signer.publicKey));
+        if (index < 0) {
+          return reply(res, 400, { error: 'Message does not require this signer' });
+        }
+
+        const tx = await signer.signTransaction(new VersionedTransaction(message));
+        return reply(res, 200, { signature: Buffer.from(tx.signatures[index]).toString('base64') });
+      }
+
+      reply(res, 404, { error: 'Not found' });
+    } catch (err) {
+      reply(res, 400, { error: `Signing failed: ${err}` });
+    }
+  });
+}
+
+function hasBearerToken(req: IncomingMessage, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(req.headers.authorization || '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function reply(res: ServerResponse, status: number, data: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(data));
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Signer from the environment, most secure option first:
+ * - SIGNER_URL (+ SIGNER_PUBLIC_KEY, optional SIGNER_TOKEN): remote signer
+ * - KEYSTORE_PATH + KEYSTORE_PASSPHRASE: encrypted keystore
+ * - KEYPAIR_PATH: plain keypair file
+ * Returns null if none is configured.
+ */
+export function loadSignerFromEnv(env: NodeJS.ProcessEnv = process.env): TransactionSigner | null {
+  if (env.SIGNER_URL) {
+    if (!env.SIGNER_PUBLIC_KEY) {
+      throw new Error('SIGNER_URL requires SIGNER_PUBLIC_KEY');
+    }
+    return new RemoteSigner(env.SIGNER_URL, new PublicKey(env.SIGNER_PUBLIC_KEY), { token: env.SIGNER_TOKEN });
+  }
+
+  if (env.KEYSTORE_PATH) {
+    if (env.KEYSTORE_PASSPHRASE === undefined) {
+      throw new Error('KEYSTORE_PATH requires KEYSTORE_PASSPHRASE');
+    }
+    return KeystoreSigner.fromFile(env.KEYSTORE_PATH, env.KEYSTORE_PASSPHRASE);
+  }
+
+  if (env.KEYPAIR_PATH) {
+    return KeypairSigner.fromFile(env.KEYPAIR_PATH);
+  }
+
+  return null;
+}
@@ -12,7 +12,8 @@ import {
   type ReasoningTrace,
   type CommitResult,
 } from '@solprism/sdk';
-import type { Connection, Keypair } from '@solana/web3.js';
+import type { Connection } from '@solana/web3.js';
+import { KeypairSigner, type TransactionSigner } from './signer';
 import type { StrategyResult, YieldOpportunity } from '../types';
 
 export interface VerifiableDecision {
@@ -139,16 +140,23 @@ export function recordDecision(
 
 /**
  * Commit reasoning hash onchain (requires wallet)
+ *
+ * The SOLPRISM SDK signs with a raw Keypair, so this only works with an
+ * in-memory KeypairSigner; keystore and remote signers are refused.
  */
 export async function commitDecisionOnchain(
   connection: Connection,
-  wallet: Keypair,
+  signer: TransactionSigner,
   decision: VerifiableDecision,
   config: SolprismConfig = DEFAULT_CONFIG
 ): Promise<CommitResult> {
+  if (!(signer instanceof KeypairSigner)) {
+    throw new Error(`SOLPRISM commits need an in-memory keypair signer, got ${signer.kind}`);
+  }
+
   const client = new SolprismClient(config.rpcUrl);
   
-  const commitment = await client.commitReasoning(wallet, decision.trace);
+  const commitment = await client.commitReasoning(signer.unsafeGetKeypair(), decision.trace);
   decision.commitment = commitment;
   
   return commitment;
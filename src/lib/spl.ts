@@ -0,0 +1,217 @@
+/**
+ * SPL token account helpers
+ *
+ * Shared by the protocol adapters to read wallet token balances and
+ * account history, and to build the token-account instructions their
+ * deposit/withdraw flows need, without pulling in the full spl-token client.
+ */
+
+import { Connection, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+
+export const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+export const TOKEN_2022_PROGRAM_ID = new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+export const NATIVE_MINT = new PublicKey('So11111111111111111111111111111111111111112');
+
+// Token program instruction tags
+const TOKEN_IX_CLOSE_ACCOUNT = 9;
+const TOKEN_IX_SYNC_NATIVE = 17;
+const ATA_IX_CREATE_IDEMPOTENT = 1;
+
+export interface TokenBalance {
+  mint: string;
+  account: PublicKey;
+  amount: number;     // UI amount (decimals applied)
+  rawAmount: bigint;  // Base units
+  decimals: number;
+}
+
+/**
+ * Get all non-zero SPL token balances held by a wallet (classic + Token-2022)
+ */
+export async function getWalletTokenBalances(
+  connection: Connection,
+  owner: PublicKey
+): Promise<TokenBalance[]> {
+  const results = await Promise.allSettled([
+    connection.getParsedTokenAccountsByOwner(owner, { programId: TOKEN_PROGRAM_ID }),
+    connection.getParsedTokenAccountsByOwner(owner, { programId: TOKEN_2022_PROGRAM_ID }),
+  ]);
+
+  const balances: TokenBalance[] = [];
+
+  for (const result of results) {
+    if (result.status !== 'fulfilled') continue;
+
+    for (const { pubkey, account } of result.value.value) {
+      const info = (account.data as any)?.parsed?.info;
+      const tokenAmount = info?.tokenAmount;
+      if (!info?.mint || !tokenAmount) continue;
+
+      const rawAmount = BigInt(tokenAmount.amount);
+      if (rawAmount === 0n) continue;
+
+      balances.push({
+        mint: info.mint,
+        account: pubkey,
+        amount: tokenAmount.uiAmount ?? Number(rawAmount) / 10 ** tokenAmount.decimals,
+        rawAmount,
+        decimals: tokenAmount.decimals,
+      });
+    }
+  }
+
+  return balances;
+}
+
+export interface MintInfo {
+  supply: bigint;     // Base units
+  decimals: number;
+}
+
+/**
+ * Read supply and decimals for a batch of mints (classic + Token-2022 share the base layout)
+ */
+export async function getMintInfos(
+  connection: Connection,
+  mints: string[]
+): Promise<Record<string, MintInfo>> {
+  const unique = [...new Set(mints)];
+  const infos: Record<string, MintInfo> = {};
+
+  // getMultipleAccountsInfo accepts at most 100 keys per call
+  for (let i = 0; i < unique.length; i += 100) {
+    const batch = unique.slice(i, i + 100);
+    const accounts = await connection.getMultipleAccountsInfo(batch.map(m => new PublicKey(m)));
+
+    accounts.forEach((account, j) => {
+      if (!account || account.data.length < 82) return;
+      infos[batch[j]] = {
+        supply: account.data.readBigUInt64LE(36),
+        decimals: account.data.readUInt8(44),
+      };
+    });
+  }
+
+  return infos;
+}
+
+/**
+ * Approximate when an account was created from its oldest known signature.
+ * Only the most recent 1000 signatures are scanned, so very active accounts
+ * report the oldest time within that window.
+ */
+export async function getAccountFirstSeen(
+  connection: Connection,
+  address: PublicKey
+): Promise<Date | null> {
+  try {
+    const signatures = await connection.getSignaturesForAddress(address, { limit: 1000 });
+    const oldest = signatures[signatures.length - 1];
+    return oldest?.blockTime ? new Date(oldest.blockTime * 1000) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read an unsigned little-endian u128 from account data
+ */
+export function readU128LE(data: Buffer, offset: number): bigint {
+  const lo = data.readBigUInt64LE(offset);
+  const hi = data.readBigUInt64LE(offset + 8);
+  return (hi << 64n) | lo;
+}
+
+/**
+ * Read a signed little-endian i128 from account data
+ */
+export function readI128LE(data: Buffer, offset: number): bigint {
+  const lo = data.readBigUInt64LE(offset);
+  const hi = data.readBigInt64LE(offset + 8);
+  return (hi << 64n) | lo;
+}
+
+/**
+ * UI amount -> base units for a mint whose decimals were read on-chain
+ * (see TokenRegistry.toBaseUnits for registered tokens)
+ */
+export function uiToBaseUnits(amount: number, decimals: number): bigint {
+  const [whole, fraction = ''] = amount.toFixed(decimals).split('.');
+  return BigInt(whole + fraction.padEnd(decimals, '0'));
+}
+
+// ============================================================================
+// Instruction Builders
+// ============================================================================
+
+export function getAssociatedTokenAddress(
+  owner: PublicKey,
+  mint: PublicKey,
+  tokenProgram: PublicKey = TOKEN_PROGRAM_ID
+): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), tokenProgram.toBuffer(), mint.toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  )[0];
+}
+
+/**
+ * Create the owner's associated token account if it doesn't exist yet
+ */
+export function createAssociatedTokenAccountIdempotentInstruction(
+  payer: PublicKey,
+  owner: PublicKey,
+  mint: PublicKey,
+  tokenProgram: PublicKey = TOKEN_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: getAssociatedTokenAddress(owner, mint, tokenProgram), isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: false, isWritable: false },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: tokenProgram, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from([ATA_IX_CREATE_IDEMPOTENT]),
+  });
+}
+
+/**
+ * Move lamports into the owner's wrapped SOL account so programs can take SPL SOL
+ */
+export function buildWrapSolInstructions(owner: PublicKey, lamports: bigint): TransactionInstruction[] {
+  const wsolAccount = getAssociatedTokenAddress(owner, NATIVE_MINT);
+
+  return [
+    createAssociatedTokenAccountIdempotentInstruction(owner, owner, NATIVE_MINT),
+    SystemProgram.transfer({ fromPubkey: owner, toPubkey: wsolAccount, lamports }),
+    new TransactionInstruction({
+      programId: TOKEN_PROGRAM_ID,
+      keys: [{ pubkey: wsolAccount, isSigner: false, isWritable: true }],
+      data: Buffer.from([TOKEN_IX_SYNC_NATIVE]),
+    }),
+  ];
+}
+
+/**
+ * Close a token account, returning its rent (and any wrapped SOL) to the destination
+ */
+export function createCloseAccountInstruction(
+  account: PublicKey,
+  destination: PublicKey,
+  owner: PublicKey,
+  tokenProgram: PublicKey = TOKEN_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: tokenProgram,
+    keys: [
+      { pubkey: account, isSigner: false, isWritable: true },
+      { pubkey: destination, isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: true, isWritable: false },
+    ],
+    data: Buffer.from([TOKEN_IX_CLOSE_ACCOUNT]),
+  });
+}
@@ -0,0 +1,278 @@
+/**
+ * Squads v4 Multisig Proposals
+ *
+ * For treasury wallets the engine doesn't sign trades itself. Each leg of a
+ * trade becomes a Squads vault transaction plus a proposal; the multisig's
+ * members approve (or reject) and execute it on-chain. The proposer key only
+ * needs the Initiate permission and pays the rent for the proposal accounts.
+ */
+
+import {
+  AddressLookupTableAccount,
+  Connection,
+  MessageV0,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { anchorDiscriminator, encodeBool, encodeU16, encodeU64, encodeU8 } from './instructions';
+import { TransactionSigner } from './signer';
+import { assertLanded, getConfirmationTracker } from './confirmation';
+import { getProgramId } from './cluster';
+
+export const SQUADS_PROGRAM_ID = getProgramId('squads', 'SQDS4ep65T869zMMBKyuh8FyRNs5HaBCqAB78dMYBPo');
+
+// Multisig account layout
+const MULTISIG_THRESHOLD_OFFSET = 72;
+const MULTISIG_TRANSACTION_INDEX_OFFSET = 78;
+const MULTISIG_STALE_TRANSACTION_INDEX_OFFSET = 86;
+
+// Proposal account layout
+const PROPOSAL_STATUS_OFFSET = 48;
+const PROPOSAL_STATUSES = ['draft', 'active', 'rejected', 'approved', 'executing', 'executed', 'cancelled'] as const;
+
+const MAX_TRANSACTION_SIZE = 1232;
+const MAX_MEMO_LENGTH = 200;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SquadsProposalStatus = typeof PROPOSAL_STATUSES[number] | 'stale';
+
+export interface SquadsProposal {
+  multisig: string;
+  transactionIndex: number;
+  transaction: string;          // Vault transaction account
+  proposal: string;             // Proposal account
+  signature: string;            // Transaction that created both
+  status: SquadsProposalStatus;
+}
+
+interface MultisigState {
+  threshold: number;
+  transactionIndex: bigint;
+  staleTransactionIndex: bigint;
+}
+
+// ============================================================================
+// Proposer
+// ============================================================================
+
+export class SquadsProposer {
+  private connection: Connection;
+  private signer: TransactionSigner;
+  readonly multisig: PublicKey;
+  readonly vaultIndex: number;
+
+  constructor(connection: Connection, signer: TransactionSigner, multisig: PublicKey, vaultIndex: number = 0) {
+    this.connection = connection;
+    this.signer = signer;
+    this.multisig = multisig;
+    this.vaultIndex = vaultIndex;
+  }
+
+  /**
+   * The vault that holds the funds and signs executed transactions
+   */
+  get vault(): PublicKey {
+    return getSquadsVaultAddress(this.multisig, this.vaultIndex);
+  }
+
+  /**
+   * Wrap instructions (built with the vault as the wallet) in a vault
+   * transaction and open a proposal for it. The memo is recorded with the
+   * vault transaction for approvers and indexers.
+   */
+  async propose(
+    instructions: TransactionInstruction[],
+    lookupTables: AddressLookupTableAccount[],
+    memo: string
+  ): Promise<SquadsProposal> {
+    const state = await this.getMultisig();
+    const transactionIndex = state.transactionIndex + 1n;
+    const transaction = getSquadsTransactionAddress(this.multisig, transactionIndex);
+    const proposal = getSquadsProposalAddress(this.multisig, transactionIndex);
+
+    const vaultMessage = new TransactionMessage({
+      payerKey: this.vault,
+      recentBlockhash: PublicKey.default.toBase58(),   // Replaced at execution
+      instructions,
+    }).compileToV0Message(lookupTables);
+
+    const createTransaction = new TransactionInstruction({
+      programId: SQUADS_PROGRAM_ID,
+      keys: [
+        { pubkey: this.multisig, isSigner: false, isWritable: true },
+        { pubkey: transaction, isSigner: false, isWritable: true },
+        { pubkey: this.signer.publicKey, isSigner: true, isWritable: false },
+        { pubkey: this.signer.publicKey, isSigner: true, isWritable: true },
+        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      ],
+      data: Buffer.concat([
+        anchorDiscriminator('vault_transaction_create'),
+        encodeU8(this.vaultIndex),
+        encodeU8(0),                                   // Ephemeral signers
+        encodeBytes(serializeVaultMessage(vaultMessage)),
+        encodeOptionString(memo.slice(0, MAX_MEMO_LENGTH)),
+      ]),
+    });
+
+    const createProposal = new TransactionInstruction({
+      programId: SQUADS_PROGRAM_ID,
+      keys: [
+        { pubkey: this.multisig, isSigner: false, isWritable: false },
+        { pubkey: proposal, isSigner: false, isWritable: true },
+        { pubkey: this.signer.publicKey, isSigner: true, isWritable: false },
+        { pubkey: this.signer.publicKey, isSigner: true, isWritable: true },
+        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      ],
+      data: Buffer.concat([
+        anchorDiscriminator('proposal_create'),
+        encodeU64(transactionIndex),
+        encodeBool(false),                             // Not a draft: open for voting
+      ]),
+    });
+
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+    const tx = new VersionedTransaction(new TransactionMessage({
+      payerKey: this.signer.publicKey,
+      recentBlockhash: blockhash,
+      instructions: [createTransaction, createProposal],
+    }).compileToV0Message());
+
+    const size = tx.serialize().length;
+    if (size > MAX_TRANSACTION_SIZE) {
+      throw new Error(`Squads proposal transaction is ${size} bytes (max ${MAX_TRANSACTION_SIZE}); split the action into smaller legs`);
+    }
+
+    await this.signer.signTransaction(tx);
+    const confirmation = await getConfirmationTracker().sendAndConfirm(this.connection, tx, {
+      lastValidBlockHeight,
+    });
+    assertLanded(confirmation);
+
+    return {
+      multisig: this.multisig.toBase58(),
+      transactionIndex: Number(transactionIndex),
+      transaction: transaction.toBase58(),
+      proposal: proposal.toBase58(),
+      signature: confirmation.signature,
+      status: 'active',
+    };
+  }
+
+  /**
+   * Current status of a proposal. Proposals that weren't approved before a
+   * config change are stale and can never execute.
+   */
+  async getProposalStatus(transactionIndex: number): Promise<SquadsProposalStatus> {
+    const [multisigInfo, proposalInfo] = await this.connection.getMultipleAccountsInfo([
+      this.multisig,
+      getSquadsProposalAddress(this.multisig, BigInt(transactionIndex)),
+    ]);
+    if (!multisigInfo) throw new Error(`Multisig ${this.multisig.toBase58()} not found`);
+    if (!proposalInfo) throw new Error(`Proposal ${transactionIndex} not found`);
+
+    const status = PROPOSAL_STATUSES[proposalInfo.data.readUInt8(PROPOSAL_STATUS_OFFSET)];
+    if (!status) throw new Error(`Unknown proposal status for ${transactionIndex}`);
+
+    const { staleTransactionIndex } = decodeMultisig(multisigInfo.data);
+    if ((status === 'draft' || status === 'active') && BigInt(transactionIndex) <= staleTransactionIndex) {
+      return 'stale';
+    }
+    return status;
+  }
+
+  async getMultisig(): Promise<MultisigState> {
+    const info = await this.connection.getAccountInfo(this.multisig);
+    if (!info || !info.owner.equals(SQUADS_PROGRAM_ID)) {
+      throw new Error(`${this.multisig.toBase58()} is not a Squads v4 multisig`);
+    }
+    return decodeMultisig(info.data);
+  }
+}
+
+// ============================================================================
+// Addresses
+// ============================================================================
+
+export function getSquadsVaultAddress(multisig: PublicKey, vaultIndex: number = 0): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('multisig'), multisig.toBuffer(), Buffer.from('vault'), encodeU8(vaultIndex)],
+    SQUADS_PROGRAM_ID
+  )[0];
+}
+
+export function getSquadsTransactionAddress(multisig: PublicKey, transactionIndex: bigint): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('multisig'), multisig.toBuffer(), Buffer.from('transaction'), encodeU64(transactionIndex)],
+    SQUADS_PROGRAM_ID
+  )[0];
+}
+
+export function getSquadsProposalAddress(multisig: PublicKey, transactionIndex: bigint): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [
+      Buffer.from('multisig'),
+      multisig.toBuffer(),
+      Buffer.from('transaction'),
+      encodeU64(transactionIndex),
+      Buffer.from('proposal'),
+    ],
+    SQUADS_PROGRAM_ID
+  )[0];
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+function decodeMultisig(data: Buffer): MultisigState {
+  return {
+    threshold: data.readUInt16LE(MULTISIG_THRESHOLD_OFFSET),
+    transactionIndex: data.readBigUInt64LE(MULTISIG_TRANSACTION_INDEX_OFFSET),
+    staleTransactionIndex: data.readBigUInt64LE(MULTISIG_STALE_TRANSACTION_INDEX_OFFSET),
+  };
+}
+
+/**
+ * Squads' compact TransactionMessage: u8-length arrays everywhere except
+ * instruction data, which has a u16 length
+ */
+function serializeVaultMessage(message: MessageV0): Buffer {
+  const { header, staticAccountKeys, compiledInstructions, addressTableLookups } = message;
+  const smallArray = (items: Buffer[]) => Buffer.concat([encodeU8(items.length), ...items]);
+  const byteArray = (bytes: number[] | Uint8Array) => Buffer.concat([encodeU8(bytes.length), Buffer.from(bytes)]);
+
+  return Buffer.concat([
+    encodeU8(header.numRequiredSignatures),
+    encodeU8(header.numRequiredSignatures - header.numReadonlySignedAccounts),
+    encodeU8(staticAccountKeys.length - header.numRequiredSignatures - header.numReadonlyUnsignedAccounts),
+    smallArray(staticAccountKeys.map(k => k.toBuffer())),
+    smallArray(compiledInstructions.map(ix => Buffer.concat([
+      encodeU8(ix.programIdIndex),
+      byteArray(ix.accountKeyIndexes),
+      encodeU16(ix.data.length),
+      Buffer.from(ix.data),
+    ]))),
+    smallArray(addressTableLookups.map(lookup => Buffer.concat([
+      lookup.accountKey.toBuffer(),
+      byteArray(lookup.writableIndexes),
+      byteArray(lookup.readonlyIndexes),
+    ]))),
+  ]);
+}
+
+function encodeBytes(bytes: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(bytes.length);
+  return Buffer.concat([length, bytes]);
+}
+
+function encodeOptionString(value: string): Buffer {
+  if (!value) return encodeU8(0);
+  return Buffer.concat([encodeU8(1), encodeBytes(Buffer.from(value, 'utf-8'))]);
+}
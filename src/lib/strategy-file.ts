@@ -0,0 +1,342 @@
+/**
+ * Strategy Definition Files
+ *
+ * One versioned JSON or YAML file describes a strategy completely: which
+ * protocols, assets and opportunity types it may use, its constraints,
+ * when it rebalances, what trading costs, and which trades need approval.
+ * The CLI, server, TradingModeManager, Autopilot and BacktestEngine all load
+ * it the same way, so the file that was backtested is the one paper-traded
+ * and then run live.
+ *
+ *   version: 1
+ *   name: treasury-balanced
+ *   riskTolerance: medium
+ *   eligible:
+ *     protocols: [kamino, marginfi, jito]
+ *     types: [lending, staking]
+ *   constraints:
+ *     maxProtocolConcentration: 0.4
+ *     maxSlippage: 0.005
+ *   triggers:
+ *     minApyImprovement: 1
+ *     checkIntervalMinutes: 60
+ *   approval:
+ *     requireApprovalAboveUsd: 250
+ *
+ * Everything but version and name is optional; unset values fall back to
+ * the defaults of whatever runs the strategy. Unknown keys are rejected so
+ * a typo can't silently drop a limit.
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { Strategy, StrategyEligibility } from '../types';
+import type { AllocationConstraints } from './optimizer';
+import type { TradingModeConfig, SquadsConfig } from './trading-mode';
+import type { BacktestConfig } from './backtest';
+import { DEFAULT_STRATEGY } from './yield';
+
+export const STRATEGY_FILE_VERSION = 1;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StrategyDefinition {
+  version: typeof STRATEGY_FILE_VERSION;
+  name: string;
+  description?: string;
+  riskTolerance?: Strategy['riskTolerance'];
+  eligible?: StrategyEligibility;
+  constraints?: {
+    maxProtocolConcentration?: number;   // 0-1
+    maxPositionConcentration?: number;   // 0-1, live safety limit
+    maxSlippage?: number;                // 0-1
+    allocation?: Partial<AllocationConstraints>; // Spread with the optimizer
+  };
+  triggers?: {
+    minApyImprovement?: number;          // Risk-adjusted APY points to justify a rebalance
+    expectedHoldingDays?: number;        // Moves must pay back their costs within this
+    checkIntervalMinutes?: number;       // Backtests round to whole days
+    minMinutesBetweenTrades?: number;
+    maxDrawdownPercent?: number;
+    maxConsecutiveLosses?: number;
+    emergencyExitRiskScore?: number;
+  };
+  costs?: {
+    gasCostUsd?: number;                 // Per rebalance in backtests
+    feeLamportsPerTransaction?: number;  // Paper fills
+    slippageBps?: number;                // Paper fills
+    protocolFeeBps?: number;             // Paper fills
+  };
+  approval?: {
+    requireApprovalAboveUsd?: number;
+    maxTradeValueUsd?: number;
+    maxDailyTradesUsd?: number;
+    execution?: TradingModeConfig['execution'];
+    squads?: SquadsConfig;
+  };
+}
+
+type FieldSchema =
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'string' }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'list'; items: FieldSchema }
+  | { type: 'object'; fields: Record<string, FieldSchema>; required?: string[] };
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const fraction: FieldSchema = { type: 'number', min: 0, max: 1 };
+const positive: FieldSchema = { type: 'number', min: 0 };
+const riskScore: FieldSchema = { type: 'number', min: 0, max: 100 };
+
+export const STRATEGY_SCHEMA: FieldSchema = {
+  type: 'object',
+  required: ['version', 'name'],
+  fields: {
+    version: { type: 'number', integer: true },
+    name: { type: 'string' },
+    description: { type: 'string' },
+    riskTolerance: { type: 'enum', values: ['low', 'medium', 'high'] },
+    eligible: {
+      type: 'object',
+      fields: {
+        protocols: { type: 'list', items: { type: 'string' } },
+        assets: { type: 'list', items: { type: 'string' } },
+        types: { type: 'list', items: { type: 'enum', values: ['trading-fees', 'lending', 'staking', 'liquidity'] } },
+      },
+    },
+    constraints: {
+      type: 'object',
+      fields: {
+        maxProtocolConcentration: fraction,
+        maxPositionConcentration: fraction,
+        maxSlippage: fraction,
+        allocation: {
+          type: 'object',
+          fields: {
+            maxProtocolWeight: fraction,
+            maxAssetWeight: fraction,
+            maxRiskScore: riskScore,
+            maxTvlShare: fraction,
+            minPositionUsd: positive,
+            minTradeUsd: positive,
+            reserveSol: positive,
+          },
+        },
+      },
+    },
+    triggers: {
+      type: 'object',
+      fields: {
+        minApyImprovement: positive,
+        expectedHoldingDays: { type: 'number', min: 1 },
+        checkIntervalMinutes: { type: 'number', min: 1 },
+        minMinutesBetweenTrades: positive,
+        maxDrawdownPercent: { type: 'number', min: 0, max: 100 },
+        maxConsecutiveLosses: { type: 'number', min: 1, integer: true },
+        emergencyExitRiskScore: riskScore,
+      },
+    },
+    costs: {
+      type: 'object',
+      fields: {
+        gasCostUsd: positive,
+        feeLamportsPerTransaction: { type: 'number', min: 0, integer: true },
+        slippageBps: { type: 'number', min: 0, max: 10_000 },
+        protocolFeeBps: { type: 'number', min: 0, max: 10_000 },
+      },
+    },
+    approval: {
+      type: 'object',
+      fields: {
+        requireApprovalAboveUsd: positive,
+        maxTradeValueUsd: positive,
+        maxDailyTradesUsd: positive,
+        execution: { type: 'enum', values: ['direct', 'squads'] },
+        squads: {
+          type: 'object',
+          required: ['multisig'],
+          fields: {
+            multisig: { type: 'string' },
+            vaultIndex: { type: 'number', min: 0, integer: true },
+          },
+        },
+      },
+    },
+  },
+};
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Read and validate a strategy file (.json, or YAML for anything else)
+ */
+export function loadStrategyFile(path: string): StrategyDefinition {
+  let raw: unknown;
+  try {
+    const text = readFileSync(path, 'utf-8');
+    raw = extname(path).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    throw new Error(`Failed to read strategy file ${path}: ${err instanceof Error ? err.message : err}`);
+  }
+  return parseStrategyDefinition(raw, path);
+}
+
+/**
+ * Validate an already-parsed definition, reporting every problem at once
+ */
+export function parseStrategyDefinition(raw: unknown, source: string = 'strategy'): StrategyDefinition {
+  const version = (raw as { version?: unknown } | null)?.version;
+  if (version !== undefined && version !== STRATEGY_FILE_VERSION) {
+    throw new Error(`${source}: unsupported strategy version ${version} (this build reads version ${STRATEGY_FILE_VERSION})`);
+  }
+
+  const errors: string[] = [];
+  validate(raw, STRATEGY_SCHEMA, '', errors);
+
+  const definition = raw as StrategyDefinition;
+  if (errors.length === 0 && definition.approval?.execution === 'squads' && !definition.approval.squads) {
+    errors.push('approval.squads is required when approval.execution is squads');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid strategy ${source}:\n${errors.map(e => `  - ${e}`).join('\n')}`);
+  }
+  return definition;
+}
+
+function validate(value: unknown, schema: FieldSchema, path: string, errors: string[]): void {
+  const at = path || 'strategy';
+
+  switch (schema.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${at} must be a number`);
+      } else if (schema.integer && !Number.isInteger(value)) {
+        errors.push(`${at} must be a whole number`);
+      } else if ((schema.min !== undefined && value < schema.min) || (schema.max !== undefined && value > schema.max)) {
+        errors.push(`${at} must be between ${schema.min ?? '-∞'} and ${schema.max ?? '∞'}`);
+      }
+      return;
+
+    case 'string':
+      if (typeof value !== 'string' || value.trim() === '') errors.push(`${at} must be a non-empty string`);
+      return;
+
+    case 'enum':
+      if (typeof value !== 'string' || !schema.values.includes(value)) {
+        errors.push(`${at} must be one of ${schema.values.join(', ')}`);
+      }
+      return;
+
+    case 'list':
+      if (!Array.isArray(value)) {
+        errors.push(`${at} must be a list`);
+        return;
+      }
+      value.forEach((item, i) => validate(item, schema.items, `${at}[${i}]`, errors));
+      return;
+
+    case 'object':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${at} must be a mapping`);
+        return;
+      }
+      for (const key of schema.required || []) {
+        if (!(key in value)) errors.push(`${path ? `${path}.` : ''}${key} is required`);
+      }
+      for (const [key, field] of Object.entries(value)) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        if (!(key in schema.fields)) {
+          errors.push(`${fieldPath} is not a known setting`);
+        } else if (field !== undefined) {
+          validate(field, schema.fields[key], fieldPath, errors);
+        }
+      }
+      return;
+  }
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * The Strategy the engines run, with SolanaYield's defaults for unset values
+ */
+export function toStrategy(definition: StrategyDefinition): Strategy {
+  const { constraints = {}, triggers = {} } = definition;
+  return {
+    name: definition.name,
+    riskTolerance: definition.riskTolerance ?? DEFAULT_STRATEGY.riskTolerance,
+    rebalanceThreshold: triggers.minApyImprovement ?? DEFAULT_STRATEGY.rebalanceThreshold,
+    maxProtocolConcentration: constraints.maxProtocolConcentration ?? DEFAULT_STRATEGY.maxProtocolConcentration,
+    maxSlippage: constraints.maxSlippage ?? DEFAULT_STRATEGY.maxSlippage,
+    ...(definition.eligible && { eligible: definition.eligible }),
+    ...(triggers.expectedHoldingDays !== undefined && { expectedHoldingDays: triggers.expectedHoldingDays }),
+    ...(constraints.allocation && { allocation: constraints.allocation }),
+  };
+}
+
+/**
+ * TradingModeManager settings from the file's triggers, costs and approval
+ * policy. The trading mode itself is chosen at runtime, not by the file.
+ */
+export function toTradingConfig(definition: StrategyDefinition): Partial<TradingModeConfig> {
+  const { constraints = {}, triggers = {}, costs = {}, approval = {} } = definition;
+  const paper = defined({
+    slippageBps: costs.slippageBps,
+    feeLamportsPerTransaction: costs.feeLamportsPerTransaction,
+    protocolFeeBps: costs.protocolFeeBps,
+  });
+
+  return defined({
+    maxTradeValueUsd: approval.maxTradeValueUsd,
+    maxDailyTradesUsd: approval.maxDailyTradesUsd,
+    maxPositionConcentration: constraints.maxPositionConcentration,
+    maxSlippageBps: constraints.maxSlippage !== undefined ? Math.round(constraints.maxSlippage * 10_000) : undefined,
+    minTimeBetweenTradesMs: triggers.minMinutesBetweenTrades !== undefined ? triggers.minMinutesBetweenTrades * 60_000 : undefined,
+    decisionIntervalMs: triggers.checkIntervalMinutes !== undefined ? triggers.checkIntervalMinutes * 60_000 : undefined,
+    maxConsecutiveLosses: triggers.maxConsecutiveLosses,
+    maxDrawdownPercent: triggers.maxDrawdownPercent,
+    emergencyExitThreshold: triggers.emergencyExitRiskScore,
+    requireApprovalAboveUsd: approval.requireApprovalAboveUsd,
+    execution: approval.execution,
+    squads: approval.squads,
+    paper: Object.keys(paper).length > 0 ? paper : undefined,
+  });
+}
+
+/**
+ * BacktestEngine settings; the caller adds capital and the date range
+ */
+export function toBacktestConfig(
+  definition: StrategyDefinition
+): Pick<BacktestConfig, 'strategy' | 'rebalanceFrequencyDays' | 'gasCostUsd' | 'protocols'> {
+  const { triggers = {}, costs = {} } = definition;
+  return {
+    strategy: toStrategy(definition),
+    ...defined({
+      // The simulation steps one day at a time
+      rebalanceFrequencyDays: triggers.checkIntervalMinutes !== undefined
+        ? Math.max(1, Math.round(triggers.checkIntervalMinutes / (24 * 60)))
+        : undefined,
+      gasCostUsd: costs.gasCostUsd,
+      protocols: definition.eligible?.protocols,
+    }),
+  };
+}
+
+/**
+ * Drop unset keys so spreading the result over defaults keeps the defaults
+ */
+function defined<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
@@ -12,6 +12,10 @@ import {
   RiskAdjustedOpportunity,
   calculateRiskScore,
 } from './risk';
+import { AllocationOptimizer, AllocationConstraints, AllocationPlan } from './optimizer';
+import { getTokenRegistry } from './tokens';
+import { CostEstimator, PricedAction, DEFAULT_EXPECTED_HOLDING_DAYS } from './costs';
+import { getApyHistory } from './apy-history';
 
 export interface StrategyDecision {
   actions: RebalanceAction[];
@@ -24,6 +28,7 @@ export interface StrategyDecision {
   projectedApy: number;
   projectedRiskAdjustedApy: number;
   confidence: number;
+  costs?: PricedAction[];             // Set by analyzeWithCosts, including rejected actions
 }
 
 export class StrategyEngine {
@@ -52,12 +57,81 @@ export class StrategyEngine {
   analyzeWithReasoning(
     portfolio: Portfolio,
     opportunities: YieldOpportunity[]
+  ): StrategyDecision {
+    // Without pricing each move, a flat 1% floor stands in for gas, slippage, etc.
+    return this.analyze(portfolio, opportunities, Math.max(this.strategy.rebalanceThreshold, 1.0));
+  }
+
+  /**
+   * Analysis that scores opportunities on APY smoothed over their snapshot
+   * history, prices every candidate action (gas, swap impact, protocol
+   * fees) and keeps those that break even within the expected holding
+   * period, instead of gating on a flat APY improvement. Replays of past
+   * data pass `history: false`, since recorded snapshots describe today.
+   */
+  async analyzeWithCosts(
+    portfolio: Portfolio,
+    candidates: YieldOpportunity[],
+    costModel: CostEstimator,
+    options: { history?: boolean } = {}
+  ): Promise<StrategyDecision> {
+    const opportunities = options.history === false
+      ? candidates
+      : await getApyHistory().annotate(candidates);
+    const decision = this.analyze(portfolio, opportunities, this.strategy.rebalanceThreshold);
+    if (decision.actions.length === 0) return decision;
+
+    const holdingDays = this.strategy.expectedHoldingDays ?? DEFAULT_EXPECTED_HOLDING_DAYS;
+    const reasoning = [...decision.reasoning, `Pricing ${decision.actions.length} action(s) against an expected holding period of ${holdingDays} days:`];
+    const costs: PricedAction[] = [];
+
+    for (const action of decision.actions) {
+      const cost = await costModel.estimate(action, this.getActionValueUsd(portfolio, action));
+      const worthwhile = cost.breakEvenDays <= holdingDays;
+      costs.push({ action, cost, worthwhile });
+
+      const label = `${action.from?.asset ?? action.to?.asset} ${action.from ? `from ${action.from.protocol} ` : ''}to ${action.to?.protocol ?? 'wallet'}`;
+      const breakEven = Number.isFinite(cost.breakEvenDays) ? `${cost.breakEvenDays.toFixed(1)} days` : 'never';
+      reasoning.push(`  ${worthwhile ? '✓' : '✗'} $${cost.valueUsd.toFixed(2)} ${label}: costs $${cost.totalUsd.toFixed(2)} ` +
+        `(gas $${cost.gasUsd.toFixed(2)}, swap $${cost.swapImpactUsd.toFixed(2)}, fees $${cost.protocolFeesUsd.toFixed(2)}` +
+        `${cost.exitDelayDays > 0 ? `, ${cost.exitDelayDays}d exit delay` : ''}${cost.estimated ? ', estimated' : ''}), breaks even in ${breakEven}`);
+    }
+
+    const actions = costs.filter(c => c.worthwhile).map(c => c.action);
+    if (actions.length === 0) {
+      reasoning.push(`No move pays back its costs within ${holdingDays} days — holding position`);
+      return {
+        ...decision,
+        actions: [],
+        reasoning,
+        riskAnalysis: {
+          ...decision.riskAnalysis,
+          proposedRiskScore: decision.riskAnalysis.currentRiskScore,
+          riskChange: 'unchanged',
+        },
+        projectedApy: portfolio.weightedApy,
+        projectedRiskAdjustedApy: this.estimateCurrentRiskAdjustedApy(
+          portfolio,
+          analyzeOpportunities(opportunities.filter(o => isEligible(this.strategy, o)))
+        ),
+        confidence: 0.85,
+        costs,
+      };
+    }
+
+    return { ...decision, actions, reasoning, costs };
+  }
+
+  private analyze(
+    portfolio: Portfolio,
+    opportunities: YieldOpportunity[],
+    minImprovement: number
   ): StrategyDecision {
     const actions: RebalanceAction[] = [];
     const reasoning: string[] = [];
     
-    // Step 1: Analyze all opportunities with risk scoring (now enhanced with AEGIS!)
-    const analyzed = analyzeOpportunities(opportunities);
+    // Step 1: Analyze eligible opportunities with risk scoring (now enhanced with AEGIS!)
+    const analyzed = analyzeOpportunities(opportunities.filter(o => isEligible(this.strategy, o)));
     
     // Step 2: Filter by risk tolerance (but use actual risk scores, not simple categories)
     const maxRiskScore = this.getRiskToleranceScore();
@@ -65,6 +139,10 @@ export class StrategyEngine {
     
     reasoning.push(`Filtered ${analyzed.length} opportunities down to ${eligible.length} within risk tolerance (max score: ${maxRiskScore})`);
 
+    if (eligible.length > 0 && this.strategy.allocation) {
+      return this.analyzeAllocation(portfolio, analyzed, eligible, reasoning, minImprovement);
+    }
+
     if (eligible.length === 0) {
       return {
         actions: [],
@@ -87,6 +165,9 @@ export class StrategyEngine {
     reasoning.push(`Best risk-adjusted opportunity: ${bestOpp.asset} on ${bestOpp.protocol}`);
     reasoning.push(`  Raw APY: ${bestOpp.apy.toFixed(2)}% | Risk-adjusted: ${bestOpp.adjustedApy.toFixed(2)}%`);
     reasoning.push(`  Risk score: ${bestOpp.riskScore.overall}/100 | Sharpe ratio: ${bestOpp.sharpeRatio.toFixed(2)}`);
+    if (bestOpp.apyHistory) {
+      reasoning.push(`  Scored on ${bestOpp.apyHistory.smoothedApy.toFixed(2)}% smoothed over ${bestOpp.apyHistory.windowDays}d (${bestOpp.apyHistory.trend}, ±${bestOpp.apyHistory.volatility.toFixed(2)}%)`);
+    }
     
     if (bestOpp.riskScore.warnings.length > 0) {
       reasoning.push(`  ⚠️ Warnings: ${bestOpp.riskScore.warnings.join('; ')}`);
@@ -102,14 +183,8 @@ export class StrategyEngine {
     reasoning.push(`Current portfolio risk-adjusted APY: ${currentAdjustedApy.toFixed(2)}%`);
     reasoning.push(`Potential improvement: ${apyImprovement.toFixed(2)}%`);
 
-    // Higher threshold for rebalancing (gas costs, time, etc.)
-    const effectiveThreshold = Math.max(
-      this.strategy.rebalanceThreshold,
-      1.0 // Minimum 1% improvement to justify rebalancing
-    );
-
-    if (apyImprovement < effectiveThreshold) {
-      reasoning.push(`Improvement below threshold (${effectiveThreshold}%) — holding position`);
+    if (apyImprovement < minImprovement) {
+      reasoning.push(`Improvement below threshold (${minImprovement}%) — holding position`);
       return {
         actions: [],
         reasoning,
@@ -126,6 +201,9 @@ export class StrategyEngine {
 
     // Step 5: Find underperforming positions to rebalance
     for (const position of portfolio.positions) {
+      // Borrows and other liabilities are reported with non-positive value
+      if (position.valueUsd <= 0) continue;
+
       // Find this position in our analyzed opportunities
       const positionOpp = analyzed.find(
         o => o.protocol === position.protocol && o.asset === position.asset
@@ -133,7 +211,7 @@ export class StrategyEngine {
       const positionAdjustedApy = positionOpp?.adjustedApy || position.currentApy;
 
       // Only rebalance if the improvement is significant
-      if (bestOpp.adjustedApy - positionAdjustedApy >= effectiveThreshold) {
+      if (bestOpp.adjustedApy - positionAdjustedApy >= minImprovement) {
         // Check protocol concentration limits
         const targetProtocolValue = portfolio.positions
           .filter(p => p.protocol === bestOpp.protocol)
@@ -148,11 +226,13 @@ export class StrategyEngine {
               protocol: position.protocol,
               asset: position.asset,
               amount: position.amount,
+              metadata: position.metadata,
             },
             to: {
               protocol: bestOpp.protocol,
               asset: bestOpp.asset,
               amount: position.amount,
+              metadata: bestOpp.metadata,
             },
             expectedApyGain: bestOpp.adjustedApy - positionAdjustedApy,
           });
@@ -184,6 +264,22 @@ export class StrategyEngine {
     };
   }
 
+  /**
+   * Target weights across every eligible opportunity and the actions from
+   * current holdings to them. Constraints not set in `strategy.allocation`
+   * follow the strategy: the protocol cap is maxProtocolConcentration and
+   * the risk budget sits below the per-opportunity risk tolerance.
+   */
+  optimizeAllocation(
+    portfolio: Portfolio,
+    opportunities: YieldOpportunity[]
+  ): AllocationPlan {
+    const maxRiskScore = this.getRiskToleranceScore();
+    const eligible = analyzeOpportunities(opportunities.filter(o => isEligible(this.strategy, o)))
+      .filter(o => o.riskScore.overall <= maxRiskScore);
+    return new AllocationOptimizer(this.getAllocationConstraints()).plan(portfolio, eligible);
+  }
+
   /**
    * Compare multiple opportunities side-by-side
    * Enhanced with AEGIS!
@@ -195,7 +291,7 @@ export class StrategyEngine {
     ranking: RiskAdjustedOpportunity[];
     analysis: string;
   } {
-    const analyzed = analyzeOpportunities(opportunities);
+    const analyzed = analyzeOpportunities(opportunities.filter(o => isEligible(this.strategy, o)));
     const maxRiskScore = this.getRiskToleranceScore();
     const eligible = analyzed.filter(o => o.riskScore.overall <= maxRiskScore);
     const sorted = sortByRiskAdjustedReturn(eligible);
@@ -220,6 +316,99 @@ export class StrategyEngine {
     };
   }
 
+  /**
+   * Allocation mode: spread the portfolio with the optimizer instead of
+   * moving underperformers into the single best opportunity
+   */
+  private analyzeAllocation(
+    portfolio: Portfolio,
+    analyzed: RiskAdjustedOpportunity[],
+    eligible: RiskAdjustedOpportunity[],
+    reasoning: string[],
+    minImprovement: number
+  ): StrategyDecision {
+    const plan = new AllocationOptimizer(this.getAllocationConstraints()).plan(portfolio, eligible);
+    const currentRiskScore = this.getPortfolioRiskScore(portfolio, analyzed);
+    const currentAdjustedApy = this.estimateCurrentRiskAdjustedApy(portfolio, analyzed);
+    const apyImprovement = plan.expectedAdjustedApy - currentAdjustedApy;
+
+    reasoning.push(`Target allocation across ${plan.targets.length} positions:`);
+    for (const target of plan.targets) {
+      reasoning.push(`  ${(target.weight * 100).toFixed(1)}% ${target.asset} on ${target.protocol} (${target.adjustedApy.toFixed(2)}% risk-adjusted, risk ${target.riskScore}/100)`);
+    }
+    if (plan.unallocatedWeight > 0.001) {
+      reasoning.push(`  ${(plan.unallocatedWeight * 100).toFixed(1)}% left in the wallet`);
+    }
+    if (plan.binding.length > 0) {
+      reasoning.push(`Binding constraints: ${plan.binding.join('; ')}`);
+    }
+    reasoning.push(`Current portfolio risk-adjusted APY: ${currentAdjustedApy.toFixed(2)}%`);
+    reasoning.push(`Target risk-adjusted APY: ${plan.expectedAdjustedApy.toFixed(2)}% (improvement: ${apyImprovement.toFixed(2)}%)`);
+
+    if (apyImprovement < minImprovement || plan.actions.length === 0) {
+      reasoning.push(`Improvement below threshold (${minImprovement}%) — holding allocation`);
+      return {
+        actions: [],
+        reasoning,
+        riskAnalysis: {
+          currentRiskScore,
+          proposedRiskScore: currentRiskScore,
+          riskChange: 'unchanged',
+        },
+        projectedApy: portfolio.weightedApy,
+        projectedRiskAdjustedApy: currentAdjustedApy,
+        confidence: 0.85,
+      };
+    }
+
+    for (const action of plan.actions) {
+      const source = `${action.from?.amount.toFixed(4)} ${action.from?.asset} from ${action.from?.protocol}`;
+      reasoning.push(action.to
+        ? `→ Move ${source} to ${action.to.asset} on ${action.to.protocol}`
+        : `→ Withdraw ${source} (over target)`);
+    }
+
+    return {
+      actions: plan.actions,
+      reasoning,
+      riskAnalysis: {
+        currentRiskScore,
+        proposedRiskScore: plan.riskScore,
+        riskChange: plan.riskScore < currentRiskScore ? 'decreased' :
+                   plan.riskScore > currentRiskScore ? 'increased' : 'unchanged',
+      },
+      projectedApy: plan.expectedApy,
+      projectedRiskAdjustedApy: plan.expectedAdjustedApy,
+      confidence: 0.75 + (0.25 - plan.riskScore / 400),
+    };
+  }
+
+  /**
+   * Optimizer constraints, filling what the strategy doesn't set
+   */
+  private getAllocationConstraints(): Partial<AllocationConstraints> {
+    return {
+      maxProtocolWeight: this.strategy.maxProtocolConcentration,
+      maxRiskScore: Math.round(this.getRiskToleranceScore() * 0.8), // Average below the per-position cap
+      ...this.strategy.allocation,
+    };
+  }
+
+  /**
+   * USD value an action moves, priced from the position it leaves (or the
+   * wallet holding it spends)
+   */
+  private getActionValueUsd(portfolio: Portfolio, action: RebalanceAction): number {
+    const leg = action.from ?? action.to;
+    if (!leg) return 0;
+
+    const source = portfolio.positions.find(p =>
+      (!action.from || p.protocol === action.from.protocol) &&
+      sameAsset(p.asset, leg.asset) && p.amount > 0 && p.valueUsd > 0
+    );
+    return source ? (leg.amount / source.amount) * source.valueUsd : 0;
+  }
+
   /**
    * Convert risk tolerance to maximum risk score
    */
@@ -297,6 +486,24 @@ export class StrategyEngine {
   }
 }
 
+/**
+ * Whether an opportunity is within the strategy's eligible protocols, assets
+ * and types (an unset list allows everything). Sources that don't classify
+ * opportunities (DeFi Llama, historical data) pass the type check.
+ */
+export function isEligible(strategy: Strategy, opportunity: YieldOpportunity): boolean {
+  const { protocols, assets, types } = strategy.eligible || {};
+  if (protocols && !protocols.includes(opportunity.protocol)) return false;
+  if (assets && !assets.some(asset => sameAsset(asset, opportunity.asset))) return false;
+  if (types && opportunity.type && !types.includes(opportunity.type)) return false;
+  return true;
+}
+
+function sameAsset(a: string, b: string): boolean {
+  const registry = getTokenRegistry();
+  return (registry.getMint(a) ?? a.toUpperCase()) === (registry.getMint(b) ?? b.toUpperCase());
+}
+
 // Utility
 function formatNumber(num: number): string {
   if (num >= 1_000_000_000) return `${(num / 1_000_000_000).toFixed(1)}B`;
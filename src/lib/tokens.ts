@@ -0,0 +1,282 @@
+/**
+ * Token Registry
+ *
+ * Single source of truth for token metadata: mint, decimals, Token-2022 flag,
+ * Pyth price account and asset class. Amount conversions go through here so
+ * a 6-decimal stablecoin is never scaled like SOL.
+ *
+ * The built-in list covers the assets the engine trades. Extra tokens can be
+ * registered at runtime or loaded from a JSON list (an array of TokenInfo),
+ * e.g. via the TOKEN_LIST_PATH environment variable.
+ */
+
+import { readFileSync } from 'fs';
+import { getClusterProfile } from './cluster';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TokenClass = 'native' | 'stable' | 'lst' | 'volatile';
+
+export interface TokenInfo {
+  symbol: string;
+  mint: string;
+  decimals: number;
+  class: TokenClass;
+  token2022?: boolean;
+  pythFeed?: string;          // Pyth price account
+  aliases?: string[];         // Alternative symbols (e.g. WSOL)
+}
+
+// ============================================================================
+// Built-in Token List
+// ============================================================================
+
+export const DEFAULT_TOKEN_LIST: TokenInfo[] = [
+  {
+    symbol: 'SOL',
+    mint: 'So11111111111111111111111111111111111111112',
+    decimals: 9,
+    class: 'native',
+    pythFeed: 'H6ARHf6YXhGYeQfUzQNGk6rDNnLBQKrenN712K4AQJEG',
+    aliases: ['WSOL'],
+  },
+  {
+    symbol: 'USDC',
+    mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    decimals: 6,
+    class: 'stable',
+    pythFeed: 'Gnt27xtC473ZT2Mw5u8wZ68Z3gULkSTb5DuxJy7eJotD',
+  },
+  {
+    symbol: 'USDT',
+    mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+    decimals: 6,
+    class: 'stable',
+    pythFeed: '3vxLXJqLqF3JG5TCbYycbKWRBbCJQLxQmBGCkyqEEefL',
+  },
+  {
+    symbol: 'PYUSD',
+    mint: '2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo',
+    decimals: 6,
+    class: 'stable',
+    token2022: true,
+  },
+  {
+    symbol: 'mSOL',
+    mint: 'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So',
+    decimals: 9,
+    class: 'lst',
+    pythFeed: 'E4v1BBgoso9s64TQvmyownAVJbhbEPGyzA3qn4n46qj9',
+  },
+  {
+    symbol: 'JitoSOL',
+    mint: 'J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn',
+    decimals: 9,
+    class: 'lst',
+    pythFeed: '7yyaeuJ1GGtVBLT2z2xub5ZWYKaNhF28mj1RdV4VDFVk',
+  },
+  {
+    symbol: 'bSOL',
+    mint: 'bSo13r4TkiE4KumL71LsHTPpL2euBYLFx6h9HP3piy1',
+    decimals: 9,
+    class: 'lst',
+  },
+  {
+    symbol: 'jupSOL',
+    mint: 'jupSoLaHXQiZZTSfEWMTRRgpnyFm8f6sZdosWBjx93v',
+    decimals: 9,
+    class: 'lst',
+  },
+  {
+    symbol: 'INF',
+    mint: '5oVNBeEEQvYi1cX3ir8Dx5n1P7pdxydbGF2X4TxVusJm',
+    decimals: 9,
+    class: 'lst',
+  },
+  {
+    symbol: 'JLP',
+    mint: '27G8MtK7VtTcCHkpASjSDdkWWYfoqT6ggEuKidVJidD4',
+    decimals: 6,
+    class: 'volatile',
+  },
+  {
+    symbol: 'JUP',
+    mint: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN',
+    decimals: 6,
+    class: 'volatile',
+    pythFeed: 'g6eRCbboSwK4tSWWZ97FY8BzvgdqYzvyFE11gLxmNuA',
+  },
+  {
+    symbol: 'JTO',
+    mint: 'jtojtomepa8beP8AuQc6eXt5FriJwfFMwQx2v2f9mCL',
+    decimals: 9,
+    class: 'volatile',
+    pythFeed: '8npsqRFCKiMPsjVhLp9ZLfR4XfEYDovGGjbz3BvC42sY',
+  },
+  {
+    symbol: 'BONK',
+    mint: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
+    decimals: 5,
+    class: 'volatile',
+    pythFeed: '8ihFLu5FimgTQ1Unh4dVyEHUGodJ5gJQCrQf4KUVB9bN',
+  },
+  {
+    symbol: 'RAY',
+    mint: '4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R',
+    decimals: 6,
+    class: 'volatile',
+    pythFeed: 'AnLf8tVYCM816gmBjiy8n53eXKKEDydT5piYjjQDPgTB',
+  },
+  {
+    symbol: 'ORCA',
+    mint: 'orcaEKTdK7LKz57vaAYr9QeNsVEPfiu6QeMU1kektZE',
+    decimals: 6,
+    class: 'volatile',
+    pythFeed: '4ivThkX8uRxBpHsdWSqyXYihzKF3zpRGAUCqyuagnLoV',
+  },
+];
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export class TokenRegistry {
+  private bySymbol = new Map<string, TokenInfo>();
+  private byMint = new Map<string, TokenInfo>();
+
+  constructor(tokens: TokenInfo[] = DEFAULT_TOKEN_LIST) {
+    for (const token of tokens) {
+      this.register(token);
+    }
+  }
+
+  /**
+   * Add or replace a token. Later registrations win for both symbol and mint.
+   */
+  register(token: TokenInfo): this {
+    validateToken(token);
+
+    this.byMint.set(token.mint, token);
+    for (const symbol of [token.symbol, ...(token.aliases || [])]) {
+      this.bySymbol.set(normalizeSymbol(symbol), token);
+    }
+    return this;
+  }
+
+  /**
+   * Register every token in a JSON list (string or parsed array)
+   */
+  loadJson(json: string | TokenInfo[]): this {
+    const tokens = typeof json === 'string' ? JSON.parse(json) : json;
+    if (!Array.isArray(tokens)) {
+      throw new Error('Token list must be a JSON array');
+    }
+
+    for (const token of tokens) {
+      this.register(token);
+    }
+    return this;
+  }
+
+  loadFile(path: string): this {
+    return this.loadJson(readFileSync(path, 'utf-8'));
+  }
+
+  /**
+   * Look up by mint address or symbol (case- and punctuation-insensitive)
+   */
+  get(symbolOrMint: string): TokenInfo | undefined {
+    return this.byMint.get(symbolOrMint) || this.bySymbol.get(normalizeSymbol(symbolOrMint));
+  }
+
+  /**
+   * Like get(), but throws for unknown tokens
+   */
+  require(symbolOrMint: string): TokenInfo {
+    const token = this.get(symbolOrMint);
+    if (!token) {
+      throw new Error(`Unknown token: ${symbolOrMint}`);
+    }
+    return token;
+  }
+
+  getMint(symbolOrMint: string): string | null {
+    return this.get(symbolOrMint)?.mint ?? null;
+  }
+
+  getSymbol(mint: string): string | undefined {
+    return this.byMint.get(mint)?.symbol;
+  }
+
+  list(): TokenInfo[] {
+    return [...this.byMint.values()];
+  }
+
+  symbols(): string[] {
+    return this.list().map(t => t.symbol);
+  }
+
+  isStable(symbolOrMint: string): boolean {
+    return this.get(symbolOrMint)?.class === 'stable';
+  }
+
+  isLst(symbolOrMint: string): boolean {
+    return this.get(symbolOrMint)?.class === 'lst';
+  }
+
+  /**
+   * UI amount -> integer base units using the token's decimals
+   */
+  toBaseUnits(symbolOrMint: string, amount: number): bigint {
+    const { decimals } = this.require(symbolOrMint);
+    // Round via string to avoid float artifacts (e.g. 1.1 * 1e6 = 1100000.0000000002)
+    const [whole, fraction = ''] = amount.toFixed(decimals).split('.');
+    return BigInt(whole + fraction.padEnd(decimals, '0'));
+  }
+
+  /**
+   * Integer base units -> UI amount
+   */
+  fromBaseUnits(symbolOrMint: string, amount: bigint | number | string): number {
+    const { decimals } = this.require(symbolOrMint);
+    return Number(amount) / 10 ** decimals;
+  }
+}
+
+function normalizeSymbol(symbol: string): string {
+  return symbol.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function validateToken(token: TokenInfo): void {
+  if (!token || typeof token.symbol !== 'string' || typeof token.mint !== 'string') {
+    throw new Error(`Invalid token entry: ${JSON.stringify(token)}`);
+  }
+  if (!Number.isInteger(token.decimals) || token.decimals < 0 || token.decimals > 18) {
+    throw new Error(`Invalid decimals for ${token.symbol}: ${token.decimals}`);
+  }
+  if (!['native', 'stable', 'lst', 'volatile'].includes(token.class)) {
+    throw new Error(`Invalid class for ${token.symbol}: ${token.class}`);
+  }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let tokenRegistry: TokenRegistry | null = null;
+
+export function getTokenRegistry(): TokenRegistry {
+  if (!tokenRegistry) {
+    // Tokens whose mint differs on the active cluster (e.g. devnet USDC)
+    const { tokens } = getClusterProfile();
+    tokenRegistry = new TokenRegistry(
+      DEFAULT_TOKEN_LIST.map(t => tokens[t.symbol] ? { ...t, mint: tokens[t.symbol] } : t)
+    );
+    if (process.env.TOKEN_LIST_PATH) {
+      tokenRegistry.loadFile(process.env.TOKEN_LIST_PATH);
+    }
+  }
+  return tokenRegistry;
+}
@@ -8,22 +8,35 @@
  * - MANUAL: Agent provides recommendations, human executes
  * - MONITORING: Agent monitors and alerts, no execution
  * - AUTONOMOUS: Full autonomous execution with safety rails
+ * - PAPER: Autonomous pipeline with simulated fills against a virtual portfolio
  */
 
-import { Connection, Keypair, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { Connection, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { EventEmitter } from 'events';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync, unlinkSync } from 'fs';
+import { join } from 'path';
 import { Autopilot, AutopilotDecision, AutopilotState } from './autopilot';
-import { Executor } from './executor';
+import { Executor, LegPlan, PlannedLeg, TransactionReceipt } from './executor';
+import { YieldMonitor } from './monitor';
 import { Strategy, Portfolio, RebalanceAction } from '../types';
 import { fetchAllSolanaYields } from './defillama';
 import { analyzeOpportunities, sortByRiskAdjustedReturn, RiskAdjustedOpportunity } from './risk';
 import { getHistoryStore } from './history';
+import { getConfirmationTracker } from './confirmation';
+import { TransactionSigner } from './signer';
+import { SquadsProposal, SquadsProposer } from './squads';
+import { JupiterQuoteSource, LocalQuoteSource, PaperTrader, PaperTradingConfig } from './paper';
+import { isEligible } from './strategy';
+import { loadStrategyFile, toStrategy, toTradingConfig } from './strategy-file';
+import { RebalanceCostModel, DEFAULT_EXPECTED_HOLDING_DAYS } from './costs';
+import { getApyHistory } from './apy-history';
+import { getSolPriceUsd } from './lst';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export type TradingMode = 'manual' | 'monitoring' | 'autonomous';
+export type TradingMode = 'manual' | 'monitoring' | 'autonomous' | 'paper';
 
 export interface TradingModeConfig {
   mode: TradingMode;
@@ -41,6 +54,21 @@ export interface TradingModeConfig {
   emergencyExitThreshold: number;  // Force exit if risk score exceeds
   // Approvals
   requireApprovalAboveUsd: number; // Manual approval for trades above this
+  // Execution
+  execution: 'direct' | 'squads';  // Sign and send, or propose to a Squads multisig
+  squads?: SquadsConfig;
+  paper?: Partial<PaperTradingConfig>; // Fill model and starting balances for paper mode
+  tradesDir?: string;              // Live trades are kept here while executing (default ./data/trades)
+}
+
+export interface SquadsConfig {
+  multisig: string;                // Squads v4 multisig address
+  vaultIndex?: number;             // Vault holding the funds (default 0)
+}
+
+export interface TradeProposal extends SquadsProposal {
+  leg: PlannedLeg['leg'];
+  description: string;
 }
 
 export interface PendingTrade {
@@ -48,13 +76,19 @@ export interface PendingTrade {
   timestamp: number;
   action: RebalanceAction;
   decision: AutopilotDecision;
+  decisionId?: string;                // Decision history record
   estimatedValueUsd: number;
-  status: 'pending' | 'approved' | 'rejected' | 'executing' | 'completed' | 'failed';
+  status: 'pending' | 'approved' | 'rejected' | 'executing' | 'proposed' | 'completed' | 'failed';
   requiresApproval: boolean;
   approvedAt?: number;
   approvedBy?: string;
   executedAt?: number;
   txId?: string;
+  plannedLegs?: LegPlan[];            // Live execution: every transaction the action needs, in order
+  receipts?: TransactionReceipt[];    // Every transaction sent, with tier and fee paid
+  feesLamports?: number;              // Total network fees actually paid
+  proposals?: TradeProposal[];        // Squads execution: one proposal per leg
+  proposalStatus?: 'proposed' | 'approved' | 'executed' | 'rejected';
   error?: string;
 }
 
@@ -83,7 +117,7 @@ export interface TradingState {
 }
 
 export interface TradingEvent {
-  type: 'mode_change' | 'decision' | 'trade_queued' | 'trade_approved' | 
+  type: 'mode_change' | 'decision' | 'trade_queued' | 'trade_approved' | 'trade_proposed' |
         'trade_executed' | 'trade_failed' | 'circuit_breaker' | 'emergency_stop' |
         'yield_update' | 'portfolio_update' | 'alert';
   timestamp: number;
@@ -106,6 +140,7 @@ export const DEFAULT_TRADING_CONFIG: TradingModeConfig = {
   maxDrawdownPercent: 10,
   emergencyExitThreshold: 80,
   requireApprovalAboveUsd: 500,
+  execution: 'direct',
 };
 
 // ============================================================================
@@ -114,10 +149,14 @@ export const DEFAULT_TRADING_CONFIG: TradingModeConfig = {
 
 export class TradingModeManager extends EventEmitter {
   private connection: Connection;
-  private keypair: Keypair;
+  private signer: TransactionSigner;
   private strategy: Strategy;
   private config: TradingModeConfig;
   private executor: Executor;
+  private proposer: SquadsProposer | null = null;
+  private paperTrader: PaperTrader | null = null;
+  private monitor: YieldMonitor;
+  private costs: RebalanceCostModel;
   private historyStore = getHistoryStore();
   
   private state: TradingState;
@@ -126,20 +165,53 @@ export class TradingModeManager extends EventEmitter {
 
   constructor(
     connection: Connection,
-    keypair: Keypair,
+    signer: TransactionSigner,
     strategy: Strategy,
     config: Partial<TradingModeConfig> = {}
   ) {
     super();
     this.connection = connection;
-    this.keypair = keypair;
+    this.signer = signer;
     this.strategy = strategy;
     this.config = { ...DEFAULT_TRADING_CONFIG, ...config };
-    this.executor = new Executor(connection, keypair);
+    this.executor = new Executor(connection, signer);
+    this.monitor = new YieldMonitor(connection);
+    this.costs = new RebalanceCostModel(connection);
+    
+    if (this.config.execution === 'squads') {
+      if (!this.config.squads) {
+        throw new Error('Squads execution needs a squads.multisig address');
+      }
+      this.proposer = new SquadsProposer(
+        connection,
+        signer,
+        new PublicKey(this.config.squads.multisig),
+        this.config.squads.vaultIndex
+      );
+    }
     
     this.state = this.createInitialState();
   }
 
+  /**
+   * Manager for a strategy file. `config` (e.g. the trading mode) takes
+   * precedence over the file's triggers, costs and approval policy.
+   */
+  static fromStrategyFile(
+    connection: Connection,
+    signer: TransactionSigner,
+    path: string,
+    config: Partial<TradingModeConfig> = {}
+  ): TradingModeManager {
+    const definition = loadStrategyFile(path);
+    const fileConfig = toTradingConfig(definition);
+    return new TradingModeManager(connection, signer, toStrategy(definition), {
+      ...fileConfig,
+      ...config,
+      paper: { ...fileConfig.paper, ...config.paper },
+    });
+  }
+
   private createInitialState(): TradingState {
     return {
       mode: this.config.mode,
@@ -174,6 +246,9 @@ export class TradingModeManager extends EventEmitter {
     this.state.sessionStartTime = Date.now();
     this.state.sessionId = generateSessionId();
     
+    // Settle trades a previous run left executing
+    await this.resolveInterruptedTrades();
+    
     // Initial portfolio fetch
     await this.refreshPortfolio();
     
@@ -237,6 +312,14 @@ export class TradingModeManager extends EventEmitter {
     
     console.log(`📊 Trading mode changed: ${previousMode} → ${mode}`);
     
+    // Live and paper portfolios are different books: restart the drawdown peak
+    if ((previousMode === 'paper') !== (mode === 'paper')) {
+      this.state.peakValue = 0;
+      this.state.currentDrawdown = 0;
+      this.state.portfolio = null;
+      this.refreshPortfolio();
+    }
+    
     // If switching to autonomous, verify safety
     if (mode === 'autonomous') {
       this.verifySafetyForAutonomous();
@@ -324,7 +407,23 @@ export class TradingModeManager extends EventEmitter {
       // 3. Emit decision event
       this.emitEvent('decision', decision);
       
-      // 4. Handle based on mode
+      // 4. Record to history
+      const portfolioSnapshot = this.state.portfolio || {
+        totalValue: 0,
+        weightedApy: 0,
+        positions: [],
+      };
+      
+      const record = await this.historyStore.record(decision, {
+        portfolioSnapshot,
+        yieldSnapshot: this.state.currentYields.slice(0, 20) as any, // YieldOpportunity[]
+        riskAnalyzedYields: this.state.currentYields.slice(0, 20),
+        strategyConfig: this.strategy,
+        tradingMode: this.state.mode,
+        sessionId: this.state.sessionId,
+      });
+      
+      // 5. Handle based on mode
       if (decision.actions.length > 0) {
         switch (this.state.mode) {
           case 'manual':
@@ -346,28 +445,13 @@ export class TradingModeManager extends EventEmitter {
             break;
             
           case 'autonomous':
-            // Queue for execution
-            await this.queueTrades(decision);
+          case 'paper':
+            // Queue for execution (simulated fills in paper mode)
+            await this.queueTrades(decision, record.id);
             break;
         }
       }
       
-      // 5. Record to history
-      const portfolioSnapshot = this.state.portfolio || {
-        totalValue: 0,
-        weightedApy: 0,
-        positions: [],
-      };
-      
-      await this.historyStore.record(decision, {
-        portfolioSnapshot,
-        yieldSnapshot: this.state.currentYields.slice(0, 20) as any, // YieldOpportunity[]
-        riskAnalyzedYields: this.state.currentYields.slice(0, 20),
-        strategyConfig: this.strategy,
-        tradingMode: this.state.mode,
-        sessionId: this.state.sessionId,
-      });
-      
     } catch (err) {
       console.error('Decision cycle error:', err);
       this.emitEvent('alert', {
@@ -383,7 +467,9 @@ export class TradingModeManager extends EventEmitter {
     
     // Get risk-adjusted opportunities
     const maxRiskScore = this.getRiskToleranceScore();
-    const eligible = this.state.currentYields.filter(o => o.riskScore.overall <= maxRiskScore);
+    const eligible = this.state.currentYields.filter(
+      o => o.riskScore.overall <= maxRiskScore && isEligible(this.strategy, o)
+    );
     
     if (eligible.length === 0 || !this.state.portfolio) {
       return {
@@ -447,21 +533,35 @@ export class TradingModeManager extends EventEmitter {
     if (this.state.portfolio.positions.length > 0) {
       const currentPos = this.state.portfolio.positions[0];
       if (best.protocol !== currentPos.protocol || best.asset !== currentPos.asset) {
-        actions.push({
+        const action: RebalanceAction = {
           type: 'withdraw',
           from: {
             protocol: currentPos.protocol,
             asset: currentPos.asset,
             amount: currentPos.amount,
+            metadata: currentPos.metadata,
           },
           to: {
             protocol: best.protocol,
             asset: best.asset,
             amount: currentPos.amount,
+            metadata: best.metadata,
           },
           expectedApyGain: improvement,
-        });
-        reasoning.push(`→ Rebalance ${currentPos.asset} from ${currentPos.protocol} to ${best.protocol}`);
+        };
+
+        // Only worth it if the gain pays back gas, swap impact and fees in time
+        const holdingDays = this.strategy.expectedHoldingDays ?? DEFAULT_EXPECTED_HOLDING_DAYS;
+        const cost = await this.costs.estimate(action, currentPos.valueUsd);
+        const breakEven = Number.isFinite(cost.breakEvenDays) ? `${cost.breakEvenDays.toFixed(1)} days` : 'never';
+        reasoning.push(`Cost to move $${currentPos.valueUsd.toFixed(2)}: $${cost.totalUsd.toFixed(2)}, breaks even in ${breakEven} (holding ~${holdingDays} days)`);
+
+        if (cost.breakEvenDays <= holdingDays) {
+          actions.push(action);
+          reasoning.push(`→ Rebalance ${currentPos.asset} from ${currentPos.protocol} to ${best.protocol}`);
+        } else {
+          reasoning.push('Move would not pay back its costs in time — holding');
+        }
       }
     }
     
@@ -494,7 +594,7 @@ export class TradingModeManager extends EventEmitter {
   // Trade Queue & Execution
   // ============================================================================
 
-  private async queueTrades(decision: AutopilotDecision): Promise<void> {
+  private async queueTrades(decision: AutopilotDecision, decisionId?: string): Promise<void> {
     for (const action of decision.actions) {
       const estimatedValue = action.from?.amount || 0;
       const estimatedValueUsd = estimatedValue * 180; // Assume SOL price
@@ -504,6 +604,7 @@ export class TradingModeManager extends EventEmitter {
         timestamp: Date.now(),
         action,
         decision,
+        decisionId,
         estimatedValueUsd,
         status: 'pending',
         requiresApproval: estimatedValueUsd > this.config.requireApprovalAboveUsd,
@@ -539,8 +640,8 @@ export class TradingModeManager extends EventEmitter {
     
     console.log(`✅ Trade approved: ${tradeId} by ${approvedBy}`);
     
-    // Execute immediately if in autonomous mode
-    if (this.state.mode === 'autonomous') {
+    // Execute immediately if in autonomous or paper mode
+    if (this.state.mode === 'autonomous' || this.state.mode === 'paper') {
       await this.executeTrade(tradeId);
     }
     
@@ -564,6 +665,179 @@ export class TradingModeManager extends EventEmitter {
     return true;
   }
 
+  /**
+   * Squads execution: turn each leg of the trade into a vault transaction
+   * proposal for the multisig's members to approve and execute
+   */
+  private async proposeTrade(trade: PendingTrade, proposer: SquadsProposer): Promise<void> {
+    trade.status = 'executing';
+    trade.proposals = [];
+    
+    try {
+      console.log(`🗳️ Proposing trade to Squads: ${trade.id}`);
+      
+      const legs = await this.executor.buildActionLegs(trade.action, proposer.vault, {
+        maxSlippage: this.config.maxSlippageBps / 10000,
+      });
+      if (legs.length === 0) {
+        throw new Error('Trade has no transactions to propose');
+      }
+      
+      for (const [i, leg] of legs.entries()) {
+        const memo = `SolanaYield trade ${trade.id} leg ${i + 1}/${legs.length} (${leg.leg}) ` +
+          `decision ${trade.decisionId ?? 'n/a'}: ${trade.decision.reasoning.replace(/\s+/g, ' ')}`;
+        const proposal = await proposer.propose(leg.instructions, leg.lookupTables, memo);
+        trade.proposals.push({ ...proposal, leg: leg.leg, description: leg.description });
+        console.log(`  📨 Proposal #${proposal.transactionIndex}: ${leg.description}`);
+      }
+      
+      trade.status = 'proposed';
+      trade.proposalStatus = 'proposed';
+      trade.txId = trade.proposals[0].signature;
+      
+      // Count against the limits now: the agent has committed to the trade
+      this.state.totalVolumeToday += trade.estimatedValueUsd;
+      this.state.lastTradeTime = Date.now();
+      
+      this.emitEvent('trade_proposed', trade);
+      
+    } catch (err) {
+      // Proposals already created stay open for the members to reject
+      trade.status = 'failed';
+      trade.error = String(err);
+      
+      this.emitEvent('trade_failed', trade);
+      
+      console.error(`❌ Trade proposal failed: ${err}`);
+    }
+  }
+
+  /**
+   * Track Squads votes and execution back onto proposed trades: rejected if
+   * any leg is rejected, cancelled or stale; completed once every leg executed
+   */
+  async syncProposals(): Promise<void> {
+    if (!this.proposer) return;
+    
+    for (const trade of this.state.pendingTrades.filter(t => t.status === 'proposed')) {
+      try {
+        for (const proposal of trade.proposals || []) {
+          proposal.status = await this.proposer.getProposalStatus(proposal.transactionIndex);
+        }
+      } catch (err) {
+        console.warn(`Proposal status check failed for ${trade.id}:`, err);
+        continue;
+      }
+      
+      const proposals = trade.proposals || [];
+      const rejected = proposals.find(p => ['rejected', 'cancelled', 'stale'].includes(p.status));
+      
+      if (rejected) {
+        trade.status = 'rejected';
+        trade.proposalStatus = 'rejected';
+        trade.error = `Squads proposal #${rejected.transactionIndex} ${rejected.status}`;
+        this.emitEvent('trade_failed', trade);
+        console.log(`❌ Trade ${trade.id} rejected on-chain: ${trade.error}`);
+      } else if (proposals.every(p => p.status === 'executed')) {
+        trade.status = 'completed';
+        trade.proposalStatus = 'executed';
+        trade.executedAt = Date.now();
+        
+        this.state.tradesExecutedToday++;
+        
+        this.emitEvent('trade_executed', { trade, txId: trade.txId });
+        console.log(`✅ Trade ${trade.id} executed by the multisig`);
+      } else if (
+        trade.proposalStatus !== 'approved' &&
+        proposals.every(p => ['approved', 'executing', 'executed'].includes(p.status))
+      ) {
+        trade.proposalStatus = 'approved';
+        this.emitEvent('trade_approved', trade);
+        console.log(`🗳️ Trade ${trade.id} approved by the multisig, awaiting execution`);
+      }
+    }
+  }
+
+  /**
+   * Find out what happened to transactions left in flight (e.g. by a crash
+   * mid-trade) and settle their trades: completed only if every planned
+   * leg landed, otherwise failed with where the funds were left (e.g. in the
+   * wallet after a withdraw whose swap and deposit were never sent). Trades
+   * interrupted by a restart are rebuilt from the copy saved when they
+   * started executing.
+   */
+  async resolveInterruptedTrades(): Promise<void> {
+    const tracker = getConfirmationTracker();
+    const saved = this.loadInFlightTrades();
+    const tradeIds = new Set([
+      ...tracker.getPending().map(e => e.tradeId).filter((id): id is string => !!id),
+      ...saved.map(t => t.id),
+    ]);
+    if (tradeIds.size === 0) return;
+
+    console.log(`🔎 Resolving ${tradeIds.size} interrupted trade(s)`);
+    await tracker.resolvePending(this.connection);
+
+    for (const tradeId of tradeIds) {
+      const transactions = tracker.getByTrade(tradeId);
+      if (transactions.some(t => t.status === 'pending')) {
+        console.warn(`⚠️ Trade ${tradeId} still unresolved`);
+        continue;
+      }
+
+      let trade = this.state.pendingTrades.find(t => t.id === tradeId);
+      if (!trade) {
+        trade = saved.find(t => t.id === tradeId);
+        if (trade) this.state.pendingTrades.push(trade);
+      }
+
+      const failed = transactions.find(t => t.status === 'failed' || t.status === 'expired');
+      const landed = transactions.filter(t => t.status === 'landed').length;
+      // Without a saved plan (a trade only known to the tracker) every leg sent must have landed
+      const legs = trade?.plannedLegs;
+      const completed = !failed && landed > 0 && landed === (legs?.length ?? transactions.length);
+      if (trade) {
+        trade.status = completed ? 'completed' : 'failed';
+        trade.txId = transactions[0]?.signature;
+        if (completed) {
+          trade.executedAt = transactions[transactions.length - 1].resolvedAt;
+          this.recordExecutedTrade(trade);
+        } else {
+          const stopped = failed
+            ? `Transaction ${failed.signature} ${failed.status}`
+            : landed === 0
+              ? 'Interrupted before any transaction was sent'
+              : `Interrupted after ${landed} of ${legs?.length ?? '?'} legs`;
+          trade.error = `${stopped}; funds are ${fundsLocation(trade.action, legs, landed)}`;
+        }
+      }
+      this.clearInFlightTrade(tradeId);
+
+      const result = {
+        tradeId,
+        trade,
+        recovered: true,
+        transactions: transactions.map(t => ({ signature: t.signature, status: t.status, err: t.err })),
+      };
+      if (completed) {
+        this.emitEvent('trade_executed', result);
+        console.log(`✅ Interrupted trade ${tradeId} completed: ${transactions.map(t => t.signature).join(', ')}`);
+      } else {
+        this.emitEvent('trade_failed', result);
+        console.log(`❌ Interrupted trade ${tradeId} did not complete`);
+      }
+    }
+  }
+
+  /**
+   * Count an executed trade against the daily limits and cooldown
+   */
+  private recordExecutedTrade(trade: PendingTrade): void {
+    this.state.tradesExecutedToday++;
+    this.state.totalVolumeToday += trade.estimatedValueUsd;
+    this.state.lastTradeTime = trade.executedAt ?? Date.now();
+  }
+
   /**
    * Execute an approved trade
    */
@@ -590,24 +864,41 @@ export class TradingModeManager extends EventEmitter {
       return;
     }
     
+    const paper = this.state.mode === 'paper';
+    if (this.proposer && !paper) {
+      await this.proposeTrade(trade, this.proposer);
+      return;
+    }
+    
     trade.status = 'executing';
+    if (!paper) {
+      trade.plannedLegs = this.executor.planLegs(trade.action);
+      this.saveInFlightTrade(trade);
+    }
     
     try {
-      console.log(`⚡ Executing trade: ${tradeId}`);
+      console.log(`⚡ Executing trade${paper ? ' (paper)' : ''}: ${tradeId}`);
       
-      const txIds = await this.executor.executeActions(
-        [trade.action],
-        { maxSlippage: this.config.maxSlippageBps / 10000 }
-      );
+      const maxSlippage = this.config.maxSlippageBps / 10000;
+      const receipts = paper
+        ? await this.getPaperTrader().execute(trade.action, {
+            maxSlippage,
+            apy: this.getCurrentApy(trade.action.to),
+          })
+        : await this.executor.executeActionsWithReceipts(
+            [trade.action],
+            { maxSlippage, tradeId: trade.id }
+          );
+      const txIds = receipts.map(r => r.txId);
       
       trade.status = 'completed';
       trade.executedAt = Date.now();
       trade.txId = txIds[0];
+      trade.receipts = receipts;
+      trade.feesLamports = receipts.reduce((sum, r) => sum + r.feeLamports, 0);
       
       // Update stats
-      this.state.tradesExecutedToday++;
-      this.state.totalVolumeToday += trade.estimatedValueUsd;
-      this.state.lastTradeTime = Date.now();
+      this.recordExecutedTrade(trade);
       this.state.consecutiveLosses = 0; // Reset on successful trade
       
       this.emitEvent('trade_executed', {
@@ -621,6 +912,8 @@ export class TradingModeManager extends EventEmitter {
       
       console.log(`✅ Trade executed: ${txIds[0]}`);
       
+      if (paper) await this.refreshPortfolio();
+      
     } catch (err) {
       trade.status = 'failed';
       trade.error = String(err);
@@ -639,7 +932,46 @@ export class TradingModeManager extends EventEmitter {
       });
       
       console.error(`❌ Trade failed: ${err}`);
+    } finally {
+      if (!paper) this.clearInFlightTrade(trade.id);
+    }
+  }
+
+  // ============================================================================
+  // In-flight Trade Storage
+  // ============================================================================
+
+  private get tradesDir(): string {
+    return this.config.tradesDir || './data/trades';
+  }
+
+  /**
+   * Written before the first transaction is sent, so a restart can settle the trade
+   */
+  private saveInFlightTrade(trade: PendingTrade): void {
+    if (!existsSync(this.tradesDir)) {
+      mkdirSync(this.tradesDir, { recursive: true });
+    }
+    writeFileSync(join(this.tradesDir, `${trade.id}.json`), JSON.stringify(trade, null, 2));
+  }
+
+  private clearInFlightTrade(tradeId: string): void {
+    const filePath = join(this.tradesDir, `${tradeId}.json`);
+    if (existsSync(filePath)) unlinkSync(filePath);
+  }
+
+  private loadInFlightTrades(): PendingTrade[] {
+    if (!existsSync(this.tradesDir)) return [];
+
+    const trades: PendingTrade[] = [];
+    for (const file of readdirSync(this.tradesDir).filter(f => f.endsWith('.json'))) {
+      try {
+        trades.push(JSON.parse(readFileSync(join(this.tradesDir, file), 'utf-8')));
+      } catch (err) {
+        console.warn(`Could not read in-flight trade ${file}:`, err);
+      }
     }
+    return trades;
   }
 
   // ============================================================================
@@ -648,17 +980,27 @@ export class TradingModeManager extends EventEmitter {
 
   private startPortfolioMonitoring(): void {
     this.portfolioInterval = setInterval(
-      () => this.refreshPortfolio(),
+      () => {
+        this.refreshPortfolio();
+        this.syncProposals();
+      },
       30 * 1000 // Every 30 seconds
     );
   }
 
+  /**
+   * The wallet being managed: the Squads vault in proposal mode
+   */
+  private get wallet(): PublicKey {
+    return this.proposer?.vault ?? this.signer.publicKey;
+  }
+
   private async refreshPortfolio(): Promise<void> {
     try {
-      const balance = await this.connection.getBalance(this.keypair.publicKey);
-      const solBalance = balance / LAMPORTS_PER_SOL;
-      const solPrice = 180; // TODO: Fetch real price
-      const valueUsd = solBalance * solPrice;
+      const newPortfolio = this.state.mode === 'paper'
+        ? await this.getPaperTrader().getPortfolio()
+        : await this.fetchLivePortfolio();
+      const valueUsd = newPortfolio.totalValue;
       
       // Track peak for drawdown calculation
       if (valueUsd > this.state.peakValue) {
@@ -675,19 +1017,6 @@ export class TradingModeManager extends EventEmitter {
         }
       }
       
-      const newPortfolio: Portfolio = {
-        totalValue: valueUsd,
-        weightedApy: 5.2, // TODO: Calculate from actual positions
-        positions: solBalance > 0.01 ? [{
-          protocol: 'native',
-          asset: 'SOL',
-          amount: solBalance,
-          valueUsd,
-          currentApy: 5.2,
-          entryTime: new Date(),
-        }] : [],
-      };
-      
       const changed = !this.state.portfolio || 
         Math.abs(this.state.portfolio.totalValue - newPortfolio.totalValue) > 0.01;
       
@@ -698,6 +1027,7 @@ export class TradingModeManager extends EventEmitter {
           portfolio: newPortfolio,
           drawdown: this.state.currentDrawdown,
           peakValue: this.state.peakValue,
+          paper: this.state.mode === 'paper',
         });
       }
     } catch (err) {
@@ -705,12 +1035,71 @@ export class TradingModeManager extends EventEmitter {
     }
   }
 
+  private async fetchLivePortfolio(): Promise<Portfolio> {
+    const [balance, protocolPortfolio, solPrice] = await Promise.all([
+      this.connection.getBalance(this.wallet),
+      this.monitor.getPortfolio(this.wallet),
+      getSolPriceUsd(this.connection),
+    ]);
+    const solBalance = balance / LAMPORTS_PER_SOL;
+    const nativeValueUsd = solBalance * solPrice;
+    
+    // Protocol positions (lending, perps, LSTs) count toward drawdown too
+    const positions = [
+      ...(solBalance > 0.01 ? [{
+        protocol: 'native',
+        asset: 'SOL',
+        amount: solBalance,
+        valueUsd: nativeValueUsd,
+        currentApy: 0,   // Idle wallet SOL; staked SOL is reported as LST positions
+        entryTime: new Date(),
+      }] : []),
+      ...protocolPortfolio.positions,
+    ];
+    const valueUsd = nativeValueUsd + protocolPortfolio.totalValue;
+    
+    return {
+      totalValue: valueUsd,
+      weightedApy: valueUsd > 0
+        ? positions.reduce((sum, p) => sum + p.currentApy * p.valueUsd, 0) / valueUsd
+        : 0,
+      positions,
+    };
+  }
+
+  /**
+   * Paper portfolio, created on first use so live-only runs never touch it
+   */
+  private getPaperTrader(): PaperTrader {
+    if (!this.paperTrader) {
+      const config = this.config.paper || {};
+      const quotes = config.quoteSource === 'local'
+        ? new LocalQuoteSource(config.localPrices, config.localImpactBpsPerMillionUsd)
+        : new JupiterQuoteSource(this.connection);
+      this.paperTrader = new PaperTrader(quotes, config);
+    }
+    return this.paperTrader;
+  }
+
+  /**
+   * Current APY of a trade's target, as paper positions accrue it
+   */
+  private getCurrentApy(target: RebalanceAction['to']): number {
+    if (!target) return 0;
+    const match = this.state.currentYields.find(y => y.protocol === target.protocol && y.asset === target.asset);
+    return match?.apy ?? 0;
+  }
+
   private async refreshYields(): Promise<void> {
     try {
-      const yields = await fetchAllSolanaYields();
+      const yields = await getApyHistory().annotate(await fetchAllSolanaYields());
       const analyzed = analyzeOpportunities(yields);
       this.state.currentYields = sortByRiskAdjustedReturn(analyzed).slice(0, 50);
       
+      if (this.state.mode === 'paper') {
+        this.getPaperTrader().updateApys(this.state.currentYields);
+      }
+      
       this.emitEvent('yield_update', {
         count: this.state.currentYields.length,
         top: this.state.currentYields.slice(0, 5).map(y => ({
@@ -756,7 +1145,7 @@ export class TradingModeManager extends EventEmitter {
 
   private verifySafetyForAutonomous(): void {
     const checks = [
-      { name: 'Keypair loaded', passed: !!this.keypair },
+      { name: 'Signer loaded', passed: !!this.signer },
       { name: 'Connection active', passed: !!this.connection },
       { name: 'Strategy configured', passed: !!this.strategy },
       { name: 'Safety limits set', passed: this.config.maxTradeValueUsd > 0 },
@@ -867,3 +1256,16 @@ function generateSessionId(): string {
 function generateTradeId(): string {
   return `trade_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
 }
+
+/**
+ * Where an action's funds sit once its first `landed` legs have landed
+ */
+function fundsLocation(action: RebalanceAction, legs: LegPlan[] | undefined, landed: number): string {
+  if (landed === 0) {
+    return action.type === 'withdraw' && action.from
+      ? `still in ${action.from.protocol}`
+      : 'still in the wallet';
+  }
+  const held = legs?.[landed - 1]?.asset;
+  return held ? `in the wallet as ${held}` : 'in the wallet';
+}
@@ -5,6 +5,8 @@
  * Higher risk = lower max allocation to volatile strategies.
  */
 
+import { dataFetch } from './data-source';
+
 export interface WargamesRisk {
   score: number;           // 0-100, higher = more risk
   bias: 'risk-on' | 'neutral' | 'risk-off';
@@ -36,7 +38,7 @@ const WARGAMES_API = 'https://wargames-api.vercel.app/live/risk';
  */
 export async function fetchMacroRisk(): Promise<WargamesRisk | null> {
   try {
-    const response = await fetch(WARGAMES_API, {
+    const response = await dataFetch(WARGAMES_API, {
       headers: { 'Accept': 'application/json' },
     });
     
@@ -10,7 +10,7 @@
  */
 
 import { IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
-import { TradingModeManager, TradingEvent, TradingState } from './trading-mode';
+import { TradingMode, TradingModeManager, TradingEvent, TradingState } from './trading-mode';
 
 // ============================================================================
 // Types
@@ -365,12 +365,12 @@ export function createTradingRoutes(
         const body = await parseBody(req);
         const mode = body.mode as string;
         
-        if (!['manual', 'monitoring', 'autonomous'].includes(mode)) {
-          error(res, 400, 'Invalid mode. Use: manual, monitoring, or autonomous');
+        if (!['manual', 'monitoring', 'autonomous', 'paper'].includes(mode)) {
+          error(res, 400, 'Invalid mode. Use: manual, monitoring, autonomous, or paper');
           return;
         }
         
-        manager.setMode(mode as 'manual' | 'monitoring' | 'autonomous');
+        manager.setMode(mode as TradingMode);
         json(res, { success: true, mode });
       } catch (err) {
         error(res, 400, `Invalid request: ${err}`);
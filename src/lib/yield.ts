@@ -1,7 +1,10 @@
-import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { Connection, PublicKey } from '@solana/web3.js';
 import { YieldMonitor } from './monitor';
 import { StrategyEngine } from './strategy';
 import { Executor } from './executor';
+import { TransactionSigner } from './signer';
+import { createConnection } from './cluster';
+import { RebalanceCostModel } from './costs';
 import { 
   SolanaYieldConfig, 
   YieldOpportunity, 
@@ -10,7 +13,7 @@ import {
   Strategy 
 } from '../types';
 
-const DEFAULT_STRATEGY: Strategy = {
+export const DEFAULT_STRATEGY: Strategy = {
   name: 'balanced',
   riskTolerance: 'medium',
   rebalanceThreshold: 0.5,
@@ -20,22 +23,22 @@ const DEFAULT_STRATEGY: Strategy = {
 
 export class SolanaYield {
   private connection: Connection;
-  private keypair: Keypair;
+  private signer: TransactionSigner;
   private monitor: YieldMonitor;
   private strategy: StrategyEngine;
   private executor: Executor;
+  private costs: RebalanceCostModel;
   private config: Strategy;
 
   constructor(config: SolanaYieldConfig) {
-    this.keypair = config.keypair;
-    this.connection = new Connection(
-      config.rpcUrl || 'https://api.mainnet-beta.solana.com'
-    );
+    this.signer = config.signer;
+    this.connection = createConnection(config.rpcUrl);
     this.config = config.strategy || DEFAULT_STRATEGY;
     
     this.monitor = new YieldMonitor(this.connection);
     this.strategy = new StrategyEngine(this.config);
-    this.executor = new Executor(this.connection, this.keypair);
+    this.executor = new Executor(this.connection, this.signer);
+    this.costs = new RebalanceCostModel(this.connection);
   }
 
   /**
@@ -49,16 +52,18 @@ export class SolanaYield {
    * Get current portfolio positions
    */
   async getPortfolio(): Promise<Portfolio> {
-    return this.monitor.getPortfolio(this.keypair.publicKey);
+    return this.monitor.getPortfolio(this.signer.publicKey);
   }
 
   /**
-   * Calculate optimal rebalancing actions
+   * Calculate optimal rebalancing actions, keeping those that pay back
+   * their costs within the strategy's expected holding period
    */
   async calculateRebalance(): Promise<RebalanceAction[]> {
     const opportunities = await this.getOpportunities();
     const portfolio = await this.getPortfolio();
-    return this.strategy.calculateOptimalMoves(portfolio, opportunities);
+    const decision = await this.strategy.analyzeWithCosts(portfolio, opportunities, this.costs);
+    return decision.actions;
   }
 
   /**
@@ -5,9 +5,10 @@
  */
 
 import { createServer, IncomingMessage, ServerResponse } from 'http';
-import { Connection, Keypair } from '@solana/web3.js';
+import { createConnection } from './lib/cluster';
 import { YieldMonitor } from './lib/monitor';
-import { JupiterSwap, TOKENS } from './lib/jupiter';
+import { JupiterSwap } from './lib/jupiter';
+import { getTokenRegistry } from './lib/tokens';
 import { 
   analyzeOpportunities, 
   sortByRiskAdjustedReturn, 
@@ -23,6 +24,7 @@ import {
 import { MCPServer } from './lib/mcp';
 import { TradingModeManager, DEFAULT_TRADING_CONFIG } from './lib/trading-mode';
 import { TradingWebSocketServer, createTradingRoutes } from './lib/websocket';
+import { KeypairSigner, TransactionSigner, loadSignerFromEnv } from './lib/signer';
 import {
   BacktestEngine,
   runQuickBacktest,
@@ -42,7 +44,7 @@ import { Strategy } from './types';
 import * as fs from 'fs';
 import * as path from 'path';
 
-const connection = new Connection(process.env.RPC_URL || 'https://api.mainnet-beta.solana.com');
+const connection = createConnection();
 const monitor = new YieldMonitor(connection);
 const jupiter = new JupiterSwap(connection);
 const historyStore = getHistoryStore(process.env.DECISION_DATA_DIR || './data/decisions');
@@ -92,20 +94,30 @@ function startAlertMonitor(intervalMs: number = 5 * 60 * 1000): void {
 let tradingManager: TradingModeManager | null = null;
 const wsServer = new TradingWebSocketServer();
 
-// Load keypair if available
-function loadKeypair(): Keypair | null {
+// Load a signer if available: remote signer or keystore from the environment,
+// otherwise a plain keypair file from the usual locations
+function loadSigner(): TransactionSigner | null {
+  try {
+    const signer = loadSignerFromEnv();
+    if (signer) {
+      console.log(`🔑 Loaded ${signer.kind} signer for ${signer.publicKey.toBase58()}`);
+      return signer;
+    }
+  } catch (err) {
+    console.warn(`⚠️ Failed to load signer: ${err}`);
+    return null;
+  }
+
   const keyPaths = [
-    process.env.KEYPAIR_PATH,
     path.join(process.env.HOME || '', '.openclaw/workspace/keys/main.json'),
     path.join(process.env.HOME || '', '.config/solana/id.json'),
-  ].filter(Boolean) as string[];
+  ];
   
   for (const keyPath of keyPaths) {
     try {
       if (fs.existsSync(keyPath)) {
-        const keyData = JSON.parse(fs.readFileSync(keyPath, 'utf-8'));
         console.log(`🔑 Loaded keypair from ${keyPath}`);
-        return Keypair.fromSecretKey(new Uint8Array(keyData));
+        return KeypairSigner.fromFile(keyPath);
       }
     } catch (err) {
       console.warn(`⚠️ Failed to load keypair from ${keyPath}: ${err}`);
@@ -115,8 +127,8 @@ function loadKeypair(): Keypair | null {
 }
 
 // Initialize trading manager with default strategy
-const keypair = loadKeypair();
-if (keypair) {
+const signer = loadSigner();
+if (signer) {
   const defaultStrategy = {
     name: 'balanced',
     riskTolerance: 'medium' as const,
@@ -126,18 +138,33 @@ if (keypair) {
     preferredProtocols: ['kamino', 'drift', 'jito', 'marinade'],
   };
   
-  tradingManager = new TradingModeManager(connection, keypair, defaultStrategy, {
-    mode: 'monitoring', // Start in safe mode
-    maxTradeValueUsd: 500,
-    maxDailyTradesUsd: 2000,
-    requireApprovalAboveUsd: 100,
-    decisionIntervalMs: 60 * 1000, // Check every minute
-  });
+  const serverConfig = {
+    mode: 'monitoring' as const, // Start in safe mode
+    // Treasury wallets: propose trades to a Squads multisig instead of signing them
+    ...(process.env.SQUADS_MULTISIG && {
+      execution: 'squads' as const,
+      squads: {
+        multisig: process.env.SQUADS_MULTISIG,
+        vaultIndex: process.env.SQUADS_VAULT_INDEX ? parseInt(process.env.SQUADS_VAULT_INDEX) : undefined,
+      },
+    }),
+  };
+  
+  // A strategy file brings its own limits and approval policy
+  tradingManager = process.env.STRATEGY_PATH
+    ? TradingModeManager.fromStrategyFile(connection, signer, process.env.STRATEGY_PATH, serverConfig)
+    : new TradingModeManager(connection, signer, defaultStrategy, {
+        maxTradeValueUsd: 500,
+        maxDailyTradesUsd: 2000,
+        requireApprovalAboveUsd: 100,
+        decisionIntervalMs: 60 * 1000, // Check every minute
+        ...serverConfig,
+      });
   
   wsServer.attachTradingManager(tradingManager);
-  console.log('🤖 Trading Mode Manager initialized (monitoring mode)');
+  console.log(`🤖 Trading Mode Manager initialized (monitoring mode${process.env.STRATEGY_PATH ? `, strategy from ${process.env.STRATEGY_PATH}` : ''})`);
 } else {
-  console.log('⚠️ No keypair found - Trading Mode disabled (read-only mode)');
+  console.log('⚠️ No signer found - Trading Mode disabled (read-only mode)');
 }
 
 const PORT = process.env.PORT || 3000;
@@ -159,6 +186,7 @@ const routes: Record<string, RouteHandler> = {
         '/yields': 'GET - All yield opportunities (raw APY)',
         '/yields/top': 'GET - Top 10 by raw APY',
         '/yields/all': 'GET - All Solana yields',
+        '/yields/reconciliation': 'GET - DeFi Llama vs adapter divergence report',
         // Risk Analysis
         '/risk/analyze': 'GET - Risk-adjusted recommendations (?risk=medium&top=10)',
         '/risk/compare': 'GET - Compare raw APY vs risk-adjusted rankings',
@@ -175,7 +203,7 @@ const routes: Record<string, RouteHandler> = {
         '/trading/stream': 'GET - SSE stream for real-time updates',
         '/trading/start': 'POST - Start trading manager',
         '/trading/stop': 'POST - Stop trading manager',
-        '/trading/mode': 'POST - Change mode (manual/monitoring/autonomous)',
+        '/trading/mode': 'POST - Change mode (manual/monitoring/autonomous/paper)',
         '/trading/pause': 'POST - Pause trading',
         '/trading/resume': 'POST - Resume trading',
         '/trading/emergency': 'POST - Emergency stop',
@@ -241,6 +269,15 @@ const routes: Record<string, RouteHandler> = {
     }
   },
 
+  'GET /yields/reconciliation': async (req, res) => {
+    try {
+      const { divergences, stats } = await monitor.fetchReconciledYields();
+      json(res, { stats, divergences });
+    } catch (err) {
+      error(res, 500, `Failed to reconcile yields: ${err}`);
+    }
+  },
+
   'GET /yields/all': async (req, res) => {
     try {
       const yields = await monitor.fetchAllSolanaOpportunities();
@@ -256,27 +293,24 @@ const routes: Record<string, RouteHandler> = {
     const to = url.searchParams.get('to')?.toUpperCase() || 'USDC';
     const amount = parseFloat(url.searchParams.get('amount') || '1');
 
-    const fromMint = (TOKENS as Record<string, string>)[from];
-    const toMint = (TOKENS as Record<string, string>)[to];
+    const tokens = getTokenRegistry();
+    const fromToken = tokens.get(from);
+    const toToken = tokens.get(to);
 
-    if (!fromMint || !toMint) {
-      error(res, 400, `Unknown token. Supported: ${Object.keys(TOKENS).join(', ')}`);
+    if (!fromToken || !toToken) {
+      error(res, 400, `Unknown token. Supported: ${tokens.symbols().join(', ')}`);
       return;
     }
 
     try {
-      // Convert to smallest unit (assuming 9 decimals for SOL-like, 6 for USDC)
-      const decimals = from === 'USDC' || from === 'USDT' ? 6 : 9;
-      const amountBase = Math.floor(amount * Math.pow(10, decimals));
-      
-      const route = await jupiter.getBestRoute(fromMint, toMint, amountBase);
-      const outputDecimals = to === 'USDC' || to === 'USDT' ? 6 : 9;
+      const amountBase = Number(tokens.toBaseUnits(fromToken.mint, amount));
+      const route = await jupiter.getBestRoute(fromToken.mint, toToken.mint, amountBase);
       
       json(res, {
         from,
         to,
         inputAmount: amount,
-        outputAmount: route.expectedOutput / Math.pow(10, outputDecimals),
+        outputAmount: tokens.fromBaseUnits(toToken.mint, route.expectedOutput),
         priceImpact: route.priceImpact,
         route: route.route,
       });
@@ -1377,7 +1411,7 @@ const server = createServer(async (req, res) => {
     if (!tradingManager) {
       json(res, {
         error: 'Trading mode not enabled',
-        reason: 'No keypair loaded. Set KEYPAIR_PATH environment variable.',
+        reason: 'No signer loaded. Set SIGNER_URL, KEYSTORE_PATH or KEYPAIR_PATH.',
         readOnlyEndpoints: ['/yields', '/risk/analyze', '/audit/decisions'],
       });
       return;
@@ -1436,7 +1470,7 @@ process.on('SIGTERM', () => {
 
 server.listen(PORT, () => {
   console.log(`🌾 SolanaYield API running on http://localhost:${PORT}`);
-  console.log(`🤖 Live Trading: ${tradingManager ? 'ENABLED' : 'DISABLED (no keypair)'}`);
+  console.log(`🤖 Live Trading: ${tradingManager ? 'ENABLED' : 'DISABLED (no signer)'}`);
   console.log(`🔔 Alert System: ENABLED`);
   if (tradingManager) {
     console.log(`📡 Trading stream: http://localhost:${PORT}/trading/stream`);
@@ -1,7 +1,14 @@
-import { PublicKey, Keypair } from '@solana/web3.js';
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import type { TransactionSigner } from './lib/signer';
+import type { AllocationConstraints } from './lib/optimizer';
+
+// Built-in protocol ids; adapters registered at runtime may report any string
+export type ProtocolId =
+  | 'kamino' | 'drift' | 'jito' | 'marinade' | 'mango' | 'pump.fun' | 'orca' | 'lulo' | 'marginfi' | 'meteora' | 'sanctum'
+  | (string & {});
 
 export interface YieldOpportunity {
-  protocol: 'kamino' | 'drift' | 'jito' | 'marinade' | 'mango' | 'pump.fun' | 'orca' | 'lulo';
+  protocol: ProtocolId;
   asset: string;
   type?: 'trading-fees' | 'lending' | 'staking' | 'liquidity';
   apy: number;
@@ -10,6 +17,36 @@ export interface YieldOpportunity {
   chain?: 'solana';
   minDeposit?: number;
   metadata?: Record<string, unknown>;
+  provenance?: YieldProvenance;
+  apyHistory?: ApyHistoryStats;
+}
+
+export interface YieldSourceQuote {
+  source: string;             // e.g. 'defillama', 'adapter'
+  apy: number;
+  tvl: number;
+  poolId?: string;
+  fetchedAt: number;
+}
+
+export interface YieldProvenance {
+  sources: YieldSourceQuote[];
+  primarySource: string;
+  agreement: 'single' | 'agree' | 'diverged';
+  apyDifference: number;      // Percentage points between sources
+  confidence: number;         // 0-1, how much the sources corroborate the APY
+}
+
+export interface ApyHistoryStats {
+  windowDays: number;
+  samples: number;
+  ema: number;                // Time-weighted, recent snapshots count most
+  median: number;
+  volatility: number;         // Standard deviation, APY points
+  relativeVolatility: number; // Volatility over the mean APY
+  persistence: number;        // 0-1, share of snapshots paying at least ~the spot APY
+  trend: 'rising' | 'falling' | 'flat';
+  smoothedApy: number;        // Persistence-weighted APY used for scoring
 }
 
 export interface Portfolio {
@@ -25,6 +62,7 @@ export interface Position {
   valueUsd: number;
   currentApy: number;
   entryTime: Date;
+  metadata?: Record<string, unknown>;
 }
 
 export interface Strategy {
@@ -34,17 +72,81 @@ export interface Strategy {
   maxProtocolConcentration: number; // max % in single protocol
   maxSlippage: number; // max slippage tolerance (e.g., 0.01 = 1%)
   preferredProtocols?: string[];
+  eligible?: StrategyEligibility; // Opportunities outside these lists are ignored
+  expectedHoldingDays?: number; // A move must pay back its costs within this (default 30)
+  allocation?: Partial<AllocationConstraints>; // Spread across opportunities instead of moving into the best one
+}
+
+export interface StrategyEligibility {
+  protocols?: string[];
+  assets?: string[];
+  types?: NonNullable<YieldOpportunity['type']>[];
+}
+
+export interface RebalanceLeg {
+  protocol: string;
+  asset: string;
+  amount: number;
+  metadata?: Record<string, unknown>;   // Position / opportunity metadata (reserve, market index, ...)
 }
 
+/**
+ * withdraw: leave `from` (and enter `to`, if set); deposit: enter `to` from
+ * the wallet, spending `from.asset` if set; swap: trade `from.asset` for
+ * `to.asset` without touching protocols
+ */
 export interface RebalanceAction {
   type: 'deposit' | 'withdraw' | 'swap';
-  from?: { protocol: string; asset: string; amount: number };
-  to?: { protocol: string; asset: string; amount: number };
+  from?: RebalanceLeg;
+  to?: RebalanceLeg;
   expectedApyGain: number;
 }
 
 export interface SolanaYieldConfig {
-  keypair: Keypair;
+  signer: TransactionSigner;
   rpcUrl?: string;
   strategy?: Strategy;
 }
+
+// ============================================================================
+// Protocol Adapters
+// ============================================================================
+
+export interface ProtocolAdapterMetadata {
+  id: string;                 // Registry key, unique per adapter
+  name: string;
+  protocols?: string[];       // Protocol ids this adapter reports (defaults to [id])
+  riskProfileId?: string;     // Key into PROTOCOL_PROFILES used for risk scoring
+  types?: NonNullable<YieldOpportunity['type']>[];
+  depositAsset?: string;      // Token buildDeposit consumes when it isn't the position asset (SOL for stake pools)
+  entryFeeBps?: number;       // Charged by the protocol on deposit
+  exitFeeBps?: number;        // Charged by the protocol on withdraw
+  exitDelayDays?: number;     // Wait before withdrawn funds are usable (unstaking, cooldowns)
+}
+
+export interface AdapterInstructionParams {
+  wallet: PublicKey;
+  asset: string;
+  amount: number;             // UI units (decimals applied) of the token being moved
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * A wallet token an instruction burns or sends away besides the asset being
+ * moved (reserve cTokens, LP or share tokens)
+ */
+export interface TokenSpend {
+  mint: string;
+  amount: bigint;             // Base units, the most that may leave the wallet
+}
+
+export interface ProtocolAdapter {
+  readonly metadata: ProtocolAdapterMetadata;
+  getYields(): Promise<YieldOpportunity[]>;
+  getPositions(wallet: PublicKey): Promise<Position[]>;
+  buildDeposit?(params: AdapterInstructionParams): Promise<TransactionInstruction[]>;
+  buildWithdraw?(params: AdapterInstructionParams): Promise<TransactionInstruction[]>;
+  getWithdrawSpends?(params: AdapterInstructionParams): Promise<TokenSpend[]>;  // Tokens buildWithdraw spends from the wallet
+}
+
+export type ProtocolAdapterFactory = (connection: Connection) => ProtocolAdapter;